@@ -1,11 +1,20 @@
 import { Tabs } from 'expo-router';
 import React from 'react';
+import { BottomTabBar } from '@react-navigation/bottom-tabs';
 import { Ionicons } from '@expo/vector-icons';
 import { Colors } from '@/constants/Colors';
+import MiniPlayer from '@/src/components/MiniPlayer';
 
 export default function TabLayout() {
   return (
     <Tabs
+      tabBar={(props) => (
+        <>
+          {/* Docked above the tab bar so playback stays reachable from every tab */}
+          <MiniPlayer />
+          <BottomTabBar {...props} />
+        </>
+      )}
       screenOptions={{
         tabBarActiveTintColor: Colors.tabActive,
         tabBarInactiveTintColor: Colors.tabInactive,
@@ -39,6 +48,13 @@ export default function TabLayout() {
           tabBarIcon: ({ color, size }) => <Ionicons name="bookmark" size={size} color={color} />,
         }}
       />
+      <Tabs.Screen
+        name="downloads"
+        options={{
+          title: 'Downloads',
+          tabBarIcon: ({ color, size }) => <Ionicons name="download" size={size} color={color} />,
+        }}
+      />
       <Tabs.Screen
         name="profile"
         options={{
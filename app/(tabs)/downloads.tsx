@@ -0,0 +1,371 @@
+import React, { useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SectionList,
+  Image,
+  TouchableOpacity,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import { useDownloads } from '@/src/context/DownloadsContext';
+import { DOWNLOAD_QUOTA_OPTIONS } from '@/src/storage/downloads';
+import { DownloadItem } from '@/src/types/download';
+import { formatBytes } from '@/src/utils/bytes';
+
+interface BookSection {
+  bookId: string;
+  title: string;
+  author: string;
+  coverUri?: string;
+  data: DownloadItem[];
+}
+
+const getStatusText = (item: DownloadItem): string => {
+  switch (item.status) {
+    case 'queued':
+      return 'Waiting to download';
+    case 'downloading':
+      return item.totalBytes > 0
+        ? `${formatBytes(item.bytesWritten)} of ${formatBytes(item.totalBytes)}`
+        : 'Downloading...';
+    case 'paused':
+      return item.totalBytes > 0
+        ? `Paused at ${formatBytes(item.bytesWritten)} of ${formatBytes(item.totalBytes)}`
+        : 'Paused';
+    case 'completed':
+      return item.audioUri ? `Audio and text · ${formatBytes(item.bytesWritten)}` : 'Text only';
+    case 'error':
+      return item.error || 'Download failed';
+  }
+};
+
+export default function DownloadsScreen() {
+  const {
+    isSupported,
+    downloads,
+    usedBytes,
+    quotaBytes,
+    pauseDownload,
+    resumeDownload,
+    cancelDownload,
+    removeBookDownloads,
+    setQuota,
+  } = useDownloads();
+
+  const sections = useMemo(() => {
+    const byBook = new Map<string, BookSection>();
+    for (const item of downloads) {
+      const section = byBook.get(item.bookId);
+      if (section) {
+        section.data.push(item);
+        section.coverUri = section.coverUri || item.coverUri;
+      } else {
+        byBook.set(item.bookId, {
+          bookId: item.bookId,
+          title: item.bookTitle,
+          author: item.author,
+          coverUri: item.coverUri,
+          data: [item],
+        });
+      }
+    }
+    return [...byBook.values()];
+  }, [downloads]);
+
+  const usedFraction = quotaBytes > 0 ? Math.min(usedBytes / quotaBytes, 1) : 0;
+
+  const renderItem = ({ item }: { item: DownloadItem }) => {
+    const progress = item.totalBytes > 0 ? item.bytesWritten / item.totalBytes : 0;
+    const isActive = item.status === 'queued' || item.status === 'downloading';
+
+    return (
+      <View style={styles.chapterRow}>
+        <View style={styles.chapterInfo}>
+          <Text style={styles.chapterTitle} numberOfLines={1}>{item.chapterTitle}</Text>
+          <Text
+            style={[styles.chapterStatus, item.status === 'error' && styles.chapterStatusError]}
+            numberOfLines={1}
+          >
+            {getStatusText(item)}
+          </Text>
+          {(item.status === 'downloading' || item.status === 'paused') && item.totalBytes > 0 && (
+            <View style={styles.progressTrack}>
+              <View style={[styles.progressFill, { width: `${Math.round(progress * 100)}%` }]} />
+            </View>
+          )}
+        </View>
+
+        {isActive && (
+          <TouchableOpacity style={styles.chapterAction} onPress={() => pauseDownload(item.id)}>
+            <Ionicons name="pause" size={20} color={Colors.textPrimary} />
+          </TouchableOpacity>
+        )}
+        {(item.status === 'paused' || item.status === 'error') && (
+          <TouchableOpacity style={styles.chapterAction} onPress={() => resumeDownload(item.id)}>
+            <Ionicons name={item.status === 'error' ? 'refresh' : 'play'} size={20} color={Colors.textPrimary} />
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity style={styles.chapterAction} onPress={() => cancelDownload(item.id)}>
+          <Ionicons
+            name={item.status === 'completed' ? 'trash-outline' : 'close'}
+            size={20}
+            color={Colors.textSecondary}
+          />
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const renderSectionHeader = ({ section }: { section: BookSection }) => (
+    <View style={styles.bookHeader}>
+      <TouchableOpacity
+        style={styles.bookHeaderInfo}
+        onPress={() => router.push({ pathname: '/book/[id]', params: { id: section.bookId } })}
+      >
+        {section.coverUri ? (
+          <Image source={{ uri: section.coverUri }} style={styles.bookCover} resizeMode="cover" />
+        ) : (
+          <View style={[styles.bookCover, styles.bookCoverPlaceholder]}>
+            <Ionicons name="book" size={20} color={Colors.textMuted} />
+          </View>
+        )}
+        <View style={styles.bookText}>
+          <Text style={styles.bookTitle} numberOfLines={1}>{section.title}</Text>
+          <Text style={styles.bookAuthor} numberOfLines={1}>{section.author}</Text>
+        </View>
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.chapterAction} onPress={() => removeBookDownloads(section.bookId)}>
+        <Ionicons name="trash-outline" size={20} color={Colors.textSecondary} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Downloads</Text>
+      </View>
+
+      {!isSupported ? (
+        <View style={styles.emptyContainer}>
+          <Ionicons name="cloud-offline-outline" size={80} color={Colors.textMuted} />
+          <Text style={styles.emptyText}>Downloads aren&apos;t available here</Text>
+          <Text style={styles.emptySubtext}>Use the mobile app to save books for offline reading</Text>
+        </View>
+      ) : (
+        <SectionList
+          sections={sections}
+          keyExtractor={(item) => item.id}
+          renderItem={renderItem}
+          renderSectionHeader={renderSectionHeader}
+          stickySectionHeadersEnabled={false}
+          contentContainerStyle={styles.list}
+          ListHeaderComponent={
+            <View style={styles.storageCard}>
+              <View style={styles.storageRow}>
+                <Text style={styles.storageLabel}>Storage used</Text>
+                <Text style={styles.storageValue}>
+                  {formatBytes(usedBytes)} of {formatBytes(quotaBytes)}
+                </Text>
+              </View>
+              <View style={styles.progressTrack}>
+                <View style={[styles.progressFill, { width: `${Math.round(usedFraction * 100)}%` }]} />
+              </View>
+              <Text style={styles.quotaLabel}>Download limit</Text>
+              <View style={styles.quotaOptions}>
+                {DOWNLOAD_QUOTA_OPTIONS.map(option => (
+                  <TouchableOpacity
+                    key={option}
+                    style={[styles.quotaOption, option === quotaBytes && styles.quotaOptionSelected]}
+                    onPress={() => setQuota(option)}
+                  >
+                    <Text style={[styles.quotaOptionText, option === quotaBytes && styles.quotaOptionTextSelected]}>
+                      {formatBytes(option)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Ionicons name="download-outline" size={80} color={Colors.textMuted} />
+              <Text style={styles.emptyText}>No downloads yet</Text>
+              <Text style={styles.emptySubtext}>Download a book to read and listen offline</Text>
+            </View>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.cardBackground,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: Colors.primary,
+  },
+  list: {
+    padding: 16,
+    flexGrow: 1,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  emptyText: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: Colors.textPrimary,
+    marginTop: 20,
+    textAlign: 'center',
+  },
+  emptySubtext: {
+    fontSize: 16,
+    color: Colors.textMuted,
+    marginTop: 10,
+    textAlign: 'center',
+  },
+  storageCard: {
+    backgroundColor: Colors.cardBackground,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  storageRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  storageLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+  storageValue: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  quotaLabel: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  quotaOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  quotaOption: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    marginBottom: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  quotaOptionSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  quotaOptionText: {
+    fontSize: 13,
+    color: Colors.textPrimary,
+  },
+  quotaOptionTextSelected: {
+    color: Colors.buttonText,
+    fontWeight: 'bold',
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: Colors.inputBackground,
+    overflow: 'hidden',
+    marginTop: 6,
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: Colors.primary,
+  },
+  bookHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  bookHeaderInfo: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  bookCover: {
+    width: 40,
+    height: 60,
+    borderRadius: 4,
+    backgroundColor: Colors.cardBackground,
+  },
+  bookCoverPlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  bookText: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  bookTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: Colors.textPrimary,
+  },
+  bookAuthor: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  chapterRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.cardBackground,
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingLeft: 12,
+    paddingRight: 4,
+    marginBottom: 8,
+  },
+  chapterInfo: {
+    flex: 1,
+  },
+  chapterTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+  chapterStatus: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  chapterStatusError: {
+    color: Colors.error,
+  },
+  chapterAction: {
+    padding: 8,
+  },
+});
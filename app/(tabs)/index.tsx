@@ -1,23 +1,47 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import {
   View,
   Text,
   StyleSheet,
-  ScrollView,
+  Image,
   TextInput,
   TouchableOpacity,
   FlatList,
+  ScrollView,
   useWindowDimensions,
   Platform,
   ActivityIndicator,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
-import { router } from 'expo-router';
+import { router, useFocusEffect } from 'expo-router';
 import { Colors } from '@/constants/Colors';
-import { getFeaturedBooks, getBooksByTag, searchBooks } from '@/src/firebase/services';
+import {
+  getFeaturedBooks,
+  getBooksByTag,
+  searchBooks,
+  getUserReadingProgress,
+} from '@/src/firebase/services';
 import { Book } from '@/src/types/book';
+import { ListeningProgress } from '@/src/types/playback';
+import { ReadingProgress } from '@/src/types/reader';
 import BookCard from '@/src/components/BookCard';
+import { usePlayback } from '@/src/context/PlaybackContext';
+import { useAuth } from '@/src/context/AuthContext';
+import {
+  getListeningHistory,
+  getProgressPercent,
+  isProgressComplete,
+} from '@/src/storage/listeningHistory';
+import { getReadingHistory, mergeReadingProgress } from '@/src/storage/readingProgress';
+import { useAudioDurations } from '@/src/hooks/useAudioDurations';
+import {
+  ContentLength,
+  getBookLength,
+  LENGTH_FILTERS,
+  LengthFilter,
+  matchesLengthFilter,
+} from '@/src/utils/readingTime';
 
 const EmptyBookList = ({ message }: { message: string }) => {
   return (
@@ -28,7 +52,19 @@ const EmptyBookList = ({ message }: { message: string }) => {
   );
 };
 
-const BookCategory = ({ title, books = [], isLoading = false }: { title: string, books: Book[], isLoading?: boolean }) => {
+const BookCategory = ({
+  title,
+  books = [],
+  isLoading = false,
+  readingPercents = {},
+  bookLengths = {},
+}: {
+  title: string,
+  books: Book[],
+  isLoading?: boolean,
+  readingPercents?: Record<string, number>,
+  bookLengths?: Record<string, ContentLength | null>,
+}) => {
   const { width } = useWindowDimensions();
   const isWeb = Platform.OS === 'web';
   
@@ -77,7 +113,12 @@ const BookCategory = ({ title, books = [], isLoading = false }: { title: string,
         <View style={styles.webBooksGrid}>
           {books.map((book, index) => (
             <View key={book.id || index} style={[styles.webBookCard, { width: (width - 60) / numColumns - 10 }]}>
-              <BookCard book={book} onPress={handleBookPress} />
+              <BookCard
+                book={book}
+                onPress={handleBookPress}
+                progressPercent={readingPercents[book.id]}
+                length={bookLengths[book.id]}
+              />
             </View>
           ))}
         </View>
@@ -88,7 +129,12 @@ const BookCategory = ({ title, books = [], isLoading = false }: { title: string,
           data={books}
           renderItem={({ item }) => (
             <View style={styles.mobileBookCard}>
-              <BookCard book={item} onPress={handleBookPress} />
+              <BookCard
+                book={item}
+                onPress={handleBookPress}
+                progressPercent={readingPercents[item.id]}
+                length={bookLengths[item.id]}
+              />
             </View>
           )}
           keyExtractor={(item) => item.id}
@@ -100,6 +146,148 @@ const BookCategory = ({ title, books = [], isLoading = false }: { title: string,
   );
 };
 
+const LengthFilterBar = ({
+  value,
+  onChange,
+}: {
+  value: LengthFilter,
+  onChange: (filter: LengthFilter) => void,
+}) => (
+  <ScrollView
+    horizontal
+    showsHorizontalScrollIndicator={false}
+    style={styles.lengthFilterBar}
+    contentContainerStyle={styles.lengthFilterContent}
+  >
+    {LENGTH_FILTERS.map(filter => {
+      const isSelected = filter.value === value;
+      return (
+        <TouchableOpacity
+          key={filter.value}
+          style={[styles.lengthFilter, isSelected && styles.lengthFilterSelected]}
+          onPress={() => onChange(filter.value)}
+        >
+          <Text style={[styles.lengthFilterText, isSelected && styles.lengthFilterTextSelected]}>
+            {filter.label}
+          </Text>
+        </TouchableOpacity>
+      );
+    })}
+  </ScrollView>
+);
+
+const ContinueListeningShelf = () => {
+  const { playTrack } = usePlayback();
+  const { user } = useAuth();
+  const userId = user?.uid;
+  const [history, setHistory] = useState<ListeningProgress[]>([]);
+
+  // Reload whenever the tab regains focus so newly played chapters show up
+  useFocusEffect(
+    useCallback(() => {
+      getListeningHistory(userId).then(entries => {
+        setHistory(entries.filter(entry => entry.positionMillis > 0 && !isProgressComplete(entry)).slice(0, 10));
+      });
+    }, [userId])
+  );
+
+  if (history.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.categoryContainer}>
+      <View style={styles.categoryHeader}>
+        <View style={styles.categoryTitleContainer}>
+          <View style={styles.categoryBar} />
+          <Text style={styles.categoryTitle}>Continue Listening</Text>
+        </View>
+      </View>
+
+      <FlatList
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        data={history}
+        keyExtractor={(item) => item.track.id}
+        renderItem={({ item }) => {
+          const percent = getProgressPercent(item);
+          return (
+            <TouchableOpacity style={styles.listeningCard} onPress={() => playTrack(item.track)}>
+              {item.track.artworkUrl ? (
+                <Image source={{ uri: item.track.artworkUrl }} style={styles.listeningCover} />
+              ) : (
+                <View style={[styles.listeningCover, styles.listeningCoverPlaceholder]}>
+                  <Ionicons name="musical-notes" size={32} color={Colors.textMuted} />
+                </View>
+              )}
+              <View style={styles.listeningPlayBadge}>
+                <Ionicons name="play" size={16} color="#FFFFFF" />
+              </View>
+              <Text style={styles.listeningTitle} numberOfLines={1}>{item.track.title}</Text>
+              {item.track.subtitle ? (
+                <Text style={styles.listeningSubtitle} numberOfLines={1}>{item.track.subtitle}</Text>
+              ) : null}
+              <View style={styles.listeningProgressBackground}>
+                <View style={[styles.listeningProgressFill, { width: `${percent}%` }]} />
+              </View>
+              <Text style={styles.listeningPercent}>{percent}% complete</Text>
+            </TouchableOpacity>
+          );
+        }}
+      />
+    </View>
+  );
+};
+
+const ContinueReadingShelf = ({ entries }: { entries: ReadingProgress[] }) => {
+  if (entries.length === 0) {
+    return null;
+  }
+
+  // Reopen the chapter at the spot the reader left it
+  const handlePress = (entry: ReadingProgress) => {
+    router.push({
+      pathname: '/book/[id]',
+      params: { id: entry.bookId, chapterId: entry.chapterId, offset: String(entry.chapterOffset) },
+    });
+  };
+
+  return (
+    <View style={styles.categoryContainer}>
+      <View style={styles.categoryHeader}>
+        <View style={styles.categoryTitleContainer}>
+          <View style={styles.categoryBar} />
+          <Text style={styles.categoryTitle}>Continue Reading</Text>
+        </View>
+      </View>
+
+      <FlatList
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        data={entries}
+        keyExtractor={(item) => item.bookId}
+        renderItem={({ item }) => (
+          <TouchableOpacity style={styles.listeningCard} onPress={() => handlePress(item)}>
+            {item.thumbnailUrl ? (
+              <Image source={{ uri: item.thumbnailUrl }} style={styles.listeningCover} />
+            ) : (
+              <View style={[styles.listeningCover, styles.listeningCoverPlaceholder]}>
+                <Ionicons name="book" size={32} color={Colors.textMuted} />
+              </View>
+            )}
+            <Text style={styles.listeningTitle} numberOfLines={1}>{item.bookTitle}</Text>
+            <Text style={styles.listeningSubtitle} numberOfLines={1}>{item.chapterTitle}</Text>
+            <View style={styles.listeningProgressBackground}>
+              <View style={[styles.listeningProgressFill, { width: `${item.percent}%` }]} />
+            </View>
+            <Text style={styles.listeningPercent}>{item.percent}% read</Text>
+          </TouchableOpacity>
+        )}
+      />
+    </View>
+  );
+};
+
 export default function HomeScreen() {
   const [searchTerm, setSearchTerm] = useState('');
   const [searchResults, setSearchResults] = useState<Book[]>([]);
@@ -117,10 +305,64 @@ export default function HomeScreen() {
     sciFi: true,
     search: false,
   });
+  const [readingHistory, setReadingHistory] = useState<ReadingProgress[]>([]);
+  const [lengthFilter, setLengthFilter] = useState<LengthFilter>('all');
+  const audioDurations = useAudioDurations();
+  const { user } = useAuth();
+  const userId = user?.uid;
   const { width } = useWindowDimensions();
   const isWeb = Platform.OS === 'web';
   const numColumns = isWeb ? 5 : 2;
 
+  // Reload whenever the tab regains focus or someone signs in, pulling in progress from their other devices
+  useFocusEffect(
+    useCallback(() => {
+      let cancelled = false;
+
+      const loadReadingHistory = async () => {
+        if (userId) {
+          await mergeReadingProgress(await getUserReadingProgress(userId));
+        }
+        const entries = await getReadingHistory();
+        if (!cancelled) {
+          setReadingHistory(entries);
+        }
+      };
+
+      loadReadingHistory();
+      return () => {
+        cancelled = true;
+      };
+    }, [userId])
+  );
+
+  const readingPercents = useMemo(
+    () => Object.fromEntries(readingHistory.map(entry => [entry.bookId, entry.percent])),
+    [readingHistory]
+  );
+  const unfinishedReading = useMemo(
+    () => readingHistory.filter(entry => entry.percent > 0 && entry.percent < 100).slice(0, 10),
+    [readingHistory]
+  );
+
+  const bookLengths = useMemo(() => {
+    const lengths: Record<string, ContentLength | null> = {};
+    for (const book of [...featuredBooks, ...historyBooks, ...academicsBooks, ...romanceBooks, ...sciFiBooks, ...searchResults]) {
+      if (!(book.id in lengths)) {
+        lengths[book.id] = getBookLength(book, audioDurations);
+      }
+    }
+    return lengths;
+  }, [featuredBooks, historyBooks, academicsBooks, romanceBooks, sciFiBooks, searchResults, audioDurations]);
+
+  const filterByLength = (books: Book[]) => (
+    lengthFilter === 'all' ? books : books.filter(book => matchesLengthFilter(bookLengths[book.id], lengthFilter))
+  );
+  const filteredSearchResults = filterByLength(searchResults);
+  const hasNoBooksOfLength = lengthFilter !== 'all' &&
+    !isLoading.featured && !isLoading.history && !isLoading.academics && !isLoading.romance && !isLoading.sciFi &&
+    [featuredBooks, historyBooks, academicsBooks, romanceBooks, sciFiBooks].every(books => filterByLength(books).length === 0);
+
   useEffect(() => {
     // Fetch featured books (all recent books)
     const loadFeaturedBooks = async () => {
@@ -267,13 +509,18 @@ export default function HomeScreen() {
       
       {isLoading.search ? (
         <ActivityIndicator size="large" color={Colors.primary} style={styles.searchLoader} />
-      ) : searchResults.length > 0 ? (
+      ) : filteredSearchResults.length > 0 ? (
         isWeb ? (
           // Web layout - grid with 5 columns
           <View style={styles.webBooksGrid}>
-            {searchResults.map((book, index) => (
+            {filteredSearchResults.map((book, index) => (
               <View key={book.id || index} style={[styles.webBookCard, { width: (width - 60) / numColumns - 10 }]}>
-                <BookCard book={book} onPress={handleBookPress} />
+                <BookCard
+                  book={book}
+                  onPress={handleBookPress}
+                  progressPercent={readingPercents[book.id]}
+                  length={bookLengths[book.id]}
+                />
               </View>
             ))}
           </View>
@@ -281,10 +528,15 @@ export default function HomeScreen() {
           // Mobile layout - grid with 2 columns
           <FlatList
             nestedScrollEnabled
-            data={searchResults}
+            data={filteredSearchResults}
             renderItem={({ item }) => (
               <View style={styles.mobileBookCard}>
-                <BookCard book={item} onPress={handleBookPress} />
+                <BookCard
+                  book={item}
+                  onPress={handleBookPress}
+                  progressPercent={readingPercents[item.id]}
+                  length={bookLengths[item.id]}
+                />
               </View>
             )}
             keyExtractor={(item) => item.id}
@@ -292,49 +544,74 @@ export default function HomeScreen() {
             contentContainerStyle={styles.booksGrid}
           />
         )
+      ) : searchResults.length > 0 ? (
+        <Text style={styles.noResultsText}>No books of this length match &quot;{searchTerm}&quot;</Text>
       ) : (
-        <Text style={styles.noResultsText}>No books found matching "{searchTerm}"</Text>
+        <Text style={styles.noResultsText}>No books found matching &quot;{searchTerm}&quot;</Text>
       )}
     </View>
   );
 
   // Book Categories Component
-  const bookCategories = !isSearching && (
+  const bookCategories = isSearching ? null : (
     <>
+      {/* Continue Reading - Only shown once a book has been partly read */}
+      <ContinueReadingShelf entries={unfinishedReading} />
+      
+      {/* Continue Listening - Only shown once something has been partly played */}
+      <ContinueListeningShelf />
+      
       {/* Featured Collection - Always shown if there are books */}
       <BookCategory 
         title="Featured Collection" 
-        books={featuredBooks} 
+        books={filterByLength(featuredBooks)} 
+        readingPercents={readingPercents}
+        bookLengths={bookLengths}
         isLoading={isLoading.featured} 
       />
       
       {/* History Collection - Only shown if there are books with history tag */}
       <BookCategory 
         title="History Collection" 
-        books={historyBooks} 
+        books={filterByLength(historyBooks)} 
+        readingPercents={readingPercents}
+        bookLengths={bookLengths}
         isLoading={isLoading.history} 
       />
       
       {/* Academics Collection - Only shown if there are books with academics tag */}
       <BookCategory 
         title="Academics" 
-        books={academicsBooks} 
+        books={filterByLength(academicsBooks)} 
+        readingPercents={readingPercents}
+        bookLengths={bookLengths}
         isLoading={isLoading.academics} 
       />
       
       {/* Romance Collection - Only shown if there are books with romance tag */}
       <BookCategory 
         title="Romance" 
-        books={romanceBooks} 
+        books={filterByLength(romanceBooks)} 
+        readingPercents={readingPercents}
+        bookLengths={bookLengths}
         isLoading={isLoading.romance} 
       />
       
       {/* Sci-Fi Collection - Only shown if there are books with sci-fi tag */}
       <BookCategory 
         title="Sci-Fi" 
-        books={sciFiBooks} 
+        books={filterByLength(sciFiBooks)} 
+        readingPercents={readingPercents}
+        bookLengths={bookLengths}
         isLoading={isLoading.sciFi} 
       />
+
+      {/* Every collection was filtered out by the chosen length */}
+      {hasNoBooksOfLength && (
+        <View style={styles.categoryContainer}>
+          <EmptyBookList message="No books of this length yet" />
+        </View>
+      )}
     </>
   );
 
@@ -345,6 +622,7 @@ export default function HomeScreen() {
           <>
             {heroBanner}
             {searchBar}
+            <LengthFilterBar value={lengthFilter} onChange={setLengthFilter} />
             {searchResultsBlock}
           </>
         }
@@ -447,6 +725,32 @@ const styles = StyleSheet.create({
   clearButton: {
     padding: 8,
   },
+  lengthFilterBar: {
+    marginTop: -8,
+  },
+  lengthFilterContent: {
+    paddingHorizontal: 20,
+    gap: 8,
+  },
+  lengthFilter: {
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+  },
+  lengthFilterSelected: {
+    borderColor: Colors.primary,
+    backgroundColor: 'rgba(255,0,0,0.12)',
+  },
+  lengthFilterText: {
+    color: Colors.textSecondary,
+    fontSize: 14,
+  },
+  lengthFilterTextSelected: {
+    color: Colors.primary,
+    fontWeight: 'bold',
+  },
   categoryContainer: {
     marginVertical: 20,
     paddingHorizontal: 20,
@@ -526,6 +830,58 @@ const styles = StyleSheet.create({
     marginVertical: 20,
     fontSize: 16,
   },
+  listeningCard: {
+    width: 130,
+    marginRight: 12,
+  },
+  listeningCover: {
+    width: 130,
+    height: 195,
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  listeningCoverPlaceholder: {
+    backgroundColor: Colors.cardBackground,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listeningPlayBadge: {
+    position: 'absolute',
+    top: 155,
+    right: 8,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    borderRadius: 16,
+    width: 32,
+    height: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listeningTitle: {
+    color: Colors.textPrimary,
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  listeningSubtitle: {
+    color: Colors.textSecondary,
+    fontSize: 12,
+    marginTop: 2,
+  },
+  listeningProgressBackground: {
+    height: 4,
+    backgroundColor: Colors.border,
+    borderRadius: 2,
+    overflow: 'hidden',
+    marginTop: 8,
+  },
+  listeningProgressFill: {
+    height: '100%',
+    backgroundColor: Colors.primary,
+  },
+  listeningPercent: {
+    color: Colors.textMuted,
+    fontSize: 11,
+    marginTop: 4,
+  },
   emptyContainer: {
     height: 200,
     justifyContent: 'center',
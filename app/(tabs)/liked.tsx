@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useCallback, useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -6,74 +6,177 @@ import {
   FlatList,
   Image,
   TouchableOpacity,
-  useWindowDimensions,
+  ActivityIndicator,
   Platform,
 } from 'react-native';
+import { router, useFocusEffect } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
+import { DocumentData, QueryDocumentSnapshot } from 'firebase/firestore';
 import { Colors } from '@/constants/Colors';
+import { useAuth } from '@/src/context/AuthContext';
+import { useLikes } from '@/src/context/LikesContext';
+import { getUserLikedBooks } from '@/src/firebase/services';
+import { LikedBook } from '@/src/types/book';
 
-const BookCard = ({ book, index }: { book: any, index: number }) => {
-  // Using a placeholder image for the book
-  const placeholderImage = 'https://via.placeholder.com/150x200/333333/FFFFFF?text=Liked+Book';
-  
-  return (
-    <TouchableOpacity style={styles.bookCard}>
-      <Image 
-        source={{ uri: placeholderImage }} 
-        style={styles.bookCover} 
-        resizeMode="cover"
-      />
-      <Text style={styles.bookTitle}>Liked Book Title</Text>
-      <Text style={styles.bookAuthor}>Author Name</Text>
-      <TouchableOpacity style={styles.likeButton}>
-        <Ionicons name="heart" size={18} color={Colors.primary} />
-      </TouchableOpacity>
+const PAGE_SIZE = 12;
+
+interface LikedBookCardProps {
+  book: LikedBook;
+  onPress: () => void;
+  onUnlike: () => void;
+}
+
+const LikedBookCard: React.FC<LikedBookCardProps> = ({ book, onPress, onUnlike }) => (
+  <TouchableOpacity style={styles.bookCard} onPress={onPress}>
+    {book.thumbnailUrl ? (
+      <Image source={{ uri: book.thumbnailUrl }} style={styles.bookCover} resizeMode="cover" />
+    ) : (
+      <View style={[styles.bookCover, styles.placeholderCover]}>
+        <Ionicons name="book" size={40} color={Colors.textMuted} />
+      </View>
+    )}
+    <Text style={styles.bookTitle} numberOfLines={2}>{book.title}</Text>
+    <Text style={styles.bookAuthor} numberOfLines={1}>{book.author}</Text>
+    <TouchableOpacity
+      style={styles.likeButton}
+      onPress={(e) => {
+        e.stopPropagation();
+        onUnlike();
+      }}
+    >
+      <Ionicons name="heart" size={18} color={Colors.primary} />
     </TouchableOpacity>
-  );
-};
+  </TouchableOpacity>
+);
 
 export default function LikedScreen() {
-  const { width } = useWindowDimensions();
-  const isWeb = Platform.OS === 'web';
-  
-  // Calculate number of columns based on platform and screen width
-  const numColumns = isWeb ? 5 : 2;
-  
-  // Empty placeholder data for grid layout
-  const placeholderData = Array(10).fill({}).map((_, index) => ({ id: index.toString() }));
-  
-  return (
-    <SafeAreaView style={styles.container}>
-      <View style={styles.header}>
-        <Text style={styles.headerTitle}>Liked Books</Text>
-      </View>
-      
-      {placeholderData.length === 0 ? (
+  const { user, isInitialized } = useAuth();
+  const { isLiked, isLoaded: areLikesLoaded, toggleLike } = useLikes();
+  const [books, setBooks] = useState<LikedBook[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const lastDocRef = useRef<QueryDocumentSnapshot<DocumentData> | null>(null);
+  const userId = user?.uid;
+
+  const numColumns = Platform.OS === 'web' ? 5 : 2;
+
+  // Start again from the most recent like whenever the tab is opened
+  useFocusEffect(
+    useCallback(() => {
+      if (!userId) {
+        setBooks([]);
+        setIsLoading(false);
+        return;
+      }
+      let cancelled = false;
+
+      getUserLikedBooks(userId, undefined, PAGE_SIZE)
+        .then(page => {
+          if (cancelled) return;
+          lastDocRef.current = page.lastDoc;
+          setBooks(page.books);
+          setHasMore(page.books.length === PAGE_SIZE);
+        })
+        .catch(error => {
+          console.error('Error loading liked books:', error);
+        })
+        .finally(() => {
+          if (!cancelled) {
+            setIsLoading(false);
+          }
+        });
+      return () => {
+        cancelled = true;
+      };
+    }, [userId])
+  );
+
+  const loadMore = async () => {
+    if (!userId || !hasMore || isLoadingMore || !lastDocRef.current) return;
+
+    setIsLoadingMore(true);
+    try {
+      const page = await getUserLikedBooks(userId, lastDocRef.current, PAGE_SIZE);
+      lastDocRef.current = page.lastDoc;
+      // A like made since the first page loaded can shift an item onto the next page
+      setBooks(prev => [...prev, ...page.books.filter(book => !prev.some(item => item.bookId === book.bookId))]);
+      setHasMore(page.books.length === PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading more liked books:', error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  // Unliked books drop out straight away, and come back if the unlike can't be saved.
+  // Until the likes are in, the list is shown as fetched.
+  const visibleBooks = areLikesLoaded ? books.filter(book => isLiked(book.bookId)) : books;
+
+  const renderContent = () => {
+    if (!isInitialized || isLoading) {
+      return (
+        <View style={styles.emptyContainer}>
+          <ActivityIndicator size="large" color={Colors.primary} />
+        </View>
+      );
+    }
+
+    if (!user) {
+      return (
+        <View style={styles.emptyContainer}>
+          <Ionicons name="heart-outline" size={80} color={Colors.textMuted} />
+          <Text style={styles.emptyText}>Sign in to like books</Text>
+          <Text style={styles.emptySubtext}>Your likes are kept with your account</Text>
+          <TouchableOpacity style={styles.signInButton} onPress={() => router.push('/profile')}>
+            <Text style={styles.signInButtonText}>Sign In</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    if (visibleBooks.length === 0) {
+      return (
         <View style={styles.emptyContainer}>
           <Ionicons name="heart-outline" size={80} color={Colors.textMuted} />
           <Text style={styles.emptyText}>No liked books yet</Text>
           <Text style={styles.emptySubtext}>Books you like will appear here</Text>
         </View>
-      ) : (
-        isWeb ? (
-          <View style={styles.webBooksGrid}>
-            {placeholderData.map((item, index) => (
-              <View key={index} style={[styles.webBookCard, { width: (width - 40) / numColumns - 10 }]}>
-                <BookCard book={item} index={index} />
-              </View>
-            ))}
+      );
+    }
+
+    return (
+      <FlatList
+        data={visibleBooks}
+        renderItem={({ item }) => (
+          <View style={[styles.cardWrapper, { maxWidth: `${100 / numColumns}%` }]}>
+            <LikedBookCard
+              book={item}
+              onPress={() => router.push({ pathname: '/book/[id]', params: { id: item.bookId } })}
+              onUnlike={() => toggleLike({ ...item, id: item.bookId })}
+            />
           </View>
-        ) : (
-          <FlatList
-            data={placeholderData}
-            renderItem={({ item, index }) => <BookCard book={item} index={index} />}
-            keyExtractor={(item, index) => index.toString()}
-            numColumns={numColumns}
-            contentContainerStyle={styles.booksList}
-          />
-        )
-      )}
+        )}
+        keyExtractor={(item) => item.bookId}
+        numColumns={numColumns}
+        contentContainerStyle={styles.booksList}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={
+          isLoadingMore ? <ActivityIndicator style={styles.footerLoader} color={Colors.primary} /> : null
+        }
+      />
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Liked Books</Text>
+      </View>
+
+      {renderContent()}
     </SafeAreaView>
   );
 }
@@ -110,9 +213,25 @@ const styles = StyleSheet.create({
     color: Colors.textMuted,
     marginTop: 10,
   },
+  signInButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: 8,
+    height: 44,
+    paddingHorizontal: 32,
+    justifyContent: 'center',
+    marginTop: 24,
+  },
+  signInButtonText: {
+    color: Colors.buttonText,
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
   booksList: {
     padding: 10,
   },
+  cardWrapper: {
+    flex: 1,
+  },
   bookCard: {
     backgroundColor: Colors.cardBackground,
     borderRadius: 8,
@@ -129,6 +248,11 @@ const styles = StyleSheet.create({
     borderRadius: 4,
     marginBottom: 8,
   },
+  placeholderCover: {
+    backgroundColor: Colors.inputBackground,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   bookTitle: {
     fontSize: 14,
     fontWeight: 'bold',
@@ -152,12 +276,7 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
-  webBooksGrid: {
-    flexDirection: 'row',
-    flexWrap: 'wrap',
-    padding: 10,
-  },
-  webBookCard: {
-    margin: 5,
+  footerLoader: {
+    marginVertical: 16,
   },
-});
\ No newline at end of file
+});
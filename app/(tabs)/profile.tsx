@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -6,86 +6,572 @@ import {
   TextInput,
   TouchableOpacity,
   ScrollView,
+  ActivityIndicator,
   Image,
+  Switch,
 } from 'react-native';
+import { router } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { Colors } from '@/constants/Colors';
+import { ReaderThemeLabels } from '@/constants/ReaderThemes';
+import { hasPasswordSignIn, isGoogleLinked, useAuth } from '@/src/context/AuthContext';
+import { usePlayback } from '@/src/context/PlaybackContext';
+import { useAccountStats } from '@/src/hooks/useAccountStats';
+import { useReaderSettings } from '@/src/hooks/useReaderSettings';
+import ReaderSettingsSheet from '@/src/components/ReaderSettingsSheet';
+import ChangePasswordSheet from '@/src/components/ChangePasswordSheet';
+import DeleteAccountSheet from '@/src/components/DeleteAccountSheet';
+import { formatMinutes } from '@/src/utils/readingTime';
+
+type FormMode = 'signIn' | 'signUp' | 'reset';
+
+interface FormErrors {
+  email?: string;
+  password?: string;
+  confirmPassword?: string;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Firebase rejects anything shorter
+const MIN_PASSWORD_LENGTH = 6;
+
+const FORM_TITLES: Record<FormMode, string> = {
+  signIn: 'Sign In to Your Account',
+  signUp: 'Create an Account',
+  reset: 'Reset Your Password',
+};
+
+const SUBMIT_LABELS: Record<FormMode, string> = {
+  signIn: 'Sign In',
+  signUp: 'Sign Up',
+  reset: 'Send Reset Link',
+};
+
+// Check the fields before anything is sent, so mistakes are pointed out next to the field
+const validateForm = (mode: FormMode, email: string, password: string, confirmPassword: string): FormErrors => {
+  const errors: FormErrors = {};
+
+  if (!email.trim()) {
+    errors.email = 'Enter your email address.';
+  } else if (!EMAIL_PATTERN.test(email.trim())) {
+    errors.email = 'That email address doesn’t look right.';
+  }
+  if (mode === 'reset') {
+    return errors;
+  }
+
+  if (!password) {
+    errors.password = 'Enter your password.';
+  } else if (mode === 'signUp' && password.length < MIN_PASSWORD_LENGTH) {
+    errors.password = `Use at least ${MIN_PASSWORD_LENGTH} characters.`;
+  }
+  if (mode === 'signUp' && password && confirmPassword !== password) {
+    errors.confirmPassword = 'The passwords don’t match.';
+  }
+  return errors;
+};
+
+type AccountAction = 'signOut' | 'resend' | 'reload' | 'linkGoogle' | 'unlinkGoogle' | 'saveName';
+
+type AccountSheet = 'readerSettings' | 'changePassword' | 'deleteAccount';
+
+// Up to two initials from the display name, or the first letter of the email
+const getInitials = (name: string | null, email: string | null): string => {
+  const words = (name ?? '').trim().split(/\s+/).filter(Boolean);
+  if (words.length > 0) {
+    return words.slice(0, 2).map(word => word[0]).join('').toUpperCase();
+  }
+  return (email ?? '?')[0].toUpperCase();
+};
+
+const AccountView = () => {
+  const {
+    user,
+    signOut,
+    sendVerificationEmail,
+    reloadUser,
+    linkGoogle,
+    unlinkGoogle,
+    updateDisplayName,
+  } = useAuth();
+  const { settings: playbackSettings, updateSettings: updatePlaybackSettings } = usePlayback();
+  const { settings: readerSettings, updateSettings: updateReaderSettings } = useReaderSettings();
+  const { stats, isLoading: isLoadingStats } = useAccountStats(user?.uid);
+  const [busyAction, setBusyAction] = useState<AccountAction | null>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [nameDraft, setNameDraft] = useState<string | null>(null);
+  const [openSheet, setOpenSheet] = useState<AccountSheet | null>(null);
+
+  const runAction = async (action: AccountAction, run: () => Promise<void>, successText?: string) => {
+    setBusyAction(action);
+    setMessage(null);
+    try {
+      await run();
+      if (successText) {
+        setMessage({ text: successText, isError: false });
+      }
+    } catch (error) {
+      setMessage({ text: (error as Error).message, isError: true });
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  const hasGoogle = isGoogleLinked(user);
+  // Google can only be disconnected while there's another way to sign in
+  const canUnlinkGoogle = hasGoogle && user.providerData.length > 1;
+  const isEditingName = nameDraft !== null;
+
+  const handleSaveName = () => runAction('saveName', async () => {
+    await updateDisplayName(nameDraft ?? '');
+    setNameDraft(null);
+  });
+
+  const statTiles = [
+    { label: 'Listened', value: stats.listeningMillis > 0 ? formatMinutes(stats.listeningMillis / 60000) : '0 min' },
+    { label: 'Episodes heard', value: stats.episodesListened },
+    { label: 'Episodes read', value: stats.episodesRead },
+    { label: 'Books started', value: stats.booksStarted },
+    { label: 'Books finished', value: stats.booksFinished },
+  ];
 
-export default function ProfileScreen() {
-  const [isSignUp, setIsSignUp] = useState(false);
-  const [email, setEmail] = useState('');
-  const [password, setPassword] = useState('');
-  
   return (
-    <SafeAreaView style={styles.container}>
-      <ScrollView contentContainerStyle={styles.scrollContent}>
-        <View style={styles.formContainer}>
-          <View style={styles.logoContainer}>
-            <Text style={styles.logoText}>
-              <Text style={styles.logoTextPrimary}>Tune</Text>
-              <Text style={styles.logoTextSecondary}>Talez</Text>
-            </Text>
-            <Text style={styles.formTitle}>
-              {isSignUp ? 'Create an Account' : 'Sign In to Your Account'}
+    <View style={styles.dashboard}>
+      <View style={styles.section}>
+        <View style={styles.logoContainer}>
+          {user.photoURL ? (
+            <Image source={{ uri: user.photoURL }} style={styles.avatar} />
+          ) : (
+            <View style={styles.avatar}>
+              <Text style={styles.avatarInitials}>{getInitials(user.displayName, user.email)}</Text>
+            </View>
+          )}
+
+          {isEditingName ? (
+            <View style={styles.nameEditor}>
+              <TextInput
+                style={[styles.input, styles.nameInput]}
+                placeholder="Your name"
+                placeholderTextColor={Colors.textMuted}
+                value={nameDraft}
+                onChangeText={setNameDraft}
+                autoComplete="name"
+                autoFocus
+                editable={busyAction !== 'saveName'}
+                onSubmitEditing={handleSaveName}
+              />
+              <TouchableOpacity style={styles.iconButton} onPress={handleSaveName} disabled={!!busyAction}>
+                {busyAction === 'saveName' ? (
+                  <ActivityIndicator size="small" color={Colors.primary} />
+                ) : (
+                  <Ionicons name="checkmark" size={22} color={Colors.primary} />
+                )}
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.iconButton} onPress={() => setNameDraft(null)} disabled={!!busyAction}>
+                <Ionicons name="close" size={22} color={Colors.textSecondary} />
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <TouchableOpacity style={styles.nameRow} onPress={() => setNameDraft(user.displayName ?? '')}>
+              <Text style={styles.formTitle}>{user.displayName || 'Add your name'}</Text>
+              <Ionicons name="pencil" size={16} color={Colors.textMuted} style={styles.nameEditIcon} />
+            </TouchableOpacity>
+          )}
+          <Text style={styles.accountEmail}>{user.email}</Text>
+        </View>
+
+        {!user.emailVerified && (
+          <View style={styles.verifyNotice}>
+            <View style={styles.verifyNoticeHeader}>
+              <Ionicons name="mail-unread-outline" size={20} color={Colors.primary} />
+              <Text style={styles.verifyNoticeTitle}>Verify your email</Text>
+            </View>
+            <Text style={styles.verifyNoticeText}>
+              We sent a link to {user.email}. Open it to confirm this address is yours.
             </Text>
+            <View style={styles.verifyActions}>
+              <TouchableOpacity
+                style={styles.linkButton}
+                disabled={!!busyAction}
+                onPress={() => runAction('resend', sendVerificationEmail, 'Verification email sent.')}
+              >
+                {busyAction === 'resend' ? (
+                  <ActivityIndicator size="small" color={Colors.primary} />
+                ) : (
+                  <Text style={styles.linkButtonText}>Resend email</Text>
+                )}
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.linkButton}
+                disabled={!!busyAction}
+                onPress={() => runAction('reload', reloadUser)}
+              >
+                {busyAction === 'reload' ? (
+                  <ActivityIndicator size="small" color={Colors.primary} />
+                ) : (
+                  <Text style={styles.linkButtonText}>I’ve verified it</Text>
+                )}
+              </TouchableOpacity>
+            </View>
           </View>
-          
-          <View style={styles.inputContainer}>
-            <Text style={styles.inputLabel}>Email Address</Text>
-            <TextInput
-              style={styles.input}
-              placeholder="your@email.com"
-              placeholderTextColor={Colors.textMuted}
-              value={email}
-              onChangeText={setEmail}
-              keyboardType="email-address"
-              autoCapitalize="none"
-            />
-          </View>
-          
-          <View style={styles.inputContainer}>
-            <Text style={styles.inputLabel}>Password</Text>
-            <TextInput
-              style={styles.input}
-              placeholder={isSignUp ? "Create a password" : "Enter your password"}
-              placeholderTextColor={Colors.textMuted}
-              value={password}
-              onChangeText={setPassword}
-              secureTextEntry
-            />
-          </View>
-          
-          <TouchableOpacity style={styles.primaryButton}>
-            <Text style={styles.primaryButtonText}>
-              {isSignUp ? 'Sign Up' : 'Sign In'}
-            </Text>
+        )}
+
+        {message && (
+          <Text style={message.isError ? styles.formError : styles.formNotice}>{message.text}</Text>
+        )}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Your library</Text>
+        <View style={styles.libraryRow}>
+          <TouchableOpacity style={styles.libraryTile} onPress={() => router.push('/liked')}>
+            <Ionicons name="heart" size={22} color={Colors.primary} />
+            <Text style={styles.statValue}>{isLoadingStats ? '–' : stats.liked}</Text>
+            <Text style={styles.statLabel}>Liked</Text>
           </TouchableOpacity>
-          
-          <View style={styles.divider}>
-            <View style={styles.dividerLine} />
-            <Text style={styles.dividerText}>Or continue with</Text>
-            <View style={styles.dividerLine} />
+          <TouchableOpacity style={styles.libraryTile} onPress={() => router.push('/saved')}>
+            <Ionicons name="bookmark" size={22} color={Colors.success} />
+            <Text style={styles.statValue}>{isLoadingStats ? '–' : stats.saved}</Text>
+            <Text style={styles.statLabel}>Saved</Text>
+          </TouchableOpacity>
+        </View>
+
+        <Text style={[styles.sectionTitle, styles.sectionTitleSpaced]}>Reading & listening</Text>
+        <View style={styles.statGrid}>
+          {statTiles.map(({ label, value }) => (
+            <View key={label} style={styles.statTile}>
+              <Text style={styles.statValue}>{isLoadingStats ? '–' : value}</Text>
+              <Text style={styles.statLabel}>{label}</Text>
+            </View>
+          ))}
+        </View>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Settings</Text>
+        <View style={styles.settingRow}>
+          <View style={styles.settingInfo}>
+            <Text style={styles.settingName}>Skip chapters without narration</Text>
+            <Text style={styles.settingDescription}>
+              When off, they’re read aloud by your device’s voice.
+            </Text>
           </View>
-          
-          <TouchableOpacity style={styles.googleButton}>
-            <Ionicons name="logo-google" size={20} color="#333" />
-            <Text style={styles.googleButtonText}>
-              Sign {isSignUp ? 'up' : 'in'} with Google
+          <Switch
+            value={playbackSettings.missingAudio === 'skip'}
+            onValueChange={(value) => updatePlaybackSettings({ missingAudio: value ? 'skip' : 'fallback' })}
+            trackColor={{ false: Colors.border, true: Colors.primary }}
+          />
+        </View>
+        <TouchableOpacity style={styles.settingRow} onPress={() => setOpenSheet('readerSettings')}>
+          <View style={styles.settingInfo}>
+            <Text style={styles.settingName}>Reading settings</Text>
+            <Text style={styles.settingDescription}>
+              {ReaderThemeLabels[readerSettings.theme]} theme · {readerSettings.readingMode === 'paginated' ? 'Pages' : 'Scroll'} · {readerSettings.fontSize} pt
             </Text>
-          </TouchableOpacity>
-          
-          <TouchableOpacity 
-            style={styles.switchButton}
-            onPress={() => setIsSignUp(!isSignUp)}
-          >
-            <Text style={styles.switchButtonText}>
-              {isSignUp 
-                ? 'Already have an account? Sign In' 
-                : 'Need an account? Sign Up'}
+          </View>
+          <Ionicons name="chevron-forward" size={20} color={Colors.textMuted} />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Linked accounts</Text>
+        <View style={styles.providerRow}>
+          <Ionicons name="logo-google" size={20} color={Colors.textPrimary} />
+          <View style={styles.providerInfo}>
+            <Text style={styles.providerName}>Google</Text>
+            <Text style={styles.providerStatus}>
+              {hasGoogle
+                ? canUnlinkGoogle ? 'Connected' : 'Connected · your only sign-in method'
+                : 'Not connected'}
             </Text>
-          </TouchableOpacity>
+          </View>
+          {(!hasGoogle || canUnlinkGoogle) && (
+            <TouchableOpacity
+              style={styles.linkButton}
+              disabled={!!busyAction}
+              onPress={() => hasGoogle
+                ? runAction('unlinkGoogle', unlinkGoogle, 'Google disconnected.')
+                : runAction('linkGoogle', linkGoogle)}
+            >
+              {busyAction === 'linkGoogle' || busyAction === 'unlinkGoogle' ? (
+                <ActivityIndicator size="small" color={Colors.primary} />
+              ) : (
+                <Text style={styles.linkButtonText}>{hasGoogle ? 'Unlink' : 'Link'}</Text>
+              )}
+            </TouchableOpacity>
+          )}
         </View>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Account</Text>
+        {hasPasswordSignIn(user) && (
+          <TouchableOpacity style={styles.settingRow} onPress={() => setOpenSheet('changePassword')}>
+            <Text style={styles.settingName}>Change password</Text>
+            <Ionicons name="chevron-forward" size={20} color={Colors.textMuted} />
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity style={styles.settingRow} onPress={() => setOpenSheet('deleteAccount')}>
+          <Text style={[styles.settingName, styles.dangerText]}>Delete account</Text>
+          <Ionicons name="chevron-forward" size={20} color={Colors.textMuted} />
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.primaryButton, !!busyAction && styles.buttonDisabled]}
+          disabled={!!busyAction}
+          onPress={() => runAction('signOut', signOut)}
+        >
+          {busyAction === 'signOut' ? (
+            <ActivityIndicator color={Colors.buttonText} />
+          ) : (
+            <Text style={styles.primaryButtonText}>Sign Out</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      <ReaderSettingsSheet
+        visible={openSheet === 'readerSettings'}
+        settings={readerSettings}
+        onChange={updateReaderSettings}
+        onClose={() => setOpenSheet(null)}
+      />
+      <ChangePasswordSheet
+        visible={openSheet === 'changePassword'}
+        onChanged={() => {
+          setOpenSheet(null);
+          setMessage({ text: 'Password updated.', isError: false });
+        }}
+        onClose={() => setOpenSheet(null)}
+      />
+      <DeleteAccountSheet visible={openSheet === 'deleteAccount'} onClose={() => setOpenSheet(null)} />
+    </View>
+  );
+};
+
+export default function ProfileScreen() {
+  const { user, isInitialized, signIn, signUp, sendPasswordReset, signInWithGoogle, pendingGoogleLinkEmail } = useAuth();
+  const [mode, setMode] = useState<FormMode>('signIn');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<FormErrors>({});
+  const [formError, setFormError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isGoogleSubmitting, setIsGoogleSubmitting] = useState(false);
+
+  const isSignUp = mode === 'signUp';
+  const isBusy = isSubmitting || isGoogleSubmitting;
+
+  // Google turned up an existing password account, so have them sign in to it to connect the two
+  useEffect(() => {
+    if (pendingGoogleLinkEmail) {
+      setMode('signIn');
+      setEmail(pendingGoogleLinkEmail);
+      setPassword('');
+      setConfirmPassword('');
+      setFieldErrors({});
+    }
+  }, [pendingGoogleLinkEmail]);
+
+  const switchMode = (nextMode: FormMode) => {
+    setMode(nextMode);
+    setPassword('');
+    setConfirmPassword('');
+    setFieldErrors({});
+    setFormError(null);
+    setNotice(null);
+  };
+
+  const handleSubmit = async () => {
+    const errors = validateForm(mode, email, password, confirmPassword);
+    setFieldErrors(errors);
+    setFormError(null);
+    setNotice(null);
+    if (Object.keys(errors).length > 0) return;
+
+    setIsSubmitting(true);
+    try {
+      if (mode === 'signIn') {
+        await signIn(email, password);
+      } else if (mode === 'signUp') {
+        await signUp(email, password);
+      } else {
+        await sendPasswordReset(email);
+        setNotice(`If an account uses ${email.trim()}, a link to reset its password is on its way.`);
+      }
+      setPassword('');
+      setConfirmPassword('');
+    } catch (error) {
+      setFormError((error as Error).message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleGoogleSignIn = async () => {
+    setFormError(null);
+    setNotice(null);
+    setIsGoogleSubmitting(true);
+    try {
+      await signInWithGoogle();
+    } catch (error) {
+      setFormError((error as Error).message);
+    } finally {
+      setIsGoogleSubmitting(false);
+    }
+  };
+
+  if (!isInitialized) {
+    return (
+      <SafeAreaView style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color={Colors.primary} />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+        {user ? (
+          <AccountView />
+        ) : (
+          <View style={styles.formContainer}>
+            <View style={styles.logoContainer}>
+              <Text style={styles.logoText}>
+                <Text style={styles.logoTextPrimary}>Tune</Text>
+                <Text style={styles.logoTextSecondary}>Talez</Text>
+              </Text>
+              <Text style={styles.formTitle}>{FORM_TITLES[mode]}</Text>
+              {mode === 'reset' && (
+                <Text style={styles.formSubtitle}>
+                  Enter the email address you signed up with and we’ll send you a link to choose a new password.
+                </Text>
+              )}
+            </View>
+            
+            <View style={styles.inputContainer}>
+              <Text style={styles.inputLabel}>Email Address</Text>
+              <TextInput
+                style={[styles.input, !!fieldErrors.email && styles.inputInvalid]}
+                placeholder="your@email.com"
+                placeholderTextColor={Colors.textMuted}
+                value={email}
+                onChangeText={setEmail}
+                keyboardType="email-address"
+                autoCapitalize="none"
+                autoComplete="email"
+                editable={!isBusy}
+              />
+              {!!fieldErrors.email && <Text style={styles.fieldError}>{fieldErrors.email}</Text>}
+            </View>
+            
+            {mode !== 'reset' && (
+              <View style={styles.inputContainer}>
+                <Text style={styles.inputLabel}>Password</Text>
+                <TextInput
+                  style={[styles.input, !!fieldErrors.password && styles.inputInvalid]}
+                  placeholder={isSignUp ? "Create a password" : "Enter your password"}
+                  placeholderTextColor={Colors.textMuted}
+                  value={password}
+                  onChangeText={setPassword}
+                  secureTextEntry
+                  autoComplete={isSignUp ? 'new-password' : 'current-password'}
+                  editable={!isBusy}
+                  onSubmitEditing={isSignUp ? undefined : handleSubmit}
+                />
+                {!!fieldErrors.password && <Text style={styles.fieldError}>{fieldErrors.password}</Text>}
+              </View>
+            )}
+            
+            {isSignUp && (
+              <View style={styles.inputContainer}>
+                <Text style={styles.inputLabel}>Confirm Password</Text>
+                <TextInput
+                  style={[styles.input, !!fieldErrors.confirmPassword && styles.inputInvalid]}
+                  placeholder="Enter the password again"
+                  placeholderTextColor={Colors.textMuted}
+                  value={confirmPassword}
+                  onChangeText={setConfirmPassword}
+                  secureTextEntry
+                  autoComplete="new-password"
+                  editable={!isBusy}
+                  onSubmitEditing={handleSubmit}
+                />
+                {!!fieldErrors.confirmPassword && (
+                  <Text style={styles.fieldError}>{fieldErrors.confirmPassword}</Text>
+                )}
+              </View>
+            )}
+            
+            {mode === 'signIn' && (
+              <TouchableOpacity style={styles.forgotButton} onPress={() => switchMode('reset')}>
+                <Text style={styles.linkButtonText}>Forgot password?</Text>
+              </TouchableOpacity>
+            )}
+            
+            {!!formError && <Text style={styles.formError}>{formError}</Text>}
+            {!!notice && <Text style={styles.formNotice}>{notice}</Text>}
+            
+            <TouchableOpacity
+              style={[styles.primaryButton, isBusy && styles.buttonDisabled]}
+              onPress={handleSubmit}
+              disabled={isBusy}
+            >
+              {isSubmitting ? (
+                <ActivityIndicator color={Colors.buttonText} />
+              ) : (
+                <Text style={styles.primaryButtonText}>{SUBMIT_LABELS[mode]}</Text>
+              )}
+            </TouchableOpacity>
+            
+            {mode !== 'reset' && (
+              <>
+                <View style={styles.divider}>
+                  <View style={styles.dividerLine} />
+                  <Text style={styles.dividerText}>Or continue with</Text>
+                  <View style={styles.dividerLine} />
+                </View>
+                
+                <TouchableOpacity
+                  style={[styles.googleButton, isBusy && styles.buttonDisabled]}
+                  onPress={handleGoogleSignIn}
+                  disabled={isBusy}
+                >
+                  {isGoogleSubmitting ? (
+                    <ActivityIndicator color="#333" />
+                  ) : (
+                    <>
+                      <Ionicons name="logo-google" size={20} color="#333" />
+                      <Text style={styles.googleButtonText}>
+                        Sign {isSignUp ? 'up' : 'in'} with Google
+                      </Text>
+                    </>
+                  )}
+                </TouchableOpacity>
+              </>
+            )}
+            
+            <TouchableOpacity 
+              style={styles.switchButton}
+              onPress={() => switchMode(isSignUp || mode === 'reset' ? 'signIn' : 'signUp')}
+            >
+              <Text style={styles.switchButtonText}>
+                {mode === 'reset'
+                  ? 'Back to Sign In'
+                  : isSignUp 
+                    ? 'Already have an account? Sign In' 
+                    : 'Need an account? Sign Up'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
       </ScrollView>
     </SafeAreaView>
   );
@@ -96,6 +582,10 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: Colors.background,
   },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   scrollContent: {
     flexGrow: 1,
     justifyContent: 'center',
@@ -129,6 +619,12 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: Colors.textPrimary,
   },
+  formSubtitle: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 8,
+  },
   inputContainer: {
     marginBottom: 16,
   },
@@ -148,6 +644,41 @@ const styles = StyleSheet.create({
     color: Colors.textPrimary,
     fontSize: 16,
   },
+  inputInvalid: {
+    borderColor: Colors.error,
+  },
+  fieldError: {
+    color: Colors.error,
+    fontSize: 13,
+    marginTop: 6,
+  },
+  formError: {
+    color: Colors.error,
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  formNotice: {
+    color: Colors.success,
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  forgotButton: {
+    alignSelf: 'flex-end',
+    marginTop: -4,
+    marginBottom: 12,
+  },
+  linkButton: {
+    paddingVertical: 6,
+    minWidth: 60,
+    alignItems: 'center',
+  },
+  linkButtonText: {
+    color: Colors.primary,
+    fontSize: 14,
+    fontWeight: '500',
+  },
   primaryButton: {
     backgroundColor: Colors.primary,
     borderRadius: 8,
@@ -161,6 +692,173 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: 'bold',
   },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  dashboard: {
+    width: '100%',
+    maxWidth: 560,
+    alignSelf: 'center',
+    gap: 16,
+  },
+  section: {
+    backgroundColor: Colors.cardBackground,
+    borderRadius: 12,
+    padding: 20,
+  },
+  avatar: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    backgroundColor: Colors.inputBackground,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  avatarInitials: {
+    color: Colors.textPrimary,
+    fontSize: 30,
+    fontWeight: 'bold',
+  },
+  nameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  nameEditIcon: {
+    marginLeft: 8,
+  },
+  nameEditor: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'stretch',
+  },
+  nameInput: {
+    flex: 1,
+    height: 44,
+  },
+  iconButton: {
+    padding: 8,
+    marginLeft: 4,
+    minWidth: 38,
+    alignItems: 'center',
+  },
+  accountEmail: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginTop: 4,
+  },
+  verifyNotice: {
+    backgroundColor: 'rgba(255,0,0,0.12)',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  verifyNoticeHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  verifyNoticeTitle: {
+    color: Colors.textPrimary,
+    fontSize: 15,
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
+  verifyNoticeText: {
+    color: Colors.textSecondary,
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  verifyActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 16,
+    marginTop: 8,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: Colors.textSecondary,
+    marginBottom: 12,
+  },
+  sectionTitleSpaced: {
+    marginTop: 20,
+  },
+  libraryRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  libraryTile: {
+    flex: 1,
+    backgroundColor: Colors.inputBackground,
+    borderRadius: 8,
+    padding: 12,
+    alignItems: 'center',
+  },
+  statGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  statTile: {
+    flexGrow: 1,
+    flexBasis: '28%',
+    backgroundColor: Colors.inputBackground,
+    borderRadius: 8,
+    padding: 12,
+    alignItems: 'center',
+  },
+  statValue: {
+    color: Colors.textPrimary,
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginTop: 4,
+  },
+  statLabel: {
+    color: Colors.textMuted,
+    fontSize: 12,
+    marginTop: 2,
+    textAlign: 'center',
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+  },
+  settingInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  settingName: {
+    fontSize: 16,
+    color: Colors.textPrimary,
+  },
+  settingDescription: {
+    fontSize: 13,
+    color: Colors.textMuted,
+    marginTop: 2,
+  },
+  dangerText: {
+    color: Colors.error,
+  },
+  providerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  providerInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  providerName: {
+    fontSize: 16,
+    color: Colors.textPrimary,
+  },
+  providerStatus: {
+    fontSize: 13,
+    color: Colors.textMuted,
+    marginTop: 2,
+  },
   divider: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useCallback, useMemo, useState } from 'react';
 import {
   View,
   Text,
@@ -6,73 +6,166 @@ import {
   FlatList,
   Image,
   TouchableOpacity,
-  useWindowDimensions,
-  Platform,
+  ScrollView,
 } from 'react-native';
+import { router, useFocusEffect } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
+import ReanimatedSwipeable from 'react-native-gesture-handler/ReanimatedSwipeable';
 import { Colors } from '@/constants/Colors';
+import { useAuth } from '@/src/context/AuthContext';
+import { useSavedBooks } from '@/src/context/SavedBooksContext';
+import { getReadingHistory } from '@/src/storage/readingProgress';
+import { SavedBook } from '@/src/types/book';
 
-const BookCard = ({ book, index }: { book: any, index: number }) => {
-  // Using a placeholder image for the book
-  const placeholderImage = 'https://via.placeholder.com/150x200/333333/FFFFFF?text=Saved+Book';
-  
-  return (
-    <TouchableOpacity style={styles.bookCard}>
-      <Image 
-        source={{ uri: placeholderImage }} 
-        style={styles.bookCover} 
-        resizeMode="cover"
-      />
-      <Text style={styles.bookTitle}>Saved Book Title</Text>
-      <Text style={styles.bookAuthor}>Author Name</Text>
-      <TouchableOpacity style={styles.saveButton}>
-        <Ionicons name="bookmark" size={18} color={Colors.success} />
+type SavedSort = 'recent' | 'title' | 'author' | 'progress';
+
+const SORT_OPTIONS: { value: SavedSort; label: string }[] = [
+  { value: 'recent', label: 'Recently saved' },
+  { value: 'title', label: 'Title' },
+  { value: 'author', label: 'Author' },
+  { value: 'progress', label: 'Progress' },
+];
+
+interface SavedBookRowProps {
+  book: SavedBook;
+  // How much has been read, from 0 to 100, if the book has been opened
+  progressPercent?: number;
+  onPress: () => void;
+  onRemove: () => void;
+}
+
+const SavedBookRow: React.FC<SavedBookRowProps> = ({ book, progressPercent, onPress, onRemove }) => (
+  <ReanimatedSwipeable
+    friction={2}
+    rightThreshold={60}
+    overshootRight={false}
+    // Swiping only uncovers Remove, so a book can't be removed twice by one gesture
+    renderRightActions={() => (
+      <TouchableOpacity style={styles.removeAction} onPress={onRemove}>
+        <Ionicons name="trash-outline" size={22} color={Colors.buttonText} />
+        <Text style={styles.removeActionText}>Remove</Text>
       </TouchableOpacity>
+    )}
+  >
+    <TouchableOpacity style={styles.bookRow} onPress={onPress} activeOpacity={0.8}>
+      {book.thumbnailUrl ? (
+        <Image source={{ uri: book.thumbnailUrl }} style={styles.bookCover} resizeMode="cover" />
+      ) : (
+        <View style={[styles.bookCover, styles.placeholderCover]}>
+          <Ionicons name="book" size={24} color={Colors.textMuted} />
+        </View>
+      )}
+      <View style={styles.bookInfo}>
+        <Text style={styles.bookTitle} numberOfLines={2}>{book.title}</Text>
+        <Text style={styles.bookAuthor} numberOfLines={1}>{book.author}</Text>
+        {progressPercent !== undefined ? (
+          <View style={styles.progressRow}>
+            <View style={styles.progressBackground}>
+              <View style={[styles.progressFill, { width: `${progressPercent}%` }]} />
+            </View>
+            <Text style={styles.progressText}>{progressPercent}%</Text>
+          </View>
+        ) : (
+          <Text style={styles.metaText}>Saved {new Date(book.savedAt).toLocaleDateString()}</Text>
+        )}
+      </View>
+      <Ionicons name="bookmark" size={20} color={Colors.success} />
     </TouchableOpacity>
-  );
-};
+  </ReanimatedSwipeable>
+);
 
 export default function SavedScreen() {
-  const { width } = useWindowDimensions();
-  const isWeb = Platform.OS === 'web';
-  
-  // Calculate number of columns based on platform and screen width
-  const numColumns = isWeb ? 5 : 2;
-  
-  // Empty placeholder data for grid layout
-  const placeholderData = Array(8).fill({}).map((_, index) => ({ id: index.toString() }));
-  
+  const { user } = useAuth();
+  const { savedBooks, removeSaved } = useSavedBooks();
+  const [sort, setSort] = useState<SavedSort>('recent');
+  const [progressByBook, setProgressByBook] = useState<Record<string, number>>({});
+
+  // Reading progress changes in the reader, so pick it up again each time the tab is opened
+  useFocusEffect(
+    useCallback(() => {
+      let cancelled = false;
+
+      getReadingHistory().then(history => {
+        if (cancelled) return;
+        const percents: Record<string, number> = {};
+        for (const progress of history) {
+          percents[progress.bookId] = progress.percent;
+        }
+        setProgressByBook(percents);
+      });
+      return () => {
+        cancelled = true;
+      };
+    }, [])
+  );
+
+  const sortedBooks = useMemo(() => {
+    const books = [...savedBooks];
+    switch (sort) {
+      case 'title':
+        return books.sort((a, b) => a.title.localeCompare(b.title));
+      case 'author':
+        return books.sort((a, b) => a.author.localeCompare(b.author) || a.title.localeCompare(b.title));
+      case 'progress':
+        // Furthest along first, with unopened books last
+        return books.sort((a, b) => (progressByBook[b.bookId] ?? -1) - (progressByBook[a.bookId] ?? -1));
+      default:
+        return books;
+    }
+  }, [savedBooks, sort, progressByBook]);
+
   return (
     <SafeAreaView style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.headerTitle}>Saved Books</Text>
+        {!user && savedBooks.length > 0 && (
+          <Text style={styles.headerSubtitle}>Sign in to keep your saved books on all your devices</Text>
+        )}
       </View>
-      
-      {placeholderData.length === 0 ? (
+
+      {savedBooks.length === 0 ? (
         <View style={styles.emptyContainer}>
           <Ionicons name="bookmark-outline" size={80} color={Colors.textMuted} />
           <Text style={styles.emptyText}>No saved books yet</Text>
-          <Text style={styles.emptySubtext}>Books you save will appear here</Text>
+          <Text style={styles.emptySubtext}>Tap the bookmark on a book to save it for later</Text>
         </View>
       ) : (
-        isWeb ? (
-          <View style={styles.webBooksGrid}>
-            {placeholderData.map((item, index) => (
-              <View key={index} style={[styles.webBookCard, { width: (width - 40) / numColumns - 10 }]}>
-                <BookCard book={item} index={index} />
-              </View>
-            ))}
-          </View>
-        ) : (
-          <FlatList
-            data={placeholderData}
-            renderItem={({ item, index }) => <BookCard book={item} index={index} />}
-            keyExtractor={(item, index) => index.toString()}
-            numColumns={numColumns}
-            contentContainerStyle={styles.booksList}
-          />
-        )
+        <FlatList
+          data={sortedBooks}
+          keyExtractor={(item) => item.bookId}
+          renderItem={({ item }) => (
+            <SavedBookRow
+              book={item}
+              progressPercent={progressByBook[item.bookId]}
+              onPress={() => router.push({ pathname: '/book/[id]', params: { id: item.bookId } })}
+              onRemove={() => removeSaved(item.bookId)}
+            />
+          )}
+          ListHeaderComponent={
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              contentContainerStyle={styles.sortBar}
+            >
+              {SORT_OPTIONS.map(option => {
+                const isSelected = option.value === sort;
+                return (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[styles.sortOption, isSelected && styles.sortOptionSelected]}
+                    onPress={() => setSort(option.value)}
+                  >
+                    <Text style={[styles.sortOptionText, isSelected && styles.sortOptionTextSelected]}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          }
+          contentContainerStyle={styles.booksList}
+        />
       )}
     </SafeAreaView>
   );
@@ -93,6 +186,11 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: Colors.primary,
   },
+  headerSubtitle: {
+    fontSize: 13,
+    color: Colors.textMuted,
+    marginTop: 4,
+  },
   emptyContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -109,55 +207,104 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: Colors.textMuted,
     marginTop: 10,
+    textAlign: 'center',
   },
   booksList: {
-    padding: 10,
+    paddingBottom: 20,
   },
-  bookCard: {
-    backgroundColor: Colors.cardBackground,
-    borderRadius: 8,
-    overflow: 'hidden',
-    margin: 5,
-    flex: 1,
-    padding: 10,
+  sortBar: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    gap: 8,
+  },
+  sortOption: {
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+  },
+  sortOptionSelected: {
+    borderColor: Colors.primary,
+    backgroundColor: 'rgba(255,0,0,0.12)',
+  },
+  sortOptionText: {
+    color: Colors.textSecondary,
+    fontSize: 14,
+  },
+  sortOptionTextSelected: {
+    color: Colors.primary,
+    fontWeight: 'bold',
+  },
+  bookRow: {
+    flexDirection: 'row',
     alignItems: 'center',
-    position: 'relative',
+    backgroundColor: Colors.background,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
   },
   bookCover: {
-    width: '100%',
-    aspectRatio: 2/3,
+    width: 56,
+    height: 84,
     borderRadius: 4,
-    marginBottom: 8,
+  },
+  placeholderCover: {
+    backgroundColor: Colors.cardBackground,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  bookInfo: {
+    flex: 1,
+    marginHorizontal: 14,
   },
   bookTitle: {
-    fontSize: 14,
+    fontSize: 16,
     fontWeight: 'bold',
     color: Colors.textPrimary,
-    textAlign: 'center',
     marginBottom: 4,
   },
   bookAuthor: {
-    fontSize: 12,
+    fontSize: 14,
     color: Colors.textSecondary,
-    textAlign: 'center',
   },
-  saveButton: {
-    position: 'absolute',
-    top: 15,
-    right: 15,
-    backgroundColor: Colors.overlay,
-    borderRadius: 15,
-    width: 30,
-    height: 30,
-    justifyContent: 'center',
-    alignItems: 'center',
+  metaText: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginTop: 6,
   },
-  webBooksGrid: {
+  progressRow: {
     flexDirection: 'row',
-    flexWrap: 'wrap',
-    padding: 10,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  progressBackground: {
+    flex: 1,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: Colors.inputBackground,
+    overflow: 'hidden',
   },
-  webBookCard: {
-    margin: 5,
+  progressFill: {
+    height: '100%',
+    backgroundColor: Colors.primary,
+  },
+  progressText: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginLeft: 8,
+    minWidth: 32,
+    textAlign: 'right',
+  },
+  removeAction: {
+    width: 96,
+    backgroundColor: Colors.error,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  removeActionText: {
+    color: Colors.buttonText,
+    fontSize: 13,
+    fontWeight: 'bold',
+    marginTop: 4,
   },
-});
\ No newline at end of file
+});
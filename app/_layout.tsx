@@ -1,9 +1,17 @@
+import { AtkinsonHyperlegible_400Regular, useFonts } from '@expo-google-fonts/atkinson-hyperlegible';
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import 'react-native-reanimated';
 
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { AuthProvider } from '@/src/context/AuthContext';
+import { DownloadsProvider } from '@/src/context/DownloadsContext';
+import { LikesProvider } from '@/src/context/LikesContext';
+import { PlaybackProvider } from '@/src/context/PlaybackContext';
+import { SavedBooksProvider } from '@/src/context/SavedBooksContext';
+import { SleepTimerProvider } from '@/src/context/SleepTimerContext';
 
 export const unstable_settings = {
   anchor: '(tabs)',
@@ -11,15 +19,36 @@ export const unstable_settings = {
 
 export default function RootLayout() {
   const colorScheme = useColorScheme();
+  // The reader's Hyperlegible font is bundled with the app; a failed load falls back to the system font
+  const [fontsLoaded, fontError] = useFonts({ AtkinsonHyperlegible_400Regular });
+
+  if (!fontsLoaded && !fontError) {
+    return null;
+  }
 
   return (
-    <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-      <Stack screenOptions={{ headerShown: false }}>
-        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-        <Stack.Screen name="book" options={{ headerShown: false }} />
-        <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
-      </Stack>
-      <StatusBar style="auto" />
-    </ThemeProvider>
+    <GestureHandlerRootView style={{ flex: 1 }}>
+      <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
+        <AuthProvider>
+          <LikesProvider>
+            <SavedBooksProvider>
+              <DownloadsProvider>
+                <PlaybackProvider>
+                  <SleepTimerProvider>
+                    <Stack screenOptions={{ headerShown: false }}>
+                      <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+                      <Stack.Screen name="book" options={{ headerShown: false }} />
+                      <Stack.Screen name="queue" options={{ presentation: 'modal', headerShown: false }} />
+                      <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
+                    </Stack>
+                    <StatusBar style="auto" />
+                  </SleepTimerProvider>
+                </PlaybackProvider>
+              </DownloadsProvider>
+            </SavedBooksProvider>
+          </LikesProvider>
+        </AuthProvider>
+      </ThemeProvider>
+    </GestureHandlerRootView>
   );
 }
@@ -0,0 +1,2 @@
+// A chapter link opens the book screen on that chapter; it reads chapterId, t and p from the route
+export { default } from '../index';
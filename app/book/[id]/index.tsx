@@ -0,0 +1,1272 @@
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Image,
+  ScrollView,
+  ActivityIndicator,
+  TouchableOpacity,
+  useWindowDimensions,
+  Platform,
+  FlatList,
+  NativeSyntheticEvent,
+  NativeScrollEvent,
+} from 'react-native';
+import { useLocalSearchParams, router } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import { ReaderThemes } from '@/constants/ReaderThemes';
+import { HighlightColor } from '@/src/types/reader';
+import AudioPlayer from '@/src/components/AudioPlayer';
+import ReadAlongView from '@/src/components/ReadAlongView';
+import ChapterHtml from '@/src/components/ChapterHtml';
+import ReaderSettingsSheet from '@/src/components/ReaderSettingsSheet';
+import PaginatedReader from '@/src/components/PaginatedReader';
+import HighlightSelector, { TextSelection } from '@/src/components/HighlightSelector';
+import HighlightSheet from '@/src/components/HighlightSheet';
+import ReaderGestures, { ReaderEdge } from '@/src/components/ReaderGestures';
+import ChapterTransitionCard from '@/src/components/ChapterTransitionCard';
+import { processAudioUrl, processThumbnailUrl } from '@/src/r2/services';
+import { bookToTrack, chapterToTrack, chaptersToQueue } from '@/src/utils/tracks';
+import { usePlayback } from '@/src/context/PlaybackContext';
+import { useDownloads } from '@/src/context/DownloadsContext';
+import { useLikes } from '@/src/context/LikesContext';
+import { useSavedBooks } from '@/src/context/SavedBooksContext';
+import { useReaderSettings } from '@/src/hooks/useReaderSettings';
+import { useReadingProgress } from '@/src/hooks/useReadingProgress';
+import { useBook } from '@/src/hooks/useBook';
+import { useHighlights } from '@/src/hooks/useHighlights';
+import { useChapterContent } from '@/src/hooks/useChapterContent';
+import { useAudioDurations } from '@/src/hooks/useAudioDurations';
+import { formatHtmlContent } from '@/src/utils/html';
+import { resolveHighlights } from '@/src/utils/highlights';
+import { findMatches } from '@/src/utils/search';
+import { getBookLink, getChapterLink, getParagraphOffset, shareLink } from '@/src/utils/links';
+import { ContentLength, formatContentLength, getBookLength, getChapterLength } from '@/src/utils/readingTime';
+
+// Jumps to a passage leave a little of the text above it in view
+const PASSAGE_TOP_MARGIN = 48;
+
+export default function BookDetailScreen() {
+  // offset reopens a chapter where the reader left it, as a fraction of the way through;
+  // query marks a term searched for in the book. Chapter links (/book/[id]/chapter/[chapterId])
+  // can add t, an audio position in seconds, and p, a paragraph number.
+  const { id, chapterId, offset, query, t, p } = useLocalSearchParams<{
+    id: string,
+    chapterId?: string,
+    offset?: string,
+    query?: string,
+    t?: string,
+    p?: string,
+  }>();
+  const { book, loading, error } = useBook(id);
+  const [isAudioPlaying, setIsAudioPlaying] = useState(false);
+  const [selectedChapterIndex, setSelectedChapterIndex] = useState(0);
+  const [isReadAlong, setIsReadAlong] = useState(false);
+  const [isReaderSettingsVisible, setIsReaderSettingsVisible] = useState(false);
+  const { settings: readerSettings, updateSettings: updateReaderSettings } = useReaderSettings();
+  // Chapter to open on its last page, after paging back from the one that follows it
+  const [lastPageChapterId, setLastPageChapterId] = useState<string | null>(null);
+  const { width, height } = useWindowDimensions();
+  const { progress: readingProgress, isLoaded: isReadingProgressLoaded, updatePosition } = useReadingProgress(book);
+  const { highlights, addHighlight } = useHighlights(book?.id);
+  const [isHighlighting, setIsHighlighting] = useState(false);
+  // Passage picked for a new highlight, while its color and note are chosen
+  const [pendingSelection, setPendingSelection] = useState<TextSelection | null>(null);
+  // Everything but the text is hidden, toggled by double-tapping it
+  const [isImmersive, setIsImmersive] = useState(false);
+  const listRef = useRef<FlatList>(null);
+  const listHeightRef = useRef(0);
+  const scrollOffsetRef = useRef(0);
+  // Where the chapter card starts in the list, to return to when the chapter changes
+  const contentTopRef = useRef(0);
+  const mainContentRef = useRef<View>(null);
+  const chapterTextRef = useRef<View>(null);
+  // Where the chapter's text starts in the list and how tall it is; offsets into a chapter are fractions of the text alone
+  const textTopRef = useRef(0);
+  const textHeightRef = useRef(0);
+  // Whether the chapter is shown as scrolling text, which is all a pending offset can be applied to
+  const isScrollingTextRef = useRef(false);
+  // Scroll position still to restore; re-applied as the content grows until the reader scrolls
+  const pendingOffsetRef = useRef<number | null>(offset ? Number(offset) : null);
+  const isWeb = Platform.OS === 'web';
+  // Screen width less the sidebar (on web) and the padding around the content card
+  const contentWidth = (isWeb && !isImmersive ? width - 320 : width) - 64;
+  const pageHeight = Math.max(Math.round(height * (isImmersive ? 0.85 : 0.65)), 320);
+  const { currentTrack, position, needsFallback, hasNext, skipNext, playQueue, playTrack, seekTo } = usePlayback();
+  // The playing chapter last shown and the requested chapter last opened, so each is applied once
+  const syncedChapterIdRef = useRef<string | null>(null);
+  const requestedChapterRef = useRef<string | null>(null);
+  // The linked audio position last started, so reloading the book doesn't start it again
+  const startedLinkedAudioRef = useRef<string | null>(null);
+  const { isSupported: canDownload, downloads, downloadChapters } = useDownloads();
+  const { isLiked, toggleLike } = useLikes();
+  const { isSaved, toggleSave } = useSavedBooks();
+  
+  // Force hide any global headers
+  React.useEffect(() => {
+    // This ensures we're using the screen in fullscreen mode without any global headers
+    return () => {
+      // Cleanup if needed when component unmounts
+    };
+  }, []);
+  
+  // Keep the selected episode in step with the queue as it auto-advances. Only a change of
+  // playing chapter moves it, so opening another chapter of the playing book stays put.
+  const playingChapterId = book && currentTrack?.bookId === book.id ? currentTrack.chapterId : undefined;
+  useEffect(() => {
+    if (!book || !playingChapterId || syncedChapterIdRef.current === playingChapterId) return;
+    syncedChapterIdRef.current = playingChapterId;
+
+    const playingIndex = book.chapters?.findIndex(chapter => chapter.id === playingChapterId) ?? -1;
+    if (playingIndex >= 0) {
+      setSelectedChapterIndex(playingIndex);
+    }
+  }, [book, playingChapterId]);
+
+  // Open on a specific chapter when one was requested (e.g. from the mini-player or a search
+  // hit), once per request rather than every time the book is replaced by a fresher copy
+  useEffect(() => {
+    if (!book || !chapterId || requestedChapterRef.current === `${book.id}:${chapterId}`) return;
+    
+    const requestedIndex = book.chapters?.findIndex(chapter => chapter.id === chapterId) ?? -1;
+    if (requestedIndex >= 0) {
+      requestedChapterRef.current = `${book.id}:${chapterId}`;
+      setSelectedChapterIndex(requestedIndex);
+    }
+  }, [book, chapterId]);
+  
+  const toggleAudio = () => {
+    setIsAudioPlaying(!isAudioPlaying);
+  };
+
+  // Long books list only chapter metadata, so the selected chapter's text is fetched on demand
+  const {
+    chapter: selectedChapter,
+    isLoading: isChapterLoading,
+    error: chapterError,
+    retry: retryChapter,
+  } = useChapterContent(book, selectedChapterIndex);
+  const nextChapter = book?.chapters?.[selectedChapterIndex + 1];
+  const selectedChapterText = useMemo(
+    () => (selectedChapter?.content ? formatHtmlContent(selectedChapter.content) : ''),
+    [selectedChapter]
+  );
+  // Where the requested chapter should open, as a fraction of the way through, if anywhere
+  const requestedOffset = useMemo(() => {
+    if (offset) return Number(offset);
+    if (p && selectedChapter?.id === chapterId) return getParagraphOffset(selectedChapterText, Number(p));
+    return null;
+  }, [offset, p, chapterId, selectedChapter?.id, selectedChapterText]);
+  const chapterHighlights = useMemo(
+    () => (selectedChapter ? resolveHighlights(selectedChapterText, highlights, selectedChapter.id) : []),
+    [selectedChapterText, highlights, selectedChapter]
+  );
+  const searchMatches = useMemo(
+    () => (query ? findMatches(selectedChapterText, query) : []),
+    [selectedChapterText, query]
+  );
+  const chapterTrack = useMemo(
+    () => (book && selectedChapter ? chapterToTrack(book, selectedChapter) : null),
+    [book, selectedChapter]
+  );
+  const selectedTrack = useMemo(
+    () => chapterTrack || (book ? bookToTrack(book) : null),
+    [book, chapterTrack]
+  );
+  const chapterQueue = useMemo(
+    () => (book?.chapters?.length ? chaptersToQueue(book, book.chapters) : undefined),
+    [book]
+  );
+  // Recordings without a stored length are measured on this device
+  const unmeasuredAudioUrls = useMemo(() => {
+    if (!book) return [];
+    return [book, ...(book.chapters ?? [])]
+      .filter(item => !item.duration)
+      .map(item => processAudioUrl(item.audioUrl))
+      .filter((url): url is string => !!url);
+  }, [book]);
+  const audioDurations = useAudioDurations(unmeasuredAudioUrls);
+  const bookLength = useMemo(() => (book ? getBookLength(book, audioDurations) : null), [book, audioDurations]);
+  const chapterLengths = useMemo(() => {
+    const lengths: Record<string, ContentLength | null> = {};
+    (book?.chapters ?? []).forEach(chapter => {
+      lengths[chapter.id] = getChapterLength(chapter, audioDurations);
+    });
+    return lengths;
+  }, [book, audioDurations]);
+  const bookDownloads = useMemo(
+    () => downloads.filter(item => item.bookId === book?.id),
+    [downloads, book?.id]
+  );
+  const isBookDownloaded = !!book?.chapters?.length && book.chapters.every(chapter =>
+    bookDownloads.some(item => item.chapterId === chapter.id && item.status === 'completed')
+  );
+  const isBookDownloading = bookDownloads.some(item => item.status === 'queued' || item.status === 'downloading');
+  
+  const isPaginated = readerSettings.readingMode === 'paginated';
+  
+  const isScrollingText = !isPaginated && !!selectedChapter?.content;
+  useEffect(() => {
+    isScrollingTextRef.current = isScrollingText;
+  }, [isScrollingText]);
+  
+  const scrollToPendingOffset = useCallback(() => {
+    const pendingOffset = pendingOffsetRef.current;
+    if (pendingOffset === null || !isScrollingTextRef.current || textHeightRef.current <= 0) return;
+    
+    listRef.current?.scrollToOffset({
+      offset: Math.max(textTopRef.current + pendingOffset * textHeightRef.current - PASSAGE_TOP_MARGIN, 0),
+      animated: false,
+    });
+  }, []);
+  
+  // The text moves whenever something above it changes size (the player, a search notice), so it's measured again each time
+  const measureChapterText = useCallback(() => {
+    if (!mainContentRef.current || !chapterTextRef.current) return;
+    
+    chapterTextRef.current.measureLayout(mainContentRef.current, (_x, y, _width, textHeight) => {
+      textTopRef.current = contentTopRef.current + y;
+      textHeightRef.current = textHeight;
+      scrollToPendingOffset();
+    });
+  }, [scrollToPendingOffset]);
+  
+  // A new offset means the reader jumped here again (e.g. to another highlight), so scroll to it
+  useEffect(() => {
+    pendingOffsetRef.current = requestedOffset;
+    scrollToPendingOffset();
+  }, [chapterId, requestedOffset, scrollToPendingOffset]);
+  
+  // A link with ?t= starts the chapter's audio at that point
+  useEffect(() => {
+    if (!t || !chapterTrack || selectedChapter?.id !== chapterId) return;
+    
+    const linkKey = `${chapterTrack.id}@${t}`;
+    if (startedLinkedAudioRef.current === linkKey) return;
+    startedLinkedAudioRef.current = linkKey;
+    
+    const startLinkedAudio = async () => {
+      const queueIndex = chapterQueue ? chapterQueue.findIndex(track => track.id === chapterTrack.id) : -1;
+      if (chapterQueue && queueIndex >= 0) {
+        await playQueue(chapterQueue, queueIndex);
+      } else {
+        await playTrack(chapterTrack);
+      }
+      await seekTo(Number(t) * 1000);
+      setIsAudioPlaying(true);
+    };
+    startLinkedAudio();
+  }, [t, chapterId, chapterTrack, chapterQueue, selectedChapter?.id, playQueue, playTrack, seekTo]);
+  
+  const handleScroll = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const { contentOffset, contentSize, layoutMeasurement } = event.nativeEvent;
+    scrollOffsetRef.current = contentOffset.y;
+    if (!selectedChapter || isPaginated || isReadAlong) return;
+    
+    if (textHeightRef.current <= 0) return;
+    
+    // The list can stop short of the end of the text, so reaching its bottom finishes the chapter
+    const maxOffset = contentSize.height - layoutMeasurement.height;
+    const chapterProgress = contentOffset.y >= maxOffset - 1
+      ? 1
+      : (contentOffset.y - textTopRef.current) / textHeightRef.current;
+    updatePosition(selectedChapter.id, Math.min(Math.max(chapterProgress, 0), 1));
+  };
+  
+  // Tapping the right or left edge of scrolling text moves a screen forward or back
+  const handleEdgeTap = (edge: ReaderEdge) => {
+    const distance = Math.max(listHeightRef.current - 80, 100);
+    pendingOffsetRef.current = null;
+    listRef.current?.scrollToOffset({
+      offset: Math.max(scrollOffsetRef.current + (edge === 'right' ? distance : -distance), 0),
+      animated: true,
+    });
+  };
+  
+  const goToChapter = (index: number) => {
+    if (!book?.chapters?.[index]) return;
+    setLastPageChapterId(null);
+    setSelectedChapterIndex(index);
+    listRef.current?.scrollToOffset({ offset: Math.min(scrollOffsetRef.current, contentTopRef.current), animated: false });
+  };
+  
+  // Carry on with the next chapter by ear, from the start of the book's queue there
+  const handleListenNext = async () => {
+    if (!nextChapter) return;
+    
+    goToChapter(selectedChapterIndex + 1);
+    const queueIndex = chapterQueue ? chapterQueue.findIndex(track => track.chapterId === nextChapter.id) : -1;
+    if (chapterQueue && queueIndex >= 0) {
+      await playQueue(chapterQueue, queueIndex);
+    }
+    setIsAudioPlaying(true);
+  };
+  
+  const handleSaveHighlight = (color: HighlightColor, note: string) => {
+    if (!selectedChapter || !pendingSelection) return;
+    
+    addHighlight({ chapterId: selectedChapter.id, ...pendingSelection, color, note });
+    setPendingSelection(null);
+    setIsHighlighting(false);
+  };
+  
+  const handleLikePress = () => {
+    if (book && !toggleLike(book)) {
+      router.push('/profile');
+    }
+  };
+
+  // Share the open chapter, at the current audio position when it is playing
+  const handleSharePress = () => {
+    if (!book) return;
+    
+    if (selectedChapter) {
+      const audioSeconds = currentTrack?.id === chapterTrack?.id ? position / 1000 : undefined;
+      shareLink(
+        `${selectedChapter.title || `Episode ${selectedChapterIndex + 1}`} · ${book.title}`,
+        getChapterLink(book.id, selectedChapter.id, { t: audioSeconds })
+      );
+    } else {
+      shareLink(book.title, getBookLink(book.id));
+    }
+  };
+  
+  const handleDownloadPress = () => {
+    if (!book) return;
+    if (isBookDownloaded || isBookDownloading) {
+      router.push('/(tabs)/downloads');
+    } else if (book.chapters?.length) {
+      downloadChapters(book, book.chapters);
+    }
+  };
+  
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={Colors.primary} />
+        <Text style={styles.loadingText}>Loading book details...</Text>
+      </SafeAreaView>
+    );
+  }
+  
+  if (error || !book) {
+    return (
+      <SafeAreaView style={styles.errorContainer}>
+        <Text style={styles.errorText}>{error || 'Something went wrong'}</Text>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Text style={styles.backButtonText}>Go Back</Text>
+        </TouchableOpacity>
+      </SafeAreaView>
+    );
+  }
+  
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar hidden={isImmersive} />
+
+      {/* Header with back arrow and book title */}
+      {!isImmersive && (
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <Ionicons name="arrow-back" size={24} color={Colors.textPrimary} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle} numberOfLines={1}>
+            {book.title}
+          </Text>
+          <View style={styles.headerActions}>
+            <TouchableOpacity
+              style={styles.headerAction}
+              onPress={() => router.push({ pathname: '/book/search/[id]', params: { id: book.id } })}
+            >
+              <Ionicons name="search" size={24} color={Colors.textPrimary} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.headerAction}
+              onPress={() => router.push({ pathname: '/book/notes/[id]', params: { id: book.id } })}
+            >
+              <Ionicons name="document-text-outline" size={24} color={Colors.textPrimary} />
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+      
+      <FlatList
+        ref={listRef}
+        data={[{ key: 'content' }]}
+        renderItem={() => null}
+        contentContainerStyle={styles.scrollContent}
+        onLayout={(event) => {
+          listHeightRef.current = event.nativeEvent.layout.height;
+        }}
+        onScroll={handleScroll}
+        scrollEventThrottle={250}
+        onContentSizeChange={measureChapterText}
+        onScrollBeginDrag={() => {
+          pendingOffsetRef.current = null;
+        }}
+        ListHeaderComponent={
+          <View style={[
+            styles.contentContainer,
+            isWeb && { flexDirection: 'row' }
+          ]}>
+            {/* Sidebar with book info and chapters list */}
+            {!isImmersive && (
+              <View style={[
+                styles.sidebar,
+                isWeb ? { width: 300, marginRight: 20 } : { marginBottom: 20 }
+              ]}>
+                <View style={styles.bookInfoCard}>
+                  <Image
+                    source={{ uri: processThumbnailUrl(book.thumbnailUrl) }}
+                    style={styles.bookCover}
+                    resizeMode="cover"
+                  />
+                
+                  <View style={styles.bookInfo}>
+                    <Text style={styles.bookTitle}>{book.title}</Text>
+                    <Text style={styles.bookAuthor}>By {book.author}</Text>
+                    {!!bookLength && (
+                      <Text style={styles.bookLength}>{formatContentLength(bookLength)}</Text>
+                    )}
+                  
+                    {book.category && (
+                      <View style={styles.categoryTag}>
+                        <Text style={styles.categoryText}>{book.category}</Text>
+                      </View>
+                    )}
+                  
+                    {book.tags && book.tags.length > 0 && (
+                      <View style={styles.tagsContainer}>
+                        {book.tags.map((tag, index) => (
+                          <View key={index} style={styles.tag}>
+                            <Text style={styles.tagText}>{tag}</Text>
+                          </View>
+                        ))}
+                      </View>
+                    )}
+                  
+                    {/* Quick Audio Play Button */}
+                    {selectedTrack && (
+                      <TouchableOpacity 
+                        style={styles.audioButton}
+                        onPress={toggleAudio}
+                      >
+                        <Ionicons 
+                          name={isAudioPlaying ? "pause-circle" : "play-circle"} 
+                          size={24} 
+                          color={Colors.primary} 
+                        />
+                        <Text style={styles.audioButtonText}>
+                          {isAudioPlaying ? "Pause Audio" : selectedTrack.audioUrl ? "Play Audio" : "Listen (Synthesized)"}
+                        </Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                
+                  {/* Episodes list */}
+                  {book.chapters?.length > 0 && (
+                    <View style={styles.episodesContainer}>
+                      <Text style={styles.episodesTitle}>Episodes</Text>
+                      <FlatList
+                        data={book.chapters || []}
+                        nestedScrollEnabled
+                        style={styles.episodesList}
+                        renderItem={({item, index}) => (
+                          <TouchableOpacity
+                            key={item.id}
+                            style={[
+                              styles.episodeItem,
+                              selectedChapterIndex === index && styles.episodeItemSelected
+                            ]}
+                            onPress={() => setSelectedChapterIndex(index)}
+                          >
+                            <View style={styles.episodeTitleContainer}>
+                              <Text 
+                                style={[
+                                  styles.episodeTitle,
+                                  selectedChapterIndex === index && styles.episodeTitleSelected
+                                ]}
+                                numberOfLines={1}
+                              >
+                                {item.title || `Episode ${index + 1}`}
+                              </Text>
+                              {!!chapterLengths[item.id] && (
+                                <Text style={styles.episodeLength} numberOfLines={1}>
+                                  {formatContentLength(chapterLengths[item.id])}
+                                </Text>
+                              )}
+                              {!!readingProgress?.chapterOffsets?.[item.id] && (
+                                <View style={styles.episodeProgressBackground}>
+                                  <View
+                                    style={[
+                                      styles.episodeProgressFill,
+                                      selectedChapterIndex === index && styles.episodeProgressFillSelected,
+                                      { width: `${Math.round(readingProgress.chapterOffsets[item.id] * 100)}%` },
+                                    ]}
+                                  />
+                                </View>
+                              )}
+                            </View>
+                          
+                            {/* Long books list chapters without their text, but a word count means there is some to read aloud */}
+                            {(item.audioUrl || item.content || !!item.wordCount) && (
+                              <TouchableOpacity
+                                style={styles.episodeAudioButtonSmall}
+                                onPress={() => {
+                                  setSelectedChapterIndex(index);
+                                  setIsAudioPlaying(true);
+                                }}
+                              >
+                                <Ionicons 
+                                  name="play-circle" 
+                                  size={20} 
+                                  color={Colors.primary} 
+                                />
+                              </TouchableOpacity>
+                            )}
+                          </TouchableOpacity>
+                        )}
+                        keyExtractor={(item) => item.id}
+                      />
+                    </View>
+                  )}
+                </View>
+              </View>
+            )}
+            
+            {/* Main content */}
+            <View
+              ref={mainContentRef}
+              style={[
+                styles.mainContent,
+                isWeb && { flex: 1 }
+              ]}
+              onLayout={(event) => {
+                contentTopRef.current = event.nativeEvent.layout.y;
+              }}
+            >
+              <View style={styles.contentCard}>
+                {!isImmersive && (
+                  <View style={styles.contentHeader}>
+                    <Text style={styles.contentTitle}>
+                      {selectedChapter ? selectedChapter.title : book.title}
+                    </Text>
+                    <View style={styles.contentActions}>
+                      {selectedChapter?.content && !isReadAlong && (
+                        <TouchableOpacity style={styles.actionButton} onPress={() => setIsHighlighting(!isHighlighting)}>
+                          <Ionicons
+                            name={isHighlighting ? 'brush' : 'brush-outline'}
+                            size={24}
+                            color={isHighlighting ? Colors.primary : Colors.textPrimary}
+                          />
+                        </TouchableOpacity>
+                      )}
+                      <TouchableOpacity style={styles.actionButton} onPress={() => setIsReaderSettingsVisible(true)}>
+                        <Ionicons name="text-outline" size={24} color={Colors.textPrimary} />
+                      </TouchableOpacity>
+                      {canDownload && book.chapters?.length > 0 && (
+                        <TouchableOpacity style={styles.actionButton} onPress={handleDownloadPress}>
+                          {isBookDownloading ? (
+                            <ActivityIndicator size="small" color={Colors.primary} />
+                          ) : (
+                            <Ionicons
+                              name={isBookDownloaded ? 'checkmark-circle' : 'download-outline'}
+                              size={24}
+                              color={isBookDownloaded ? Colors.primary : Colors.textPrimary}
+                            />
+                          )}
+                        </TouchableOpacity>
+                      )}
+                      <TouchableOpacity style={styles.actionButton} onPress={handleLikePress}>
+                        <Ionicons
+                          name={isLiked(book.id) ? 'heart' : 'heart-outline'}
+                          size={24}
+                          color={isLiked(book.id) ? Colors.primary : Colors.textPrimary}
+                        />
+                      </TouchableOpacity>
+                      <TouchableOpacity style={styles.actionButton} onPress={() => toggleSave(book)}>
+                        <Ionicons
+                          name={isSaved(book.id) ? 'bookmark' : 'bookmark-outline'}
+                          size={24}
+                          color={isSaved(book.id) ? Colors.success : Colors.textPrimary}
+                        />
+                      </TouchableOpacity>
+                      <TouchableOpacity style={styles.actionButton} onPress={handleSharePress}>
+                        <Ionicons name="share-social-outline" size={24} color={Colors.textPrimary} />
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                )}
+                
+                {/* The queue reached a chapter without narration, so it waits here for the reader */}
+                {isImmersive ? null : needsFallback && currentTrack?.bookId === book.id ? (
+                  <View style={styles.fallbackNotice}>
+                    <Ionicons name="book-outline" size={20} color={Colors.textSecondary} />
+                    <Text style={styles.fallbackNoticeText}>
+                      This episode has no narration yet. Read along below.
+                    </Text>
+                    {hasNext && (
+                      <TouchableOpacity onPress={skipNext}>
+                        <Text style={styles.fallbackNoticeAction}>Skip</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                ) : isAudioPlaying && selectedTrack && (
+                  <View style={styles.audioPlayerContainer}>
+                    <AudioPlayer
+                      track={selectedTrack}
+                      queue={chapterQueue}
+                      onClose={() => setIsAudioPlaying(false)}
+                    />
+                  </View>
+                )}
+                
+                {/* Content */}
+                <View style={styles.textContent}>
+                  {book.chapters?.length > 0 ? (
+                    <>
+                      {/* Episode Tabs */}
+                      {!isImmersive && (
+                        <View style={styles.episodeTabs}>
+                          <Text style={styles.episodesTitle}>Episodes:</Text>
+                          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                            {book.chapters.map((chapter, index) => (
+                              <TouchableOpacity
+                                key={chapter.id}
+                                style={[
+                                  styles.episodeTab,
+                                  selectedChapterIndex === index && styles.episodeTabSelected
+                                ]}
+                                onPress={() => setSelectedChapterIndex(index)}
+                              >
+                                <Text 
+                                  style={[
+                                    styles.episodeTabText,
+                                    selectedChapterIndex === index && styles.episodeTabTextSelected
+                                  ]}
+                                >
+                                  {chapter.title || `Episode ${index + 1}`}
+                                </Text>
+                              </TouchableOpacity>
+                            ))}
+                          </ScrollView>
+                        </View>
+                      )}
+                      
+                      {/* Selected Episode Content */}
+                      <ScrollView style={styles.episodeContentScroll}>
+                        <View style={styles.episodeContentContainer}>
+                          <View style={styles.episodeTitleRow}>
+                            <Text style={styles.episodeTitleText}>
+                              {selectedChapter?.title || `Episode ${selectedChapterIndex + 1}`}
+                            </Text>
+                            {selectedChapter && selectedChapter.id !== 'default-chapter' && !isImmersive && (
+                              <TouchableOpacity
+                                style={[styles.readAlongToggle, isReadAlong && styles.readAlongToggleActive]}
+                                onPress={() => {
+                                  // Read-along has its own controls, so put the full player away
+                                  setIsAudioPlaying(false);
+                                  setIsReadAlong(!isReadAlong);
+                                }}
+                              >
+                                <Ionicons
+                                  name="reader-outline"
+                                  size={16}
+                                  color={isReadAlong ? Colors.buttonText : Colors.primary}
+                                />
+                                <Text style={[styles.readAlongToggleText, isReadAlong && styles.readAlongToggleTextActive]}>
+                                  Read along
+                                </Text>
+                              </TouchableOpacity>
+                            )}
+                          </View>
+                          {!!query && !isReadAlong && !isHighlighting && (
+                            <View style={styles.searchNotice}>
+                              <Ionicons name="search" size={16} color={Colors.textSecondary} />
+                              <Text style={styles.searchNoticeText} numberOfLines={1}>
+                                {searchMatches.length} {searchMatches.length === 1 ? 'match' : 'matches'} for &quot;{query}&quot; in this episode
+                              </Text>
+                              <TouchableOpacity onPress={() => router.setParams({ query: '' })}>
+                                <Ionicons name="close" size={18} color={Colors.textSecondary} />
+                              </TouchableOpacity>
+                            </View>
+                          )}
+                          {isReadAlong && selectedChapter ? (
+                            <ReadAlongView book={book} chapter={selectedChapter} />
+                          ) : isHighlighting && selectedChapter?.content ? (
+                            <HighlightSelector
+                              key={selectedChapter.id}
+                              text={selectedChapterText}
+                              settings={readerSettings}
+                              highlights={chapterHighlights}
+                              selection={pendingSelection}
+                              onSelect={setPendingSelection}
+                            />
+                          ) : (
+                            selectedChapter?.content && isPaginated && !isReadingProgressLoaded ? (
+                              <ActivityIndicator size="small" color={Colors.primary} style={{ height: pageHeight }} />
+                            ) : selectedChapter?.content && isPaginated ? (
+                              <PaginatedReader
+                                key={`${selectedChapter.id}-${requestedOffset ?? ''}`}
+                                text={selectedChapterText}
+                                settings={readerSettings}
+                                width={contentWidth}
+                                height={pageHeight}
+                                highlights={chapterHighlights}
+                                searchMatches={searchMatches}
+                                initialProgress={
+                                  lastPageChapterId === selectedChapter.id
+                                    ? 1
+                                    : chapterId === selectedChapter.id && requestedOffset !== null
+                                      ? requestedOffset
+                                      : readingProgress?.chapterId === selectedChapter.id ? readingProgress.chapterOffset : 0
+                                }
+                                onProgressChange={(chapterProgress) => updatePosition(selectedChapter.id, chapterProgress)}
+                                nextChapterTitle={nextChapter?.title || (nextChapter ? `Episode ${selectedChapterIndex + 2}` : undefined)}
+                                onNextChapter={nextChapter ? () => {
+                                  setLastPageChapterId(null);
+                                  setSelectedChapterIndex(selectedChapterIndex + 1);
+                                } : undefined}
+                                onPreviousChapter={selectedChapterIndex > 0 ? () => {
+                                  setLastPageChapterId(book.chapters[selectedChapterIndex - 1].id);
+                                  setSelectedChapterIndex(selectedChapterIndex - 1);
+                                } : undefined}
+                                onListenNext={nextChapter ? handleListenNext : undefined}
+                                onDoubleTap={() => setIsImmersive(!isImmersive)}
+                              />
+                            ) : (
+                              // Swipe to change chapter, tap the edges to move a screen at a time
+                              <ReaderGestures
+                                onSwipeLeft={() => goToChapter(selectedChapterIndex + 1)}
+                                onSwipeRight={() => goToChapter(selectedChapterIndex - 1)}
+                                onDoubleTap={() => setIsImmersive(!isImmersive)}
+                                onEdgeTap={handleEdgeTap}
+                              >
+                                {selectedChapter?.content ? (
+                                  <View ref={chapterTextRef} onLayout={measureChapterText}>
+                                    <ChapterHtml
+                                      html={selectedChapter.content}
+                                      contentWidth={contentWidth}
+                                      settings={readerSettings}
+                                      highlights={chapterHighlights}
+                                      searchMatches={searchMatches}
+                                    />
+                                  </View>
+                                ) : chapterError ? (
+                                  <View style={styles.noContentContainer}>
+                                    <Text style={styles.errorText}>{chapterError}</Text>
+                                    <TouchableOpacity style={styles.retryButton} onPress={retryChapter}>
+                                      <Text style={styles.retryText}>Retry</Text>
+                                    </TouchableOpacity>
+                                  </View>
+                                ) : (
+                                  <Text style={styles.contentText}>
+                                    {isChapterLoading ? 'Loading episode content...' : 'This episode has no text.'}
+                                  </Text>
+                                )}
+                                {!!selectedChapter?.content && nextChapter && (
+                                  <ChapterTransitionCard
+                                    nextChapterTitle={nextChapter.title || `Episode ${selectedChapterIndex + 2}`}
+                                    palette={ReaderThemes[readerSettings.theme]}
+                                    onReadNext={() => goToChapter(selectedChapterIndex + 1)}
+                                    onListenNext={handleListenNext}
+                                  />
+                                )}
+                              </ReaderGestures>
+                            )
+                          )}
+                          {chapterTrack && !isReadAlong && !isImmersive ? (
+                            <TouchableOpacity
+                              style={styles.episodeAudioButton}
+                              onPress={() => setIsAudioPlaying(true)}
+                            >
+                              <Ionicons
+                                name="play-circle"
+                                size={20}
+                                color={Colors.primary}
+                              />
+                              <Text style={styles.audioButtonText}>
+                                {chapterTrack.audioUrl ? 'Play Audio' : 'Listen (Synthesized)'}
+                              </Text>
+                            </TouchableOpacity>
+                          ) : null}
+                        </View>
+                      </ScrollView>
+                    </>
+                  ) : (
+                    <ScrollView>
+                      {book.content ? (
+                        <ReaderGestures onDoubleTap={() => setIsImmersive(!isImmersive)} onEdgeTap={handleEdgeTap}>
+                          <ChapterHtml html={book.content} contentWidth={contentWidth} settings={readerSettings} />
+                        </ReaderGestures>
+                      ) : (
+                        <View style={styles.loadingContentContainer}>
+                          <ActivityIndicator size="large" color={Colors.primary} />
+                          <Text style={styles.loadingContentText}>
+                            Loading book content...
+                          </Text>
+                        </View>
+                      )}
+                    </ScrollView>
+                  )}
+                </View>
+              </View>
+            </View>
+          </View>
+        }
+      />
+      
+      {isImmersive && (
+        <TouchableOpacity style={styles.exitImmersiveButton} onPress={() => setIsImmersive(false)}>
+          <Ionicons name="contract-outline" size={20} color="#FFFFFF" />
+        </TouchableOpacity>
+      )}
+      
+      <ReaderSettingsSheet
+        visible={isReaderSettingsVisible}
+        settings={readerSettings}
+        onChange={updateReaderSettings}
+        onClose={() => setIsReaderSettingsVisible(false)}
+      />
+      
+      <HighlightSheet
+        visible={!!pendingSelection}
+        quote={pendingSelection?.quote ?? ''}
+        onSave={handleSaveHighlight}
+        onClose={() => setPendingSelection(null)}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  scrollContent: {
+    flexGrow: 1,
+  },
+  exitImmersiveButton: {
+    position: 'absolute',
+    top: 16,
+    right: 16,
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: Colors.background,
+  },
+  loadingText: {
+    color: Colors.textSecondary,
+    marginTop: 10,
+    fontSize: 16,
+  },
+  loadingContentContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 40,
+  },
+  loadingContentText: {
+    fontSize: 16,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: Colors.background,
+    padding: 20,
+  },
+  errorText: {
+    color: Colors.error,
+    fontSize: 16,
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  retryButton: {
+    backgroundColor: Colors.primary,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 4,
+  },
+  retryText: {
+    color: Colors.buttonText,
+    fontWeight: 'bold',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  headerActions: {
+    flexDirection: 'row',
+  },
+  headerAction: {
+    marginLeft: 12,
+  },
+  searchNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.inputBackground,
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 12,
+  },
+  searchNoticeText: {
+    flex: 1,
+    color: Colors.textSecondary,
+    fontSize: 13,
+    marginHorizontal: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: Colors.textPrimary,
+    flex: 1,
+    textAlign: 'center',
+  },
+  backButton: {
+    padding: 8,
+  },
+  backButtonText: {
+    color: Colors.primary,
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  sidebar: {
+    marginBottom: 20,
+  },
+  bookInfoCard: {
+    backgroundColor: Colors.cardBackground,
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  bookCover: {
+    width: '100%',
+    aspectRatio: 2/3,
+    borderRadius: 8,
+    marginBottom: 16,
+  },
+  bookInfo: {
+    marginBottom: 16,
+  },
+  bookTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: Colors.textPrimary,
+    marginBottom: 4,
+  },
+  bookAuthor: {
+    fontSize: 16,
+    color: Colors.textSecondary,
+    marginBottom: 12,
+  },
+  bookLength: {
+    fontSize: 14,
+    color: Colors.textMuted,
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  categoryTag: {
+    backgroundColor: 'rgba(255,0,0,0.7)',
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    borderRadius: 4,
+    alignSelf: 'flex-start',
+    marginBottom: 12,
+  },
+  categoryText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  tagsContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 12,
+  },
+  tag: {
+    backgroundColor: Colors.cardBackground,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingVertical: 2,
+    paddingHorizontal: 6,
+    borderRadius: 4,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  tagText: {
+    color: Colors.textSecondary,
+    fontSize: 12,
+  },
+  audioButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255,0,0,0.1)',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    alignSelf: 'flex-start',
+  },
+  audioButtonText: {
+    color: Colors.primary,
+    marginLeft: 8,
+    fontWeight: '600',
+  },
+  episodesContainer: {
+    marginTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+    paddingTop: 16,
+  },
+  episodesTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: Colors.textPrimary,
+    marginBottom: 12,
+  },
+  episodesList: {
+    maxHeight: 300,
+  },
+  episodeItem: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: Colors.cardBackground,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 6,
+    marginBottom: 8,
+  },
+  episodeItemSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  episodeTitleContainer: {
+    flex: 1,
+  },
+  episodeTitle: {
+    color: Colors.textPrimary,
+    fontSize: 14,
+  },
+  episodeLength: {
+    color: Colors.textMuted,
+    fontSize: 12,
+    marginTop: 2,
+  },
+  episodeProgressBackground: {
+    height: 3,
+    borderRadius: 2,
+    backgroundColor: Colors.border,
+    marginTop: 6,
+    overflow: 'hidden',
+  },
+  episodeProgressFill: {
+    height: '100%',
+    backgroundColor: Colors.primary,
+  },
+  episodeProgressFillSelected: {
+    backgroundColor: Colors.buttonText,
+  },
+  episodeTitleSelected: {
+    color: '#FFFFFF',
+    fontWeight: 'bold',
+  },
+  episodeAudioButtonSmall: {
+    padding: 4,
+  },
+  episodeAudioButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    marginTop: 16,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255,0,0,0.1)',
+  },
+  mainContent: {
+    flex: 1,
+  },
+  contentCard: {
+    backgroundColor: Colors.cardBackground,
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  contentHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+    paddingBottom: 12,
+  },
+  contentTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: Colors.textPrimary,
+    flex: 1,
+  },
+  contentActions: {
+    flexDirection: 'row',
+  },
+  episodeTabs: {
+    marginBottom: 16,
+  },
+  episodeTab: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    marginRight: 8,
+    borderRadius: 20,
+    backgroundColor: Colors.cardBackground,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  episodeTabSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  episodeTabText: {
+    fontSize: 14,
+    color: Colors.textPrimary,
+  },
+  episodeTabTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: 'bold',
+  },
+  episodeContentScroll: {
+    flex: 1,
+  },
+  episodeContentContainer: {
+    marginBottom: 24,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  noContentContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 40,
+  },
+  noContentText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: Colors.textSecondary,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  noContentSubText: {
+    fontSize: 14,
+    color: Colors.textMuted,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  episodeTitleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  episodeTitleText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: Colors.primary,
+    marginBottom: 12,
+    alignItems: 'center',
+    flex: 1,
+  },
+  readAlongToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: Colors.primary,
+    borderRadius: 14,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    marginLeft: 8,
+  },
+  readAlongToggleActive: {
+    backgroundColor: Colors.primary,
+  },
+  readAlongToggleText: {
+    color: Colors.primary,
+    fontSize: 12,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
+  readAlongToggleTextActive: {
+    color: Colors.buttonText,
+  },
+  actionButton: {
+    padding: 6,
+    marginLeft: 8,
+  },
+  audioPlayerContainer: {
+    marginBottom: 20,
+    backgroundColor: Colors.cardBackground,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    overflow: 'hidden',
+  },
+  fallbackNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 20,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  fallbackNoticeText: {
+    flex: 1,
+    color: Colors.textSecondary,
+    fontSize: 14,
+    marginHorizontal: 10,
+  },
+  fallbackNoticeAction: {
+    color: Colors.primary,
+    fontWeight: 'bold',
+  },
+  textContent: {
+    paddingVertical: 8,
+  },
+  contentText: {
+    fontSize: 16,
+    color: Colors.textPrimary,
+    lineHeight: 24,
+  },
+});
\ No newline at end of file
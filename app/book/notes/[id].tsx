@@ -0,0 +1,281 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SectionList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Platform,
+  Share,
+} from 'react-native';
+import { useLocalSearchParams, router } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import { HighlightColors } from '@/constants/ReaderThemes';
+import { useBook } from '@/src/hooks/useBook';
+import { useHighlights } from '@/src/hooks/useHighlights';
+import HighlightSheet from '@/src/components/HighlightSheet';
+import { Highlight } from '@/src/types/reader';
+import { formatHtmlContent } from '@/src/utils/html';
+import { anchorHighlight, highlightsToMarkdown } from '@/src/utils/highlights';
+import { getPassageOffset } from '@/src/utils/links';
+
+interface ChapterSection {
+  chapterId: string;
+  title: string;
+  data: Highlight[];
+}
+
+export default function BookNotesScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { book, loading } = useBook(id, { withContent: true });
+  const [editingHighlight, setEditingHighlight] = useState<Highlight | null>(null);
+  const { highlights, updateHighlight, removeHighlight } = useHighlights(id);
+
+  const chapterTexts = useMemo(() => {
+    const texts: Record<string, string> = {};
+    for (const chapter of book?.chapters ?? []) {
+      texts[chapter.id] = formatHtmlContent(chapter.content);
+    }
+    return texts;
+  }, [book]);
+
+  const sections = useMemo(() => {
+    const chapters = book?.chapters ?? [];
+    const byChapter = new Map<string, ChapterSection>();
+
+    for (const highlight of [...highlights].sort((a, b) => a.start - b.start)) {
+      const section = byChapter.get(highlight.chapterId);
+      if (section) {
+        section.data.push(highlight);
+      } else {
+        const index = chapters.findIndex(chapter => chapter.id === highlight.chapterId);
+        byChapter.set(highlight.chapterId, {
+          chapterId: highlight.chapterId,
+          title: index < 0 ? 'Removed episode' : chapters[index].title || `Episode ${index + 1}`,
+          data: [highlight],
+        });
+      }
+    }
+
+    const chapterOrder = (chapterId: string) => {
+      const index = chapters.findIndex(chapter => chapter.id === chapterId);
+      return index < 0 ? chapters.length : index;
+    };
+    return [...byChapter.values()].sort((a, b) => chapterOrder(a.chapterId) - chapterOrder(b.chapterId));
+  }, [book, highlights]);
+
+  // Go back to the reader at the highlighted passage
+  const handleHighlightPress = (highlight: Highlight) => {
+    const text = chapterTexts[highlight.chapterId];
+    if (!text) return;
+
+    const range = anchorHighlight(text, highlight);
+    // The same fraction of the chapter text that search results open at
+    const offset = range ? getPassageOffset(text, range.start) : 0;
+    router.dismissTo({
+      pathname: '/book/[id]',
+      params: { id, chapterId: highlight.chapterId, offset: offset.toFixed(4) },
+    });
+  };
+
+  const handleExport = async () => {
+    if (!book) return;
+
+    const markdown = highlightsToMarkdown(book, highlights);
+    const fileName = `${book.title.replace(/[^\w\- ]+/g, '').trim() || 'notes'} - Notes.md`;
+
+    try {
+      if (Platform.OS === 'web') {
+        // Browsers can't share plain text everywhere, so save it as a file instead
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(new Blob([markdown], { type: 'text/markdown' }));
+        link.download = fileName;
+        link.click();
+        URL.revokeObjectURL(link.href);
+      } else {
+        await Share.share({ title: fileName, message: markdown });
+      }
+    } catch (error) {
+      console.error('Error exporting notes:', error);
+    }
+  };
+
+  const renderItem = ({ item }: { item: Highlight }) => {
+    const isMissing = !!chapterTexts[item.chapterId] && !anchorHighlight(chapterTexts[item.chapterId], item);
+
+    return (
+      <TouchableOpacity style={styles.highlightCard} onPress={() => handleHighlightPress(item)}>
+        <View style={[styles.colorBar, { backgroundColor: HighlightColors[item.color] }]} />
+        <View style={styles.highlightContent}>
+          <Text style={styles.quoteText} numberOfLines={6}>{item.quote}</Text>
+          {!!item.note && <Text style={styles.noteText}>{item.note}</Text>}
+          <Text style={styles.metaText}>
+            {new Date(item.createdAt).toLocaleDateString()}
+            {isMissing ? ' · No longer in this episode' : ''}
+          </Text>
+        </View>
+        <TouchableOpacity style={styles.editButton} onPress={() => setEditingHighlight(item)}>
+          <Ionicons name="create-outline" size={20} color={Colors.textSecondary} />
+        </TouchableOpacity>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color={Colors.textPrimary} />
+        </TouchableOpacity>
+        <View style={styles.headerText}>
+          <Text style={styles.headerTitle}>Notes & Highlights</Text>
+          {book && <Text style={styles.headerSubtitle} numberOfLines={1}>{book.title}</Text>}
+        </View>
+        <TouchableOpacity onPress={handleExport} disabled={!book || highlights.length === 0}>
+          <Ionicons
+            name="share-outline"
+            size={24}
+            color={book && highlights.length > 0 ? Colors.textPrimary : Colors.textMuted}
+          />
+        </TouchableOpacity>
+      </View>
+
+      {loading && !book ? (
+        <View style={styles.emptyContainer}>
+          <ActivityIndicator size="large" color={Colors.primary} />
+        </View>
+      ) : (
+        <SectionList
+          sections={sections}
+          keyExtractor={(item) => item.id}
+          renderItem={renderItem}
+          renderSectionHeader={({ section }) => <Text style={styles.sectionTitle}>{section.title}</Text>}
+          stickySectionHeadersEnabled={false}
+          contentContainerStyle={styles.list}
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Ionicons name="brush-outline" size={80} color={Colors.textMuted} />
+              <Text style={styles.emptyText}>No highlights yet</Text>
+              <Text style={styles.emptySubtext}>Tap the brush in the reader to highlight a passage</Text>
+            </View>
+          }
+        />
+      )}
+
+      <HighlightSheet
+        visible={!!editingHighlight}
+        quote={editingHighlight?.quote ?? ''}
+        initialColor={editingHighlight?.color}
+        initialNote={editingHighlight?.note}
+        onSave={(color, note) => {
+          if (editingHighlight) {
+            updateHighlight(editingHighlight.id, { color, note });
+          }
+          setEditingHighlight(null);
+        }}
+        onDelete={() => {
+          if (editingHighlight) {
+            removeHighlight(editingHighlight.id);
+          }
+          setEditingHighlight(null);
+        }}
+        onClose={() => setEditingHighlight(null)}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.cardBackground,
+  },
+  headerText: {
+    flex: 1,
+    marginHorizontal: 16,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: Colors.primary,
+  },
+  headerSubtitle: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  list: {
+    padding: 16,
+    flexGrow: 1,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: Colors.textPrimary,
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  highlightCard: {
+    flexDirection: 'row',
+    backgroundColor: Colors.cardBackground,
+    borderRadius: 8,
+    marginBottom: 8,
+    overflow: 'hidden',
+  },
+  colorBar: {
+    width: 4,
+  },
+  highlightContent: {
+    flex: 1,
+    padding: 12,
+  },
+  quoteText: {
+    fontSize: 14,
+    fontStyle: 'italic',
+    lineHeight: 20,
+    color: Colors.textPrimary,
+  },
+  noteText: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: Colors.textSecondary,
+    marginTop: 8,
+  },
+  metaText: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginTop: 8,
+  },
+  editButton: {
+    padding: 12,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  emptyText: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: Colors.textPrimary,
+    marginTop: 20,
+    textAlign: 'center',
+  },
+  emptySubtext: {
+    fontSize: 16,
+    color: Colors.textMuted,
+    marginTop: 10,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,216 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { useLocalSearchParams, router } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import { useBook } from '@/src/hooks/useBook';
+import { formatHtmlContent } from '@/src/utils/html';
+import { SearchableChapter, SearchHit, searchChapters } from '@/src/utils/search';
+
+// Wait for a pause in typing before searching
+const SEARCH_DELAY_MILLIS = 250;
+
+const MIN_QUERY_LENGTH = 2;
+
+export default function BookSearchScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { book, loading } = useBook(id, { withContent: true });
+  const [searchTerm, setSearchTerm] = useState('');
+  const [query, setQuery] = useState('');
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setQuery(searchTerm.trim()), SEARCH_DELAY_MILLIS);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  // Strip the HTML once per book rather than on every search
+  const chapters = useMemo<SearchableChapter[]>(
+    () => (book?.chapters ?? []).map((chapter, index) => ({
+      id: chapter.id,
+      title: chapter.title || `Episode ${index + 1}`,
+      text: formatHtmlContent(chapter.content),
+    })),
+    [book]
+  );
+
+  const results = useMemo(
+    () => (query.length >= MIN_QUERY_LENGTH ? searchChapters(chapters, query) : null),
+    [chapters, query]
+  );
+
+  // Open the chapter at the match, with the term marked
+  const handleHitPress = (hit: SearchHit) => {
+    router.dismissTo({
+      pathname: '/book/[id]',
+      params: { id, chapterId: hit.chapterId, offset: hit.offset.toFixed(4), query },
+    });
+  };
+
+  const renderHit = ({ item }: { item: SearchHit }) => (
+    <TouchableOpacity style={styles.hitCard} onPress={() => handleHitPress(item)}>
+      <Text style={styles.hitChapter} numberOfLines={1}>{item.chapterTitle}</Text>
+      <Text style={styles.hitContext} numberOfLines={3}>
+        {item.before}
+        <Text style={styles.hitMatch}>{item.match}</Text>
+        {item.after}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderSummary = () => {
+    if (!results) return null;
+
+    const { hits, total } = results;
+    return (
+      <Text style={styles.summaryText}>
+        {total === 0
+          ? `No matches for "${query}"`
+          : `${total} ${total === 1 ? 'match' : 'matches'}${hits.length < total ? `, showing the first ${hits.length}` : ''}`}
+      </Text>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color={Colors.textPrimary} />
+        </TouchableOpacity>
+        <View style={styles.searchContainer}>
+          <Ionicons name="search" size={20} color={Colors.textMuted} style={styles.searchIcon} />
+          <TextInput
+            style={styles.searchInput}
+            placeholder={book ? `Search in ${book.title}` : 'Search in this book'}
+            placeholderTextColor={Colors.textMuted}
+            value={searchTerm}
+            onChangeText={setSearchTerm}
+            onSubmitEditing={() => setQuery(searchTerm.trim())}
+            returnKeyType="search"
+            autoFocus
+          />
+          {searchTerm ? (
+            <TouchableOpacity onPress={() => setSearchTerm('')}>
+              <Ionicons name="close-circle" size={20} color={Colors.textMuted} />
+            </TouchableOpacity>
+          ) : null}
+        </View>
+      </View>
+
+      {loading && !book ? (
+        <View style={styles.emptyContainer}>
+          <ActivityIndicator size="large" color={Colors.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={results?.hits ?? []}
+          keyExtractor={(item) => `${item.chapterId}-${item.start}`}
+          renderItem={renderHit}
+          ListHeaderComponent={renderSummary()}
+          contentContainerStyle={styles.list}
+          keyboardShouldPersistTaps="handled"
+          initialNumToRender={15}
+          ListEmptyComponent={
+            results ? null : (
+              <View style={styles.emptyContainer}>
+                <Ionicons name="search-outline" size={80} color={Colors.textMuted} />
+                <Text style={styles.emptyText}>Search this book</Text>
+                <Text style={styles.emptySubtext}>Find a word or phrase in any of its episodes</Text>
+              </View>
+            )
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.cardBackground,
+  },
+  searchContainer: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.inputBackground,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    marginLeft: 16,
+    height: 44,
+  },
+  searchIcon: {
+    marginRight: 8,
+  },
+  searchInput: {
+    flex: 1,
+    color: Colors.textPrimary,
+    fontSize: 16,
+  },
+  list: {
+    padding: 16,
+    flexGrow: 1,
+  },
+  summaryText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginBottom: 12,
+  },
+  hitCard: {
+    backgroundColor: Colors.cardBackground,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  hitChapter: {
+    fontSize: 13,
+    fontWeight: 'bold',
+    color: Colors.primary,
+    marginBottom: 4,
+  },
+  hitContext: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: Colors.textSecondary,
+  },
+  hitMatch: {
+    color: Colors.textPrimary,
+    fontWeight: 'bold',
+    backgroundColor: 'rgba(255,0,0,0.25)',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  emptyText: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: Colors.textPrimary,
+    marginTop: 20,
+    textAlign: 'center',
+  },
+  emptySubtext: {
+    fontSize: 16,
+    color: Colors.textMuted,
+    marginTop: 10,
+    textAlign: 'center',
+  },
+});
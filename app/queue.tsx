@@ -0,0 +1,254 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Switch,
+} from 'react-native';
+import { router } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import { usePlayback } from '@/src/context/PlaybackContext';
+import { PlaybackTrack } from '@/src/types/playback';
+
+export default function QueueScreen() {
+  const {
+    queue,
+    queueIndex,
+    isPlaying,
+    settings,
+    moveInQueue,
+    removeFromQueue,
+    skipToIndex,
+    updateSettings,
+  } = usePlayback();
+
+  const renderItem = ({ item, index }: { item: PlaybackTrack, index: number }) => {
+    const isCurrent = index === queueIndex;
+    const isUpcoming = index > queueIndex;
+
+    return (
+      <View style={[styles.queueItem, isCurrent && styles.queueItemCurrent]}>
+        <TouchableOpacity
+          style={styles.queueItemInfo}
+          onPress={() => skipToIndex(index)}
+          disabled={isCurrent}
+        >
+          <Ionicons
+            name={isCurrent ? (isPlaying ? 'volume-high' : 'pause') : 'musical-note'}
+            size={18}
+            color={isCurrent ? Colors.primary : Colors.textMuted}
+            style={styles.queueItemIcon}
+          />
+          <View style={styles.queueItemText}>
+            <Text
+              style={[styles.queueItemTitle, !isUpcoming && !isCurrent && styles.queueItemPlayed]}
+              numberOfLines={1}
+            >
+              {item.title}
+            </Text>
+            {item.audioUrl ? (
+              item.subtitle ? (
+                <Text style={styles.queueItemSubtitle} numberOfLines={1}>{item.subtitle}</Text>
+              ) : null
+            ) : (
+              <Text style={styles.noAudioText}>{item.text ? 'Synthesized voice' : 'No narration'}</Text>
+            )}
+          </View>
+        </TouchableOpacity>
+
+        {/* Only the upcoming part of the queue can be rearranged */}
+        {isUpcoming && (
+          <View style={styles.queueItemActions}>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => moveInQueue(index, index - 1)}
+              disabled={index - 1 <= queueIndex}
+            >
+              <Ionicons
+                name="chevron-up"
+                size={20}
+                color={index - 1 <= queueIndex ? Colors.border : Colors.textSecondary}
+              />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => moveInQueue(index, index + 1)}
+              disabled={index === queue.length - 1}
+            >
+              <Ionicons
+                name="chevron-down"
+                size={20}
+                color={index === queue.length - 1 ? Colors.border : Colors.textSecondary}
+              />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.actionButton} onPress={() => removeFromQueue(index)}>
+              <Ionicons name="close" size={20} color={Colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="chevron-down" size={24} color={Colors.textPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Up Next</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <View style={styles.settingRow}>
+        <View style={styles.settingText}>
+          <Text style={styles.settingTitle}>Skip chapters without narration</Text>
+          <Text style={styles.settingDescription}>
+            When off, those chapters are read aloud by your device&apos;s voice, or left for you to read.
+          </Text>
+        </View>
+        <Switch
+          value={settings.missingAudio === 'skip'}
+          onValueChange={(value) => updateSettings({ missingAudio: value ? 'skip' : 'fallback' })}
+          trackColor={{ false: Colors.border, true: Colors.primary }}
+        />
+      </View>
+
+      {queue.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Ionicons name="list-outline" size={80} color={Colors.textMuted} />
+          <Text style={styles.emptyText}>Nothing queued</Text>
+          <Text style={styles.emptySubtext}>Play a book or episode to fill the queue</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={queue}
+          renderItem={renderItem}
+          keyExtractor={(item, index) => `${item.id}-${index}`}
+          contentContainerStyle={styles.queueList}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: Colors.textPrimary,
+    flex: 1,
+    textAlign: 'center',
+  },
+  backButton: {
+    padding: 8,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  settingText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  settingTitle: {
+    color: Colors.textPrimary,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  settingDescription: {
+    color: Colors.textMuted,
+    fontSize: 12,
+    marginTop: 4,
+  },
+  queueList: {
+    padding: 16,
+  },
+  queueItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.cardBackground,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 6,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    marginBottom: 8,
+  },
+  queueItemCurrent: {
+    borderColor: Colors.primary,
+  },
+  queueItemInfo: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  queueItemIcon: {
+    marginRight: 10,
+  },
+  queueItemText: {
+    flex: 1,
+  },
+  queueItemTitle: {
+    color: Colors.textPrimary,
+    fontSize: 14,
+  },
+  queueItemPlayed: {
+    color: Colors.textMuted,
+  },
+  queueItemSubtitle: {
+    color: Colors.textSecondary,
+    fontSize: 12,
+    marginTop: 2,
+  },
+  noAudioText: {
+    color: Colors.textMuted,
+    fontSize: 12,
+    fontStyle: 'italic',
+    marginTop: 2,
+  },
+  queueItemActions: {
+    flexDirection: 'row',
+  },
+  actionButton: {
+    padding: 4,
+    marginLeft: 4,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  emptyText: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: Colors.textPrimary,
+    marginTop: 20,
+  },
+  emptySubtext: {
+    fontSize: 16,
+    color: Colors.textMuted,
+    marginTop: 10,
+  },
+});
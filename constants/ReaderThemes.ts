@@ -0,0 +1,77 @@
+import { Platform } from 'react-native';
+import { Colors } from './Colors';
+import { HighlightColor, ReaderFontFamily, ReaderPalette, ReaderThemeName } from '@/src/types/reader';
+
+// Page colors for each reading theme. Dark matches the rest of the app.
+export const ReaderThemes: Record<ReaderThemeName, ReaderPalette> = {
+  dark: {
+    background: Colors.cardBackground,
+    text: Colors.textPrimary,
+    secondaryText: Colors.textSecondary,
+    accent: Colors.primary,
+    border: Colors.border,
+    codeBackground: Colors.inputBackground,
+  },
+  sepia: {
+    background: '#F4ECD8',
+    text: '#5B4636',
+    secondaryText: '#7D6A58',
+    accent: '#B3261E',
+    border: '#DCCFB4',
+    codeBackground: '#EADFC6',
+  },
+  light: {
+    background: '#FFFFFF',
+    text: '#1A1A1A',
+    secondaryText: '#555555',
+    accent: Colors.primaryDark,
+    border: '#DDDDDD',
+    codeBackground: '#F0F0F0',
+  },
+  amoled: {
+    background: '#000000',
+    text: '#E0E0E0',
+    secondaryText: '#9E9E9E',
+    accent: Colors.primary,
+    border: '#262626',
+    codeBackground: '#141414',
+  },
+};
+
+export const ReaderThemeLabels: Record<ReaderThemeName, string> = {
+  dark: 'Dark',
+  sepia: 'Sepia',
+  light: 'Light',
+  amoled: 'AMOLED',
+};
+
+// System fonts, plus Atkinson Hyperlegible, which is bundled and loaded in the root layout.
+// Its letterforms are drawn so that easily confused characters (b/d, I/l/1) stay distinct.
+export const ReaderFonts: Record<ReaderFontFamily, { label: string; fontFamily: string; letterSpacing: number }> = {
+  serif: {
+    label: 'Serif',
+    fontFamily: Platform.select({ android: 'serif', default: 'Georgia' }),
+    letterSpacing: 0,
+  },
+  sans: {
+    label: 'Sans',
+    fontFamily: Platform.select({ ios: 'Helvetica Neue', android: 'sans-serif', default: 'Arial' }),
+    letterSpacing: 0,
+  },
+  hyperlegible: {
+    label: 'Hyperlegible',
+    fontFamily: 'AtkinsonHyperlegible_400Regular',
+    letterSpacing: 0.3,
+  },
+};
+
+// Translucent so the text stays readable on both light and dark pages
+export const HighlightColors: Record<HighlightColor, string> = {
+  yellow: 'rgba(255, 213, 0, 0.45)',
+  green: 'rgba(76, 175, 80, 0.45)',
+  blue: 'rgba(66, 165, 245, 0.45)',
+  pink: 'rgba(236, 64, 122, 0.45)',
+};
+
+// Marks matches for the term the reader searched the book for
+export const SearchMatchColor = 'rgba(255, 0, 0, 0.35)';
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { 
   View, 
   Text, 
@@ -7,154 +7,109 @@ import {
   ActivityIndicator,
   Platform
 } from 'react-native';
-import { Audio } from 'expo-av';
 import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
 import { Colors } from '@/constants/Colors';
+import { usePlayback } from '../context/PlaybackContext';
+import { PlaybackTrack } from '../types/playback';
+import { PLAYBACK_RATES } from '../storage/playbackSettings';
+import SeekBar from './SeekBar';
+import SleepTimerButton from './SleepTimerButton';
+import VoicePickerButton from './VoicePickerButton';
 
 interface AudioPlayerProps {
-  audioUrl: string;
-  title: string;
+  track: PlaybackTrack;
+  // The rest of the book's chapters, so playback can continue past this track
+  queue?: PlaybackTrack[];
   onClose?: () => void;
 }
 
-const AudioPlayer: React.FC<AudioPlayerProps> = ({ audioUrl, title, onClose }) => {
-  const [sound, setSound] = useState<Audio.Sound | null>(null);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [isLoading, setIsLoading] = useState(false);
-  const [position, setPosition] = useState(0);
-  const [duration, setDuration] = useState(0);
-  const [error, setError] = useState<string | null>(null);
+// Skip intervals offered either side of the transport controls
+const SHORT_SKIP_MILLIS = 15000;
+const LONG_SKIP_MILLIS = 30000;
 
-  // Load sound when component mounts or audioUrl changes
-  useEffect(() => {
-    loadSound();
-    
-    // Cleanup function to unload sound when component unmounts
-    return () => {
-      if (sound) {
-        sound.unloadAsync();
-      }
-    };
-  }, [audioUrl]);
+type PlayOptions = { autoPlay?: boolean };
 
-  // Update position every second when playing
-  useEffect(() => {
-    let interval: NodeJS.Timeout;
-    
-    if (isPlaying) {
-      interval = setInterval(async () => {
-        if (sound) {
-          const status = await sound.getStatusAsync();
-          if (status.isLoaded) {
-            setPosition(status.positionMillis);
-            setDuration(status.durationMillis || 0);
-          }
-        }
-      }, 1000);
-    }
-    
-    return () => {
-      if (interval) {
-        clearInterval(interval);
-      }
-    };
-  }, [isPlaying, sound]);
-
-  const loadSound = async () => {
-    try {
-      setIsLoading(true);
-      setError(null);
-      
-      // Unload any existing sound
-      if (sound) {
-        await sound.unloadAsync();
-      }
-      
-      console.log('Loading sound from URL:', audioUrl);
-      
-      // Load the sound
-      const { sound: newSound } = await Audio.Sound.createAsync(
-        { uri: audioUrl },
-        { shouldPlay: false },
-        onPlaybackStatusUpdate
-      );
-      
-      setSound(newSound);
-      setIsLoading(false);
-    } catch (error) {
-      console.error('Error loading sound:', error);
-      setError('Failed to load audio');
-      setIsLoading(false);
-    }
-  };
+// Loads the track into the shared player, within the book's queue when it is part of it
+const startTrack = (
+  track: PlaybackTrack,
+  queue: PlaybackTrack[] | undefined,
+  playTrack: (track: PlaybackTrack, options?: PlayOptions) => Promise<void>,
+  playQueue: (tracks: PlaybackTrack[], startIndex?: number, options?: PlayOptions) => Promise<void>,
+  options: PlayOptions
+) => {
+  const queueIndex = queue ? queue.findIndex(item => item.id === track.id) : -1;
+  if (queue && queueIndex >= 0) {
+    return playQueue(queue, queueIndex, options);
+  }
+  return playTrack(track, options);
+};
 
-  const onPlaybackStatusUpdate = (status: any) => {
-    if (status.isLoaded) {
-      setPosition(status.positionMillis);
-      setDuration(status.durationMillis || 0);
-      setIsPlaying(status.isPlaying);
-    } else if (status.error) {
-      console.error('Playback error:', status.error);
-      setError(`Playback error: ${status.error}`);
-    }
-  };
+const AudioPlayer: React.FC<AudioPlayerProps> = ({ track, queue, onClose }) => {
+  const [showRates, setShowRates] = useState(false);
+  const {
+    currentTrack,
+    status,
+    isPlaying,
+    isLoading,
+    position,
+    duration,
+    rate,
+    error,
+    isSynthesized,
+    speechProgress,
+    hasNext,
+    playTrack,
+    playQueue,
+    togglePlayPause,
+    skipNext,
+    skipPrevious,
+    seekTo,
+    skipBy,
+    setRate,
+    stop,
+    retry,
+  } = usePlayback();
 
-  const togglePlayPause = async () => {
-    if (!sound) return;
-    
-    try {
-      if (isPlaying) {
-        await sound.pauseAsync();
-      } else {
-        // If we're at the end, restart from beginning
-        if (position >= duration && duration > 0) {
-          await sound.setPositionAsync(0);
-        }
-        await sound.playAsync();
-      }
-    } catch (error) {
-      console.error('Error toggling play/pause:', error);
-      setError('Failed to play/pause audio');
-    }
-  };
+  // Mirror for the effect below, which should only run when a different track is shown
+  const latestRef = useRef({ track, queue, currentTrackId: currentTrack?.id, isPlaying, playTrack, playQueue });
 
-  const stopAudio = async () => {
-    if (!sound) return;
-    
-    try {
-      await sound.stopAsync();
-      await sound.setPositionAsync(0);
-    } catch (error) {
-      console.error('Error stopping audio:', error);
-    }
-  };
+  useEffect(() => {
+    latestRef.current = { track, queue, currentTrackId: currentTrack?.id, isPlaying, playTrack, playQueue };
+  }, [track, queue, currentTrack?.id, isPlaying, playTrack, playQueue]);
 
-  const restartAudio = async () => {
-    if (!sound) return;
-    
-    try {
-      await sound.setPositionAsync(0);
-      if (!isPlaying) {
-        await sound.playAsync();
-      }
-    } catch (error) {
-      console.error('Error restarting audio:', error);
+  // Get the shown track ready in the shared player, unless another one is playing:
+  // browsing chapters mustn't cut off the narration, so that waits for the play button.
+  // The sound is owned by PlaybackProvider, so unmounting this view keeps it playing.
+  const trackId = track.id;
+  useEffect(() => {
+    const latest = latestRef.current;
+    if (latest.currentTrackId !== trackId && !latest.isPlaying) {
+      startTrack(latest.track, latest.queue, latest.playTrack, latest.playQueue, { autoPlay: false });
     }
-  };
+  }, [trackId]);
 
-  const formatTime = (milliseconds: number) => {
-    const totalSeconds = Math.floor(milliseconds / 1000);
-    const minutes = Math.floor(totalSeconds / 60);
-    const seconds = totalSeconds % 60;
-    return `${minutes}:${seconds < 10 ? '0' : ''}${seconds}`;
-  };
+  const isActive = currentTrack?.id === track.id;
 
-  const progressPercentage = duration > 0 ? (position / duration) * 100 : 0;
+  const renderSkipButton = (deltaMillis: number) => (
+    <TouchableOpacity style={styles.skipButton} onPress={() => skipBy(deltaMillis)}>
+      <Ionicons
+        name={deltaMillis < 0 ? 'play-back' : 'play-forward'}
+        size={16}
+        color={Colors.textSecondary}
+      />
+      <Text style={styles.skipText}>{Math.abs(deltaMillis) / 1000}s</Text>
+    </TouchableOpacity>
+  );
 
   return (
     <View style={styles.container}>
       <View style={styles.header}>
-        <Text style={styles.title} numberOfLines={1}>{title}</Text>
+        <Text style={styles.title} numberOfLines={1}>{track.title}</Text>
+        <SleepTimerButton />
+        <TouchableOpacity onPress={() => router.push('/queue')} style={styles.headerButton}>
+          <Ionicons name="list" size={22} color={Colors.textPrimary} />
+        </TouchableOpacity>
         {onClose && (
           <TouchableOpacity onPress={onClose} style={styles.closeButton}>
             <Ionicons name="close" size={24} color={Colors.textPrimary} />
@@ -162,13 +117,27 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({ audioUrl, title, onClose }) =
         )}
       </View>
       
-      {error ? (
+      {isActive && error ? (
         <View style={styles.errorContainer}>
           <Text style={styles.errorText}>{error}</Text>
-          <TouchableOpacity style={styles.retryButton} onPress={loadSound}>
+          <TouchableOpacity style={styles.retryButton} onPress={retry}>
             <Text style={styles.retryText}>Retry</Text>
           </TouchableOpacity>
         </View>
+      ) : !isActive ? (
+        <View style={styles.inactiveContainer}>
+          {currentTrack && (
+            <Text style={styles.nowPlayingText} numberOfLines={1}>
+              Now playing: {currentTrack.title}
+            </Text>
+          )}
+          <TouchableOpacity
+            style={styles.playPauseButton}
+            onPress={() => startTrack(track, queue, playTrack, playQueue, { autoPlay: true })}
+          >
+            <Ionicons name="play" size={32} color={Colors.textPrimary} />
+          </TouchableOpacity>
+        </View>
       ) : isLoading ? (
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color={Colors.primary} />
@@ -176,38 +145,81 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({ audioUrl, title, onClose }) =
         </View>
       ) : (
         <>
-          <View style={styles.progressContainer}>
-            <View style={styles.progressBarBackground}>
-              <View 
-                style={[
-                  styles.progressBarFill, 
-                  { width: `${progressPercentage}%` }
-                ]} 
-              />
-            </View>
-            <View style={styles.timeContainer}>
-              <Text style={styles.timeText}>{formatTime(position)}</Text>
-              <Text style={styles.timeText}>{formatTime(duration)}</Text>
+          {isSynthesized && (
+            <View style={styles.synthesizedRow}>
+              <View style={styles.synthesizedBadge}>
+                <Ionicons name="hardware-chip-outline" size={14} color={Colors.primary} />
+                <Text style={styles.synthesizedText}>Synthesized voice</Text>
+              </View>
+              {speechProgress && speechProgress.sentenceCount > 0 && (
+                <Text style={styles.sentenceText}>
+                  Sentence {speechProgress.sentenceIndex + 1} of {speechProgress.sentenceCount}
+                </Text>
+              )}
+              <VoicePickerButton />
             </View>
-          </View>
+          )}
+
+          <SeekBar position={position} duration={duration} onSeek={seekTo} />
           
           <View style={styles.controls}>
-            <TouchableOpacity style={styles.controlButton} onPress={restartAudio}>
+            <TouchableOpacity style={styles.controlButton} onPress={stop}>
+              <Ionicons name="stop" size={24} color={Colors.textPrimary} />
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.controlButton} onPress={skipPrevious}>
               <Ionicons name="play-skip-back" size={24} color={Colors.textPrimary} />
             </TouchableOpacity>
             
             <TouchableOpacity style={styles.playPauseButton} onPress={togglePlayPause}>
-              <Ionicons 
-                name={isPlaying ? "pause" : "play"} 
-                size={32} 
-                color={Colors.textPrimary} 
-              />
+              {status === 'buffering' ? (
+                <ActivityIndicator size="small" color={Colors.textPrimary} />
+              ) : (
+                <Ionicons 
+                  name={status === 'ended' ? "refresh" : isPlaying ? "pause" : "play"} 
+                  size={32} 
+                  color={Colors.textPrimary} 
+                />
+              )}
             </TouchableOpacity>
             
-            <TouchableOpacity style={styles.controlButton} onPress={stopAudio}>
-              <Ionicons name="stop" size={24} color={Colors.textPrimary} />
+            <TouchableOpacity style={styles.controlButton} onPress={skipNext} disabled={!hasNext}>
+              <Ionicons
+                name="play-skip-forward"
+                size={24}
+                color={hasNext ? Colors.textPrimary : Colors.textMuted}
+              />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.secondaryControls}>
+            {renderSkipButton(-LONG_SKIP_MILLIS)}
+            {renderSkipButton(-SHORT_SKIP_MILLIS)}
+            <TouchableOpacity style={styles.rateButton} onPress={() => setShowRates(!showRates)}>
+              <Text style={styles.rateButtonText}>{rate}x</Text>
             </TouchableOpacity>
+            {renderSkipButton(SHORT_SKIP_MILLIS)}
+            {renderSkipButton(LONG_SKIP_MILLIS)}
           </View>
+
+          {showRates && (
+            <View style={styles.rateOptions}>
+              {PLAYBACK_RATES.map(option => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.rateOption, option === rate && styles.rateOptionSelected]}
+                  onPress={() => {
+                    setRate(option);
+                    setShowRates(false);
+                  }}
+                >
+                  <Text style={[styles.rateOptionText, option === rate && styles.rateOptionTextSelected]}>
+                    {option}x
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
         </>
       )}
     </View>
@@ -251,28 +263,36 @@ const styles = StyleSheet.create({
   closeButton: {
     padding: 4,
   },
-  progressContainer: {
-    marginBottom: 16,
-  },
-  progressBarBackground: {
-    height: 6,
-    backgroundColor: Colors.border,
-    borderRadius: 3,
-    overflow: 'hidden',
-  },
-  progressBarFill: {
-    height: '100%',
-    backgroundColor: Colors.primary,
-    borderRadius: 3,
+  headerButton: {
+    padding: 4,
+    marginHorizontal: 4,
   },
-  timeContainer: {
+  synthesizedRow: {
     flexDirection: 'row',
+    alignItems: 'center',
     justifyContent: 'space-between',
-    marginTop: 8,
+    marginBottom: 12,
   },
-  timeText: {
+  synthesizedBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255,0,0,0.12)',
+  },
+  synthesizedText: {
+    color: Colors.primary,
+    fontSize: 12,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
+  sentenceText: {
     color: Colors.textSecondary,
     fontSize: 12,
+    flex: 1,
+    textAlign: 'center',
+    marginHorizontal: 8,
   },
   controls: {
     flexDirection: 'row',
@@ -289,7 +309,61 @@ const styles = StyleSheet.create({
     borderRadius: 30,
     justifyContent: 'center',
     alignItems: 'center',
-    marginHorizontal: 20,
+    marginHorizontal: 12,
+  },
+  secondaryControls: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  skipButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 8,
+  },
+  skipText: {
+    color: Colors.textSecondary,
+    fontSize: 12,
+    marginLeft: 2,
+  },
+  rateButton: {
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 14,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+  },
+  rateButtonText: {
+    color: Colors.textPrimary,
+    fontSize: 13,
+    fontWeight: 'bold',
+  },
+  rateOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    marginTop: 8,
+  },
+  rateOption: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    margin: 4,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  rateOptionSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  rateOptionText: {
+    color: Colors.textSecondary,
+    fontSize: 13,
+  },
+  rateOptionTextSelected: {
+    color: Colors.buttonText,
+    fontWeight: 'bold',
   },
   loadingContainer: {
     alignItems: 'center',
@@ -300,6 +374,15 @@ const styles = StyleSheet.create({
     color: Colors.textSecondary,
     marginTop: 10,
   },
+  inactiveContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  nowPlayingText: {
+    color: Colors.textSecondary,
+    marginBottom: 12,
+  },
   errorContainer: {
     alignItems: 'center',
     justifyContent: 'center',
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo } from 'react';
 import {
   View,
   Text,
@@ -8,24 +8,45 @@ import {
   Platform,
   Dimensions,
 } from 'react-native';
+import { router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { Colors } from '@/constants/Colors';
 import { Book } from '@/src/types/book';
-import AudioPlayer from './AudioPlayer';
+import { usePlayback } from '../context/PlaybackContext';
+import { useLikes } from '../context/LikesContext';
+import { useSavedBooks } from '../context/SavedBooksContext';
+import { bookToTrack } from '../utils/tracks';
+import { getBookLink, shareLink } from '../utils/links';
+import { ContentLength, formatContentLength } from '../utils/readingTime';
 
 interface BookCardProps {
   book: Book;
   index?: number;
   onPress?: (book: Book) => void;
+  // How much of the book has been read, from 0 to 100
+  progressPercent?: number;
+  // How long the book takes to read and listen to, when known
+  length?: ContentLength | null;
 }
 
-const BookCard: React.FC<BookCardProps> = ({ book, index, onPress }) => {
-  const [isAudioPlaying, setIsAudioPlaying] = useState(false);
-  const [showAudioPlayer, setShowAudioPlayer] = useState(false);
+const BookCard: React.FC<BookCardProps> = ({ book, index, onPress, progressPercent, length }) => {
+  const { currentTrack, isPlaying, playTrack, togglePlayPause } = usePlayback();
+  const { isLiked, toggleLike } = useLikes();
+  const liked = isLiked(book.id);
+  const { isSaved, toggleSave } = useSavedBooks();
+  const saved = isSaved(book.id);
+  const track = useMemo(() => bookToTrack(book), [book]);
+  const isAudioPlaying = !!track && currentTrack?.id === track.id && isPlaying;
   
+  // Playback goes through the shared player so it survives leaving this screen
   const toggleAudio = () => {
-    setIsAudioPlaying(!isAudioPlaying);
-    setShowAudioPlayer(!showAudioPlayer);
+    if (!track) return;
+
+    if (currentTrack?.id === track.id) {
+      togglePlayPause();
+    } else {
+      playTrack(track);
+    }
   };
   
   const handlePress = () => {
@@ -58,8 +79,8 @@ const BookCard: React.FC<BookCardProps> = ({ book, index, onPress }) => {
           </View>
         )}
         
-        {/* Audio button overlay */}
-        {book.audioUrl && (
+        {/* Audio button overlay; books without narration are read by the device's voice */}
+        {track && (
           <TouchableOpacity 
             style={styles.audioButton}
             onPress={(e) => {
@@ -81,37 +102,49 @@ const BookCard: React.FC<BookCardProps> = ({ book, index, onPress }) => {
             style={styles.actionButton}
             onPress={(e) => {
               e.stopPropagation();
-              // Handle like action
+              // Likes belong to an account, so guests are sent to sign in
+              if (!toggleLike(book)) {
+                router.push('/profile');
+              }
             }}
           >
-            <Ionicons name="heart-outline" size={22} color="#FFFFFF" />
+            <Ionicons name={liked ? 'heart' : 'heart-outline'} size={22} color={liked ? Colors.primary : '#FFFFFF'} />
           </TouchableOpacity>
           
           <TouchableOpacity 
             style={styles.actionButton}
             onPress={(e) => {
               e.stopPropagation();
-              // Handle save action
+              toggleSave(book);
             }}
           >
-            <Ionicons name="bookmark-outline" size={22} color="#FFFFFF" />
+            <Ionicons name={saved ? 'bookmark' : 'bookmark-outline'} size={22} color={saved ? Colors.success : '#FFFFFF'} />
           </TouchableOpacity>
           
           <TouchableOpacity 
             style={styles.actionButton}
             onPress={(e) => {
               e.stopPropagation();
-              // Handle share action
+              shareLink(book.title, getBookLink(book.id));
             }}
           >
             <Ionicons name="share-social-outline" size={22} color="#FFFFFF" />
           </TouchableOpacity>
         </View>
+        
+        {!!progressPercent && (
+          <View style={styles.progressBackground}>
+            <View style={[styles.progressFill, { width: `${progressPercent}%` }]} />
+          </View>
+        )}
       </View>
       
       <View style={styles.bookInfo}>
         <Text style={styles.bookTitle} numberOfLines={2}>{book.title}</Text>
         <Text style={styles.bookAuthor} numberOfLines={1}>{book.author}</Text>
+        {!!length && (
+          <Text style={styles.bookLength} numberOfLines={1}>{formatContentLength(length)}</Text>
+        )}
         
         {book.tags && book.tags.length > 0 && (
           <View style={styles.tagsContainer}>
@@ -126,20 +159,6 @@ const BookCard: React.FC<BookCardProps> = ({ book, index, onPress }) => {
           </View>
         )}
       </View>
-      
-      {/* Audio player (expanded) */}
-      {showAudioPlayer && book.audioUrl && (
-        <View style={styles.audioPlayerContainer}>
-          <AudioPlayer
-            audioUrl={book.audioUrl}
-            title={`${book.title} - ${book.author}`}
-            onClose={() => {
-              setShowAudioPlayer(false);
-              setIsAudioPlaying(false);
-            }}
-          />
-        </View>
-      )}
     </TouchableOpacity>
   );
 };
@@ -215,6 +234,18 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginLeft: 4,
   },
+  progressBackground: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    height: 4,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: Colors.primary,
+  },
   bookInfo: {
     padding: 12,
   },
@@ -229,6 +260,12 @@ const styles = StyleSheet.create({
     color: Colors.textSecondary,
     marginBottom: 8,
   },
+  bookLength: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginTop: -4,
+    marginBottom: 8,
+  },
   tagsContainer: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -253,11 +290,6 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginLeft: 2,
   },
-  audioPlayerContainer: {
-    borderTopWidth: 1,
-    borderTopColor: Colors.border,
-    padding: 8,
-  },
 });
 
 export default BookCard;
\ No newline at end of file
@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  Pressable,
+  TextInput,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import { useAuth } from '../context/AuthContext';
+
+interface ChangePasswordSheetProps {
+  visible: boolean;
+  // Called once the new password is in place
+  onChanged: () => void;
+  onClose: () => void;
+}
+
+// Firebase rejects anything shorter
+const MIN_PASSWORD_LENGTH = 6;
+
+/**
+ * Bottom sheet for choosing a new password. The current password is asked
+ * for again, since Firebase only lets recently signed-in users change it.
+ */
+const ChangePasswordSheet: React.FC<ChangePasswordSheetProps> = ({ visible, onChanged, onClose }) => {
+  const { changePassword } = useAuth();
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Never keep passwords around between openings
+  useEffect(() => {
+    if (visible) {
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      setError(null);
+    }
+  }, [visible]);
+
+  const handleSubmit = async () => {
+    if (!currentPassword) {
+      setError('Enter your current password.');
+    } else if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      setError(`Use at least ${MIN_PASSWORD_LENGTH} characters for the new password.`);
+    } else if (newPassword !== confirmPassword) {
+      setError('The new passwords don’t match.');
+    } else if (newPassword === currentPassword) {
+      setError('Choose a password different from your current one.');
+    } else {
+      setError(null);
+      setIsSubmitting(true);
+      try {
+        await changePassword(currentPassword, newPassword);
+        onChanged();
+      } catch (changeError) {
+        setError((changeError as Error).message);
+      } finally {
+        setIsSubmitting(false);
+      }
+    }
+  };
+
+  const renderInput = (
+    placeholder: string,
+    value: string,
+    onChangeText: (text: string) => void,
+    autoComplete: 'current-password' | 'new-password'
+  ) => (
+    <TextInput
+      style={styles.input}
+      placeholder={placeholder}
+      placeholderTextColor={Colors.textMuted}
+      value={value}
+      onChangeText={onChangeText}
+      secureTextEntry
+      autoComplete={autoComplete}
+      editable={!isSubmitting}
+    />
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView style={styles.flex} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <Pressable style={styles.backdrop} onPress={onClose}>
+          <Pressable style={styles.sheet} onPress={() => {}}>
+            <View style={styles.sheetHeader}>
+              <Text style={styles.sheetTitle}>Change Password</Text>
+              <TouchableOpacity onPress={onClose}>
+                <Ionicons name="close" size={24} color={Colors.textSecondary} />
+              </TouchableOpacity>
+            </View>
+
+            {renderInput('Current password', currentPassword, setCurrentPassword, 'current-password')}
+            {renderInput('New password', newPassword, setNewPassword, 'new-password')}
+            {renderInput('Confirm new password', confirmPassword, setConfirmPassword, 'new-password')}
+
+            {!!error && <Text style={styles.errorText}>{error}</Text>}
+
+            <TouchableOpacity
+              style={[styles.saveButton, isSubmitting && styles.buttonDisabled]}
+              onPress={handleSubmit}
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? (
+                <ActivityIndicator color={Colors.buttonText} />
+              ) : (
+                <Text style={styles.saveText}>Update Password</Text>
+              )}
+            </TouchableOpacity>
+          </Pressable>
+        </Pressable>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  flex: {
+    flex: 1,
+  },
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: Colors.overlay,
+  },
+  sheet: {
+    backgroundColor: Colors.cardBackground,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    paddingBottom: 32,
+  },
+  sheetHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  sheetTitle: {
+    color: Colors.textPrimary,
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  input: {
+    backgroundColor: Colors.inputBackground,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 8,
+    height: 50,
+    paddingHorizontal: 16,
+    color: Colors.textPrimary,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  errorText: {
+    color: Colors.error,
+    fontSize: 14,
+    marginBottom: 12,
+  },
+  saveButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: 8,
+    height: 50,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  saveText: {
+    color: Colors.buttonText,
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
+
+export default ChangePasswordSheet;
@@ -0,0 +1,221 @@
+import React, { useMemo } from 'react';
+import { View, StyleSheet } from 'react-native';
+import RenderHTML, {
+  defaultSystemFonts,
+  Element,
+  isDomElement,
+  MixedStyleDeclaration,
+  MixedStyleRecord,
+  Node,
+} from 'react-native-render-html';
+import { HighlightColors, ReaderFonts, ReaderThemes, SearchMatchColor } from '@/constants/ReaderThemes';
+import { processImageUrl } from '../r2/services';
+import { ReaderPalette, ReaderSettings } from '../types/reader';
+import { DEFAULT_READER_SETTINGS } from '../storage/readerSettings';
+import { HighlightRange, TextRange } from '../utils/highlights';
+import { markHtmlRanges } from '../utils/html';
+
+interface ChapterHtmlProps {
+  html: string;
+  // Width available to the text, used to scale images down to fit
+  contentWidth: number;
+  settings?: ReaderSettings;
+  // Highlights in the chapter's plain text, marked inline
+  highlights?: HighlightRange[];
+  // Matches for a search term, marked the same way
+  searchMatches?: TextRange[];
+}
+
+// Elements that are rendered. Anything else (scripts, styles, embeds, forms...) is dropped with its content.
+const ALLOWED_TAGS = new Set([
+  'html', 'body', 'div', 'section', 'article', 'header', 'footer', 'span',
+  'p', 'br', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'strong', 'b', 'em', 'i', 'u', 's', 'del', 'ins', 'mark', 'small', 'sub', 'sup',
+  'blockquote', 'q', 'cite', 'pre', 'code', 'abbr',
+  'ul', 'ol', 'li', 'dl', 'dt', 'dd',
+  'a', 'img', 'figure', 'figcaption',
+  'table', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td', 'caption',
+]);
+
+// Attributes kept per element; all others, including inline styles and classes, are removed
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href', 'title'],
+  mark: ['class'],
+  img: ['src', 'alt', 'width', 'height'],
+  ol: ['start'],
+  td: ['colspan', 'rowspan'],
+  th: ['colspan', 'rowspan'],
+};
+
+const SAFE_LINK = /^(https?:|mailto:)/i;
+
+// A scheme other than http(s) (javascript:, data:, ...) is never loaded; bare filenames are R2 images
+const SAFE_IMAGE_SOURCE = /^(https?:\/\/|[^:]+$)/i;
+
+const ignoreDomNode = (node: Node): boolean => {
+  if (!isDomElement(node)) return false;
+  if (!ALLOWED_TAGS.has(node.name)) return true;
+  return node.name === 'img' && !SAFE_IMAGE_SOURCE.test(node.attribs.src || '');
+};
+
+const domVisitors = {
+  onElement: (element: Element) => {
+    const allowed = ALLOWED_ATTRIBUTES[element.name] || [];
+    for (const name of Object.keys(element.attribs)) {
+      if (!allowed.includes(name)) {
+        delete element.attribs[name];
+      }
+    }
+
+    if (element.name === 'a' && element.attribs.href && !SAFE_LINK.test(element.attribs.href)) {
+      delete element.attribs.href;
+    }
+    if (element.name === 'img') {
+      element.attribs.src = processImageUrl(element.attribs.src);
+    }
+  },
+};
+
+// Highlights are wrapped in <mark class="highlight-{color}">, search matches in <mark class="search-match">
+const MARK_CLASSES_STYLES: MixedStyleRecord = {
+  ...Object.fromEntries(
+    Object.entries(HighlightColors).map(([color, backgroundColor]) => [`highlight-${color}`, { backgroundColor }])
+  ),
+  'search-match': { backgroundColor: SearchMatchColor },
+};
+
+const NO_RANGES: never[] = [];
+
+// Heading sizes relative to the body text, so they scale with the reader's font size
+const HEADING_SCALES = { h1: 1.6, h2: 1.375, h3: 1.2, h4: 1.06, h5: 1, h6: 0.94 };
+
+const buildTagsStyles = (palette: ReaderPalette, fontSize: number, lineSpacing: number): MixedStyleRecord => {
+  const headingStyles: Record<string, MixedStyleDeclaration> = {};
+  for (const [tag, scale] of Object.entries(HEADING_SCALES)) {
+    headingStyles[tag] = {
+      color: tag === 'h6' ? palette.secondaryText : palette.text,
+      fontWeight: 'bold',
+      fontSize: Math.round(fontSize * scale),
+      lineHeight: Math.round(fontSize * scale * Math.min(lineSpacing, 1.4)),
+      marginTop: 8,
+      marginBottom: 12,
+      textAlign: 'left',
+    };
+  }
+
+  return {
+    ...headingStyles,
+    p: { marginTop: 0, marginBottom: fontSize },
+    strong: { fontWeight: 'bold' },
+    b: { fontWeight: 'bold' },
+    em: { fontStyle: 'italic' },
+    i: { fontStyle: 'italic' },
+    cite: { fontStyle: 'italic' },
+    u: { textDecorationLine: 'underline' },
+    ins: { textDecorationLine: 'underline' },
+    s: { textDecorationLine: 'line-through' },
+    del: { textDecorationLine: 'line-through' },
+    mark: { backgroundColor: 'rgba(255,0,0,0.25)', color: palette.text },
+    small: { fontSize: Math.round(fontSize * 0.8) },
+    a: { color: palette.accent, textDecorationLine: 'underline' },
+    blockquote: {
+      marginTop: 0,
+      marginBottom: fontSize,
+      marginLeft: 0,
+      marginRight: 0,
+      paddingLeft: 14,
+      borderLeftWidth: 3,
+      borderLeftColor: palette.accent,
+      color: palette.secondaryText,
+      fontStyle: 'italic',
+    },
+    pre: {
+      backgroundColor: palette.codeBackground,
+      borderRadius: 6,
+      padding: 12,
+      marginTop: 0,
+      marginBottom: fontSize,
+    },
+    code: { backgroundColor: palette.codeBackground, color: palette.text },
+    ul: { marginTop: 0, marginBottom: fontSize, paddingLeft: 20 },
+    ol: { marginTop: 0, marginBottom: fontSize, paddingLeft: 20 },
+    li: { marginBottom: 6 },
+    hr: { backgroundColor: palette.border, height: 1, marginTop: 16, marginBottom: 24 },
+    img: { borderRadius: 8 },
+    figure: { marginTop: 0, marginBottom: fontSize, marginLeft: 0, marginRight: 0 },
+    figcaption: {
+      color: palette.secondaryText,
+      fontSize: Math.round(fontSize * 0.8),
+      textAlign: 'center',
+      marginTop: 6,
+    },
+    th: { fontWeight: 'bold', padding: 6, borderBottomWidth: 1, borderBottomColor: palette.border },
+    td: { padding: 6 },
+  };
+};
+
+/**
+ * Renders chapter HTML in the reader's chosen theme and typography. The markup
+ * is sanitized against an allow-list of tags and attributes first, and image
+ * paths are resolved to R2 URLs. Highlights are marked in the HTML before it
+ * is parsed, so they go through the same sanitizing.
+ */
+const ChapterHtml: React.FC<ChapterHtmlProps> = ({
+  html,
+  contentWidth,
+  settings = DEFAULT_READER_SETTINGS,
+  highlights = NO_RANGES,
+  searchMatches = NO_RANGES,
+}) => {
+  const { fontSize, fontFamily, lineSpacing, margin, textAlign, theme } = settings;
+  const palette = ReaderThemes[theme];
+  const font = ReaderFonts[fontFamily];
+
+  const source = useMemo(() => ({
+    html: markHtmlRanges(html, [
+      ...highlights.map(({ start, end, color }) => ({ start, end, className: `highlight-${color}` })),
+      ...searchMatches.map(({ start, end }) => ({ start, end, className: 'search-match' })),
+    ]),
+  }), [html, highlights, searchMatches]);
+  const baseStyle = useMemo<MixedStyleDeclaration>(() => ({
+    color: palette.text,
+    fontSize,
+    lineHeight: Math.round(fontSize * lineSpacing),
+    fontFamily: font.fontFamily,
+    letterSpacing: font.letterSpacing,
+    textAlign,
+  }), [palette, fontSize, lineSpacing, font, textAlign]);
+  const tagsStyles = useMemo(
+    () => buildTagsStyles(palette, fontSize, lineSpacing),
+    [palette, fontSize, lineSpacing]
+  );
+  // render-html drops any font family it doesn't know is installed
+  const systemFonts = useMemo(() => [...defaultSystemFonts, font.fontFamily], [font]);
+
+  return (
+    <View style={[styles.page, { backgroundColor: palette.background, paddingHorizontal: 12 + margin }]}>
+      <RenderHTML
+        source={source}
+        contentWidth={Math.max(contentWidth - 2 * (12 + margin), 0)}
+        baseStyle={baseStyle}
+        tagsStyles={tagsStyles}
+        classesStyles={MARK_CLASSES_STYLES}
+        ignoreDomNode={ignoreDomNode}
+        domVisitors={domVisitors}
+        systemFonts={systemFonts}
+        enableUserAgentStyles
+        // Inline styles are written for light pages and would fight the theme
+        enableCSSInlineProcessing={false}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  page: {
+    borderRadius: 8,
+    paddingVertical: 12,
+  },
+});
+
+export default ChapterHtml;
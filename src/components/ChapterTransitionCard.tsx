@@ -0,0 +1,89 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { ReaderPalette } from '../types/reader';
+
+interface ChapterTransitionCardProps {
+  nextChapterTitle: string;
+  palette: ReaderPalette;
+  onReadNext: () => void;
+  // Left out when the next chapter can't be played
+  onListenNext?: () => void;
+}
+
+/**
+ * Closes a chapter with the title of the one that follows, to carry on
+ * reading it or switch to listening
+ */
+const ChapterTransitionCard: React.FC<ChapterTransitionCardProps> = ({
+  nextChapterTitle,
+  palette,
+  onReadNext,
+  onListenNext,
+}) => {
+  return (
+    <View style={[styles.card, { backgroundColor: palette.background, borderColor: palette.border }]}>
+      <Text style={[styles.label, { color: palette.secondaryText }]}>End of chapter · Up next</Text>
+      <Text style={[styles.title, { color: palette.text }]} numberOfLines={2}>{nextChapterTitle}</Text>
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={[styles.button, { backgroundColor: palette.accent }]} onPress={onReadNext}>
+          <Text style={[styles.buttonText, { color: palette.background }]}>Read next</Text>
+          <Ionicons name="arrow-forward" size={18} color={palette.background} />
+        </TouchableOpacity>
+        {onListenNext && (
+          <TouchableOpacity style={[styles.button, styles.outlineButton, { borderColor: palette.accent }]} onPress={onListenNext}>
+            <Ionicons name="headset-outline" size={18} color={palette.accent} />
+            <Text style={[styles.buttonText, { color: palette.accent }]}>Listen instead</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 20,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 10,
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 20,
+  },
+  outlineButton: {
+    borderWidth: 1,
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+});
+
+export default ChapterTransitionCard;
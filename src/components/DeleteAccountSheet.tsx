@@ -0,0 +1,204 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  Pressable,
+  TextInput,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import { hasPasswordSignIn, useAuth } from '../context/AuthContext';
+
+interface DeleteAccountSheetProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Bottom sheet that confirms deleting the signed-in account. Users with a
+ * password type it to confirm; Google-only users sign in to Google again.
+ */
+const DeleteAccountSheet: React.FC<DeleteAccountSheetProps> = ({ visible, onClose }) => {
+  const { user, deleteAccount } = useAuth();
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const needsPassword = !!user && hasPasswordSignIn(user);
+
+  useEffect(() => {
+    if (visible) {
+      setPassword('');
+      setError(null);
+    }
+  }, [visible]);
+
+  const handleDelete = async () => {
+    if (needsPassword && !password) {
+      setError('Enter your password to confirm.');
+      return;
+    }
+
+    setError(null);
+    setIsDeleting(true);
+    try {
+      // Signing out unmounts the account page, and this sheet with it
+      await deleteAccount(needsPassword ? password : undefined);
+    } catch (deleteError) {
+      setError((deleteError as Error).message);
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView style={styles.flex} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <Pressable style={styles.backdrop} onPress={isDeleting ? undefined : onClose}>
+          <Pressable style={styles.sheet} onPress={() => {}}>
+            <View style={styles.sheetHeader}>
+              <Text style={styles.sheetTitle}>Delete Account</Text>
+              <TouchableOpacity onPress={onClose} disabled={isDeleting}>
+                <Ionicons name="close" size={24} color={Colors.textSecondary} />
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.warningText}>
+              This permanently deletes your account along with your liked and saved books and the reading
+              progress synced to it. Downloads and settings on this device are kept. This can’t be undone.
+            </Text>
+
+            {needsPassword ? (
+              <TextInput
+                style={styles.input}
+                placeholder="Your password"
+                placeholderTextColor={Colors.textMuted}
+                value={password}
+                onChangeText={setPassword}
+                secureTextEntry
+                autoComplete="current-password"
+                editable={!isDeleting}
+                onSubmitEditing={handleDelete}
+              />
+            ) : (
+              <Text style={styles.hintText}>You’ll be asked to sign in with Google once more to confirm.</Text>
+            )}
+
+            {!!error && <Text style={styles.errorText}>{error}</Text>}
+
+            <View style={styles.actions}>
+              <TouchableOpacity style={styles.cancelButton} onPress={onClose} disabled={isDeleting}>
+                <Text style={styles.cancelText}>Keep Account</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.deleteButton, isDeleting && styles.buttonDisabled]}
+                onPress={handleDelete}
+                disabled={isDeleting}
+              >
+                {isDeleting ? (
+                  <ActivityIndicator color={Colors.buttonText} />
+                ) : (
+                  <Text style={styles.deleteText}>Delete Forever</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </Pressable>
+        </Pressable>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  flex: {
+    flex: 1,
+  },
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: Colors.overlay,
+  },
+  sheet: {
+    backgroundColor: Colors.cardBackground,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    paddingBottom: 32,
+  },
+  sheetHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  sheetTitle: {
+    color: Colors.textPrimary,
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  warningText: {
+    color: Colors.textSecondary,
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  hintText: {
+    color: Colors.textMuted,
+    fontSize: 14,
+    marginBottom: 12,
+  },
+  input: {
+    backgroundColor: Colors.inputBackground,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 8,
+    height: 50,
+    paddingHorizontal: 16,
+    color: Colors.textPrimary,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  errorText: {
+    color: Colors.error,
+    fontSize: 14,
+    marginBottom: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  cancelButton: {
+    height: 44,
+    paddingHorizontal: 16,
+    justifyContent: 'center',
+    marginRight: 8,
+  },
+  cancelText: {
+    color: Colors.textSecondary,
+    fontWeight: 'bold',
+  },
+  deleteButton: {
+    backgroundColor: Colors.error,
+    borderRadius: 8,
+    height: 44,
+    paddingHorizontal: 24,
+    justifyContent: 'center',
+  },
+  deleteText: {
+    color: Colors.buttonText,
+    fontWeight: 'bold',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
+
+export default DeleteAccountSheet;
@@ -0,0 +1,141 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { HighlightColors, ReaderFonts, ReaderThemes } from '@/constants/ReaderThemes';
+import { ReaderSettings } from '../types/reader';
+import { HighlightRange } from '../utils/highlights';
+
+// A passage picked in the chapter text, end exclusive
+export interface TextSelection {
+  start: number;
+  end: number;
+  quote: string;
+}
+
+interface HighlightSelectorProps {
+  // Plain text of the chapter, e.g. from formatHtmlContent
+  text: string;
+  settings: ReaderSettings;
+  // Existing highlights, shown so new ones can be placed around them
+  highlights: HighlightRange[];
+  // A passage waiting to be saved, kept marked while it is
+  selection?: { start: number; end: number } | null;
+  onSelect: (selection: TextSelection) => void;
+}
+
+// A word or the gap after it, with its offsets in the chapter text
+interface TextPiece {
+  text: string;
+  start: number;
+  end: number;
+  isWord: boolean;
+}
+
+const SELECTION_COLOR = 'rgba(255,0,0,0.3)';
+
+/**
+ * Shows a chapter's text for picking a passage to highlight: tap the first
+ * word, then the last (or the same word again for just that word)
+ */
+const HighlightSelector: React.FC<HighlightSelectorProps> = ({ text, settings, highlights, selection, onSelect }) => {
+  const { fontSize, fontFamily, lineSpacing, margin, textAlign, theme } = settings;
+  const palette = ReaderThemes[theme];
+  const font = ReaderFonts[fontFamily];
+  // The word tapped first, while waiting for the last one
+  const [anchor, setAnchor] = useState<TextPiece | null>(null);
+
+  // Each line of the text as words and the whitespace between them
+  const paragraphs = useMemo(() => {
+    const result: TextPiece[][] = [];
+    for (const line of text.matchAll(/[^\n]+/g)) {
+      const lineStart = line.index ?? 0;
+      const pieces: TextPiece[] = [];
+      for (const piece of line[0].matchAll(/\S+|\s+/g)) {
+        const start = lineStart + (piece.index ?? 0);
+        pieces.push({ text: piece[0], start, end: start + piece[0].length, isWord: !!piece[0].trim() });
+      }
+      result.push(pieces);
+    }
+    return result;
+  }, [text]);
+
+  const marked = anchor ?? selection;
+  const paragraphStyle = {
+    color: palette.text,
+    fontSize,
+    lineHeight: Math.round(fontSize * lineSpacing),
+    fontFamily: font.fontFamily,
+    letterSpacing: font.letterSpacing,
+    textAlign,
+    marginBottom: fontSize,
+  };
+
+  const getBackground = (piece: TextPiece): string | undefined => {
+    if (marked && piece.start < marked.end && piece.end > marked.start && (piece.isWord || piece.end < marked.end)) {
+      return SELECTION_COLOR;
+    }
+    const highlight = highlights.find(range =>
+      piece.isWord ? piece.start < range.end && piece.end > range.start : piece.start >= range.start && piece.end <= range.end
+    );
+    return highlight ? HighlightColors[highlight.color] : undefined;
+  };
+
+  const handleWordPress = (word: TextPiece) => {
+    if (!anchor) {
+      setAnchor(word);
+      return;
+    }
+
+    const start = Math.min(anchor.start, word.start);
+    const end = Math.max(anchor.end, word.end);
+    setAnchor(null);
+    onSelect({ start, end, quote: text.slice(start, end) });
+  };
+
+  return (
+    <View style={[styles.page, { backgroundColor: palette.background, paddingHorizontal: 12 + margin }]}>
+      <View style={[styles.hint, { borderColor: palette.border }]}>
+        <Ionicons name="brush-outline" size={16} color={palette.accent} />
+        <Text style={[styles.hintText, { color: palette.secondaryText }]}>
+          {anchor ? 'Now tap the last word of the passage' : 'Tap the first word of the passage to highlight'}
+        </Text>
+      </View>
+
+      {paragraphs.map(pieces => (
+        <Text key={pieces[0]?.start} style={paragraphStyle}>
+          {pieces.map(piece => (
+            <Text
+              key={piece.start}
+              style={{ backgroundColor: getBackground(piece) }}
+              onPress={piece.isWord ? () => handleWordPress(piece) : undefined}
+            >
+              {piece.text}
+            </Text>
+          ))}
+        </Text>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  page: {
+    borderRadius: 8,
+    paddingVertical: 12,
+  },
+  hint: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 8,
+    marginBottom: 12,
+  },
+  hintText: {
+    fontSize: 13,
+    marginLeft: 6,
+    flex: 1,
+  },
+});
+
+export default HighlightSelector;
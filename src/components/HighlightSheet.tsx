@@ -0,0 +1,209 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  Pressable,
+  TextInput,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import { HighlightColors } from '@/constants/ReaderThemes';
+import { HighlightColor } from '../types/reader';
+
+interface HighlightSheetProps {
+  visible: boolean;
+  // The passage being highlighted
+  quote: string;
+  initialColor?: HighlightColor;
+  initialNote?: string;
+  onSave: (color: HighlightColor, note: string) => void;
+  // Shown as a delete action when editing a highlight that already exists
+  onDelete?: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Bottom sheet for picking a highlight's color and writing a note on it, used
+ * both when creating a highlight and when editing one
+ */
+const HighlightSheet: React.FC<HighlightSheetProps> = ({
+  visible,
+  quote,
+  initialColor = 'yellow',
+  initialNote = '',
+  onSave,
+  onDelete,
+  onClose,
+}) => {
+  const [color, setColor] = useState<HighlightColor>(initialColor);
+  const [note, setNote] = useState(initialNote);
+
+  // Start from the highlight's own values each time the sheet opens
+  useEffect(() => {
+    if (visible) {
+      setColor(initialColor);
+      setNote(initialNote);
+    }
+  }, [visible, initialColor, initialNote]);
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView style={styles.flex} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <Pressable style={styles.backdrop} onPress={onClose}>
+          <Pressable style={styles.sheet} onPress={() => {}}>
+            <View style={styles.sheetHeader}>
+              <Text style={styles.sheetTitle}>{onDelete ? 'Edit Highlight' : 'New Highlight'}</Text>
+              <TouchableOpacity onPress={onClose}>
+                <Ionicons name="close" size={24} color={Colors.textSecondary} />
+              </TouchableOpacity>
+            </View>
+
+            <View style={[styles.quote, { borderLeftColor: HighlightColors[color] }]}>
+              <Text style={styles.quoteText} numberOfLines={4}>{quote}</Text>
+            </View>
+
+            <View style={styles.colorRow}>
+              {(Object.keys(HighlightColors) as HighlightColor[]).map(option => (
+                <TouchableOpacity
+                  key={option}
+                  style={[
+                    styles.colorSwatch,
+                    { backgroundColor: HighlightColors[option] },
+                    color === option && styles.colorSwatchSelected,
+                  ]}
+                  onPress={() => setColor(option)}
+                >
+                  {color === option && <Ionicons name="checkmark" size={18} color={Colors.textPrimary} />}
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <TextInput
+              style={styles.noteInput}
+              placeholder="Add a note (optional)"
+              placeholderTextColor={Colors.textMuted}
+              value={note}
+              onChangeText={setNote}
+              multiline
+            />
+
+            <View style={styles.actions}>
+              {onDelete && (
+                <TouchableOpacity style={styles.deleteButton} onPress={onDelete}>
+                  <Ionicons name="trash-outline" size={18} color={Colors.primary} />
+                  <Text style={styles.deleteText}>Delete</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity style={styles.saveButton} onPress={() => onSave(color, note)}>
+                <Text style={styles.saveText}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          </Pressable>
+        </Pressable>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  flex: {
+    flex: 1,
+  },
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: Colors.overlay,
+  },
+  sheet: {
+    backgroundColor: Colors.cardBackground,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    paddingBottom: 32,
+  },
+  sheetHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  sheetTitle: {
+    color: Colors.textPrimary,
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  quote: {
+    borderLeftWidth: 4,
+    paddingLeft: 12,
+    marginBottom: 16,
+  },
+  quoteText: {
+    color: Colors.textSecondary,
+    fontSize: 14,
+    fontStyle: 'italic',
+    lineHeight: 20,
+  },
+  colorRow: {
+    flexDirection: 'row',
+    marginBottom: 16,
+  },
+  colorSwatch: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    marginRight: 12,
+    borderWidth: 2,
+    borderColor: 'transparent',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  colorSwatchSelected: {
+    borderColor: Colors.textPrimary,
+  },
+  noteInput: {
+    backgroundColor: Colors.inputBackground,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 8,
+    minHeight: 88,
+    padding: 12,
+    color: Colors.textPrimary,
+    fontSize: 14,
+    textAlignVertical: 'top',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  deleteButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 'auto',
+  },
+  deleteText: {
+    color: Colors.primary,
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  saveButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: 8,
+    height: 44,
+    paddingHorizontal: 24,
+    justifyContent: 'center',
+  },
+  saveText: {
+    color: Colors.buttonText,
+    fontWeight: 'bold',
+  },
+});
+
+export default HighlightSheet;
@@ -0,0 +1,226 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Image,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { Colors } from '@/constants/Colors';
+import { usePlayback } from '../context/PlaybackContext';
+import { useSleepTimer } from '../context/SleepTimerContext';
+import { formatTime } from '../utils/time';
+
+/**
+ * Compact player docked above the tab bar. Renders nothing until something
+ * has been loaded into the shared PlaybackProvider.
+ */
+const MiniPlayer: React.FC = () => {
+  const {
+    currentTrack,
+    isPlaying,
+    isLoading,
+    position,
+    duration,
+    error,
+    needsFallback,
+    isSynthesized,
+    hasNext,
+    togglePlayPause,
+    skipNext,
+    dismiss,
+  } = usePlayback();
+  const sleepTimer = useSleepTimer();
+  const [isCollapsed, setIsCollapsed] = useState(false);
+
+  if (!currentTrack) {
+    return null;
+  }
+
+  const progressPercentage = duration > 0 ? (position / duration) * 100 : 0;
+
+  const openBook = () => {
+    if (currentTrack.bookId) {
+      router.push({
+        pathname: '/book/[id]',
+        params: currentTrack.chapterId
+          ? { id: currentTrack.bookId, chapterId: currentTrack.chapterId }
+          : { id: currentTrack.bookId }
+      });
+    }
+  };
+
+  const playPauseButton = needsFallback ? (
+    // Nothing to play for this item; the reader is the fallback
+    <TouchableOpacity style={styles.iconButton} onPress={openBook}>
+      <Ionicons name="book-outline" size={22} color={Colors.textPrimary} />
+    </TouchableOpacity>
+  ) : isLoading ? (
+    <ActivityIndicator size="small" color={Colors.primary} style={styles.iconButton} />
+  ) : (
+    <TouchableOpacity style={styles.iconButton} onPress={togglePlayPause} disabled={!!error}>
+      <Ionicons
+        name={isPlaying ? 'pause' : 'play'}
+        size={24}
+        color={error ? Colors.textMuted : Colors.textPrimary}
+      />
+    </TouchableOpacity>
+  );
+
+  if (isCollapsed) {
+    return (
+      <View style={styles.collapsedContainer}>
+        <TouchableOpacity style={styles.iconButton} onPress={() => setIsCollapsed(false)}>
+          <Ionicons name="chevron-up" size={18} color={Colors.textSecondary} />
+        </TouchableOpacity>
+        <Text style={styles.collapsedTitle} numberOfLines={1}>{currentTrack.title}</Text>
+        {playPauseButton}
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.progressBarBackground}>
+        <View style={[styles.progressBarFill, { width: `${progressPercentage}%` }]} />
+      </View>
+
+      <View style={styles.row}>
+        <TouchableOpacity style={styles.trackInfo} onPress={openBook} activeOpacity={0.8}>
+          {currentTrack.artworkUrl ? (
+            <Image source={{ uri: currentTrack.artworkUrl }} style={styles.artwork} />
+          ) : (
+            <View style={[styles.artwork, styles.artworkPlaceholder]}>
+              <Ionicons name="musical-notes" size={20} color={Colors.textMuted} />
+            </View>
+          )}
+          <View style={styles.textContainer}>
+            <Text style={styles.title} numberOfLines={1}>{currentTrack.title}</Text>
+            <Text style={styles.subtitle} numberOfLines={1}>
+              {error
+                ? error
+                : needsFallback
+                ? 'No narration · tap to read'
+                : `${formatTime(position)} / ${formatTime(duration)}${
+                    isSynthesized ? ' · Synthesized voice' : currentTrack.subtitle ? ` · ${currentTrack.subtitle}` : ''
+                  }`}
+            </Text>
+          </View>
+        </TouchableOpacity>
+
+        {/* Tapping the countdown extends the sleep timer */}
+        {sleepTimer.mode !== 'off' && (
+          <TouchableOpacity style={styles.sleepTimer} onPress={sleepTimer.extendTimer}>
+            <Ionicons name="moon" size={14} color={Colors.primary} />
+            <Text style={styles.sleepTimerText}>
+              {sleepTimer.remainingMillis !== null ? formatTime(sleepTimer.remainingMillis) : 'End'}
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {playPauseButton}
+
+        {hasNext && (
+          <TouchableOpacity style={styles.iconButton} onPress={skipNext}>
+            <Ionicons name="play-skip-forward" size={20} color={Colors.textPrimary} />
+          </TouchableOpacity>
+        )}
+
+        <TouchableOpacity style={styles.iconButton} onPress={() => router.push('/queue')}>
+          <Ionicons name="list" size={20} color={Colors.textSecondary} />
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.iconButton} onPress={() => setIsCollapsed(true)}>
+          <Ionicons name="chevron-down" size={20} color={Colors.textSecondary} />
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.iconButton} onPress={dismiss}>
+          <Ionicons name="close" size={20} color={Colors.textSecondary} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: Colors.cardBackground,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  collapsedContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.cardBackground,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+    paddingHorizontal: 8,
+    height: 36,
+  },
+  collapsedTitle: {
+    flex: 1,
+    color: Colors.textSecondary,
+    fontSize: 13,
+  },
+  progressBarBackground: {
+    height: 2,
+    backgroundColor: Colors.border,
+  },
+  progressBarFill: {
+    height: '100%',
+    backgroundColor: Colors.primary,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  trackInfo: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  artwork: {
+    width: 40,
+    height: 40,
+    borderRadius: 4,
+    marginRight: 10,
+  },
+  artworkPlaceholder: {
+    backgroundColor: Colors.inputBackground,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  textContainer: {
+    flex: 1,
+  },
+  title: {
+    color: Colors.textPrimary,
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  subtitle: {
+    color: Colors.textSecondary,
+    fontSize: 12,
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: 6,
+  },
+  sleepTimer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 6,
+  },
+  sleepTimerText: {
+    color: Colors.primary,
+    fontSize: 11,
+    marginLeft: 3,
+  },
+});
+
+export default MiniPlayer;
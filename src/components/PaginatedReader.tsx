@@ -0,0 +1,263 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  Platform,
+  NativeSyntheticEvent,
+  NativeScrollEvent,
+  TextLayoutEventData,
+} from 'react-native';
+import { HighlightColors, ReaderFonts, ReaderThemes, SearchMatchColor } from '@/constants/ReaderThemes';
+import { ReaderSettings } from '../types/reader';
+import { estimateLines, Page, splitLinesIntoPages } from '../utils/pagination';
+import { HighlightRange, splitTextByRanges, TextRange } from '../utils/highlights';
+import ReaderGestures, { ReaderEdge } from './ReaderGestures';
+import ChapterTransitionCard from './ChapterTransitionCard';
+
+interface PaginatedReaderProps {
+  // Plain text of the chapter, e.g. from formatHtmlContent
+  text: string;
+  settings: ReaderSettings;
+  width: number;
+  height: number;
+  // Where to open, from 0 (first page) to 1 (last page)
+  initialProgress?: number;
+  // Called with the fraction of the chapter paged through after each page turn
+  onProgressChange?: (progress: number) => void;
+  // Highlights in the text, marked on the pages they fall on
+  highlights?: HighlightRange[];
+  // Matches for a search term, marked the same way
+  searchMatches?: TextRange[];
+  nextChapterTitle?: string;
+  onNextChapter?: () => void;
+  onPreviousChapter?: () => void;
+  // Offered on the closing page, to play the next chapter instead of reading it
+  onListenNext?: () => void;
+  onDoubleTap?: () => void;
+}
+
+const PAGE_PADDING_VERTICAL = 16;
+
+// Marks the page after the last one, which announces (and rolls into) the next chapter
+const END_PAGE = '\u0000end';
+
+/**
+ * Shows a chapter one screen-sized page at a time. The text is laid out once
+ * off-screen with the reader's font settings and split into pages at line
+ * boundaries. Swipe or tap the page edges to turn pages; turning past the
+ * last page moves on to the next chapter, after a page introducing it.
+ */
+const PaginatedReader: React.FC<PaginatedReaderProps> = ({
+  text,
+  settings,
+  width,
+  height,
+  initialProgress = 0,
+  onProgressChange,
+  highlights = [],
+  searchMatches = [],
+  nextChapterTitle,
+  onNextChapter,
+  onPreviousChapter,
+  onListenNext,
+  onDoubleTap,
+}) => {
+  const { fontSize, fontFamily, lineSpacing, margin, textAlign, theme } = settings;
+  const palette = ReaderThemes[theme];
+  const font = ReaderFonts[fontFamily];
+  const lineHeight = Math.round(fontSize * lineSpacing);
+  const textWidth = Math.max(width - 2 * (12 + margin), 0);
+  // Leave room for the page counter below the text
+  const textHeight = Math.max(height - 2 * PAGE_PADDING_VERTICAL - 32, lineHeight);
+
+  const textStyle = {
+    color: palette.text,
+    fontSize,
+    lineHeight,
+    fontFamily: font.fontFamily,
+    letterSpacing: font.letterSpacing,
+    textAlign,
+  };
+
+  const layoutKey = [text.length, fontSize, fontFamily, lineSpacing, margin, textAlign, width, height].join('|');
+  const [measured, setMeasured] = useState<{ key: string; pages: Page[] } | null>(null);
+  const listRef = useRef<FlatList<string>>(null);
+  // How far through the chapter the reader is, so re-paginating keeps their place
+  const progressRef = useRef(initialProgress);
+
+  // react-native-web doesn't report text layout, so pages are estimated there
+  const estimatedPages = useMemo(() => {
+    if (Platform.OS !== 'web') return null;
+    return splitLinesIntoPages(
+      estimateLines(text, textWidth, fontSize, lineHeight, font.letterSpacing),
+      textHeight
+    );
+  }, [text, textWidth, fontSize, lineHeight, font, textHeight]);
+
+  const pages = estimatedPages ?? (measured?.key === layoutKey ? measured.pages : null);
+
+  const marks = useMemo(
+    () => [
+      ...highlights.map(({ start, end, color }) => ({ start, end, backgroundColor: HighlightColors[color] })),
+      ...searchMatches.map(({ start, end }) => ({ start, end, backgroundColor: SearchMatchColor })),
+    ].sort((a, b) => a.start - b.start),
+    [highlights, searchMatches]
+  );
+
+  const handleTextLayout = (event: NativeSyntheticEvent<TextLayoutEventData>) => {
+    setMeasured({ key: layoutKey, pages: splitLinesIntoPages(event.nativeEvent.lines, textHeight) });
+  };
+
+  const initialIndex = pages ? Math.round(progressRef.current * Math.max(pages.length - 1, 0)) : 0;
+
+  const updateProgress = (index: number) => {
+    if (!pages) return;
+    // Reaching the last page counts as having read the whole chapter
+    progressRef.current = pages.length > 1 ? index / (pages.length - 1) : 1;
+    onProgressChange?.(progressRef.current);
+  };
+
+  const showPage = (index: number) => {
+    if (!pages) return;
+
+    if (index < 0) {
+      onPreviousChapter?.();
+      return;
+    }
+    if (index >= pages.length) {
+      // The closing page comes first, then turning past it rolls over
+      if (index > pages.length && onNextChapter) {
+        onNextChapter();
+      } else {
+        listRef.current?.scrollToIndex({ index: pages.length, animated: true });
+      }
+      return;
+    }
+
+    updateProgress(index);
+    listRef.current?.scrollToIndex({ index, animated: true });
+  };
+
+  const handleMomentumScrollEnd = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    if (!pages) return;
+
+    const index = Math.round(event.nativeEvent.contentOffset.x / width);
+    if (index < pages.length) {
+      updateProgress(index);
+    }
+  };
+
+  // Tapping the left or right third of a page turns it
+  const handleEdgeTap = (edge: ReaderEdge, index: number) => {
+    showPage(index + (edge === 'left' ? -1 : 1));
+  };
+
+  const renderPage = ({ item, index }: { item: string; index: number }) => {
+    if (item === END_PAGE) {
+      return (
+        <ReaderGestures
+          style={[styles.page, styles.endPage, { width, height, backgroundColor: palette.background }]}
+          onEdgeTap={(edge) => handleEdgeTap(edge, index)}
+          onDoubleTap={onDoubleTap}
+        >
+          {nextChapterTitle && onNextChapter ? (
+            <ChapterTransitionCard
+              nextChapterTitle={nextChapterTitle}
+              palette={palette}
+              onReadNext={onNextChapter}
+              onListenNext={onListenNext}
+            />
+          ) : (
+            <Text style={[styles.endTitle, { color: palette.text }]}>The End</Text>
+          )}
+        </ReaderGestures>
+      );
+    }
+
+    return (
+      <ReaderGestures
+        style={[
+          styles.page,
+          { width, height, backgroundColor: palette.background, paddingHorizontal: 12 + margin },
+        ]}
+        onEdgeTap={(edge) => handleEdgeTap(edge, index)}
+        onDoubleTap={onDoubleTap}
+      >
+        <View style={{ height: textHeight, overflow: 'hidden' }}>
+          <Text style={textStyle}>
+            {splitTextByRanges(item, marks, pages?.[index].start).map(segment =>
+              segment.range ? (
+                <Text key={segment.start} style={{ backgroundColor: segment.range.backgroundColor }}>
+                  {segment.text}
+                </Text>
+              ) : (
+                segment.text
+              )
+            )}
+          </Text>
+        </View>
+        <Text style={[styles.pageCounter, { color: palette.secondaryText }]}>
+          Page {index + 1} of {pages?.length ?? 1}
+        </Text>
+      </ReaderGestures>
+    );
+  };
+
+  return (
+    <View style={{ width, height, backgroundColor: palette.background, borderRadius: 8, overflow: 'hidden' }}>
+      {!pages && (
+        // Laid out off-screen at the page width to find where each line breaks
+        <View style={[styles.measurer, { width: textWidth }]} pointerEvents="none">
+          <Text style={textStyle} onTextLayout={handleTextLayout}>{text}</Text>
+        </View>
+      )}
+
+      {pages && (
+        <FlatList
+          key={layoutKey}
+          ref={listRef}
+          data={[...pages.map(page => page.text), END_PAGE]}
+          keyExtractor={(_, index) => index.toString()}
+          renderItem={renderPage}
+          horizontal
+          pagingEnabled
+          showsHorizontalScrollIndicator={false}
+          initialScrollIndex={initialIndex}
+          getItemLayout={(_, index) => ({ length: width, offset: width * index, index })}
+          onMomentumScrollEnd={handleMomentumScrollEnd}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  measurer: {
+    position: 'absolute',
+    opacity: 0,
+    left: 0,
+    top: 0,
+  },
+  page: {
+    paddingVertical: PAGE_PADDING_VERTICAL,
+  },
+  pageCounter: {
+    fontSize: 12,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  endPage: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+  },
+  endTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 16,
+  },
+});
+
+export default PaginatedReader;
@@ -0,0 +1,222 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  useWindowDimensions,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import { Book, Chapter, Paragraph } from '../types/book';
+import { getParagraphs } from '../firebase/services';
+import { usePlayback } from '../context/PlaybackContext';
+import { paragraphsToQueue } from '../utils/tracks';
+import { formatHtmlContent } from '../utils/html';
+
+interface ReadAlongViewProps {
+  book: Book;
+  chapter: Chapter;
+}
+
+/**
+ * Plays a chapter's paragraph narrations in sequence through the shared player,
+ * highlighting and scrolling to the paragraph that is being spoken.
+ */
+const ReadAlongView: React.FC<ReadAlongViewProps> = ({ book, chapter }) => {
+  const {
+    currentTrack,
+    isPlaying,
+    isLoading,
+    playQueue,
+    togglePlayPause,
+    skipNext,
+    skipPrevious,
+  } = usePlayback();
+  const { height } = useWindowDimensions();
+  const [paragraphs, setParagraphs] = useState<Paragraph[]>([]);
+  const [loading, setLoading] = useState(true);
+  const scrollRef = useRef<ScrollView>(null);
+  // Offsets of each paragraph inside the scroll view, filled in by onLayout
+  const paragraphOffsets = useRef<Record<string, number>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadParagraphs = async () => {
+      setLoading(true);
+      const result = await getParagraphs(book.id, chapter.id);
+      if (!cancelled) {
+        setParagraphs([...result].sort((a, b) => a.order - b.order));
+        setLoading(false);
+      }
+    };
+
+    paragraphOffsets.current = {};
+    loadParagraphs();
+    return () => {
+      cancelled = true;
+    };
+  }, [book.id, chapter.id]);
+
+  const queue = useMemo(() => paragraphsToQueue(book, chapter, paragraphs), [book, chapter, paragraphs]);
+  const hasNarration = queue.some(track => track.audioUrl);
+
+  const activeParagraphId = currentTrack?.chapterId === chapter.id ? currentTrack.paragraphId : undefined;
+  const isReadAlongActive = !!activeParagraphId;
+
+  // Keep the paragraph being spoken in view
+  useEffect(() => {
+    if (!activeParagraphId) return;
+
+    const offset = paragraphOffsets.current[activeParagraphId];
+    if (offset !== undefined) {
+      scrollRef.current?.scrollTo({ y: Math.max(offset - 24, 0), animated: true });
+    }
+  }, [activeParagraphId]);
+
+  const playFrom = (index: number) => {
+    playQueue(queue, index);
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="small" color={Colors.primary} />
+        <Text style={styles.mutedText}>Loading read-along...</Text>
+      </View>
+    );
+  }
+
+  if (paragraphs.length === 0 || !hasNarration) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons name="volume-mute-outline" size={24} color={Colors.textMuted} />
+        <Text style={styles.mutedText}>Read-along isn&apos;t available for this episode yet.</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View>
+      <View style={styles.controls}>
+        <TouchableOpacity style={styles.controlButton} onPress={skipPrevious} disabled={!isReadAlongActive}>
+          <Ionicons
+            name="play-skip-back"
+            size={20}
+            color={isReadAlongActive ? Colors.textPrimary : Colors.textMuted}
+          />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.playButton}
+          onPress={() => (isReadAlongActive ? togglePlayPause() : playFrom(0))}
+        >
+          {isReadAlongActive && isLoading ? (
+            <ActivityIndicator size="small" color={Colors.buttonText} />
+          ) : (
+            <Ionicons
+              name={isReadAlongActive && isPlaying ? 'pause' : 'play'}
+              size={22}
+              color={Colors.buttonText}
+            />
+          )}
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.controlButton} onPress={skipNext} disabled={!isReadAlongActive}>
+          <Ionicons
+            name="play-skip-forward"
+            size={20}
+            color={isReadAlongActive ? Colors.textPrimary : Colors.textMuted}
+          />
+        </TouchableOpacity>
+      </View>
+      <Text style={styles.hintText}>Tap a paragraph to start listening from there</Text>
+
+      <ScrollView
+        ref={scrollRef}
+        nestedScrollEnabled
+        style={{ maxHeight: height * 0.6 }}
+      >
+        {paragraphs.map((paragraph, index) => {
+          const isActive = paragraph.id === activeParagraphId;
+          return (
+            <TouchableOpacity
+              key={paragraph.id}
+              activeOpacity={0.7}
+              onPress={() => playFrom(index)}
+              onLayout={(event) => {
+                paragraphOffsets.current[paragraph.id] = event.nativeEvent.layout.y;
+              }}
+              style={[styles.paragraph, isActive && styles.paragraphActive]}
+            >
+              <Text style={[styles.paragraphText, !paragraph.audioUrl && styles.paragraphTextSilent]}>
+                {formatHtmlContent(paragraph.content)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  centered: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  mutedText: {
+    color: Colors.textMuted,
+    fontSize: 14,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  controls: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  controlButton: {
+    padding: 10,
+  },
+  playButton: {
+    backgroundColor: Colors.primary,
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginHorizontal: 16,
+  },
+  hintText: {
+    color: Colors.textMuted,
+    fontSize: 12,
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  paragraph: {
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    marginBottom: 6,
+    borderRadius: 6,
+    borderLeftWidth: 3,
+    borderLeftColor: 'transparent',
+  },
+  paragraphActive: {
+    backgroundColor: 'rgba(255,0,0,0.12)',
+    borderLeftColor: Colors.primary,
+  },
+  paragraphText: {
+    fontSize: 16,
+    color: Colors.textPrimary,
+    lineHeight: 24,
+  },
+  paragraphTextSilent: {
+    color: Colors.textSecondary,
+  },
+});
+
+export default ReadAlongView;
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { StyleProp, View, ViewStyle } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+
+// A horizontal drag this long, or a flick this fast, counts as a swipe
+const SWIPE_DISTANCE = 80;
+const SWIPE_VELOCITY = 600;
+
+export type ReaderEdge = 'left' | 'right';
+
+interface ReaderGesturesProps {
+  children: React.ReactNode;
+  style?: StyleProp<ViewStyle>;
+  // Swiping toward the left moves forward, as when turning a page
+  onSwipeLeft?: () => void;
+  onSwipeRight?: () => void;
+  onDoubleTap?: () => void;
+  // A single tap on the left or right third of the area
+  onEdgeTap?: (edge: ReaderEdge) => void;
+}
+
+/**
+ * Adds the reader's touch controls to whatever it wraps. Vertical drags are
+ * left to the scroll view underneath, and single taps wait briefly to make
+ * sure they aren't the start of a double tap.
+ */
+const ReaderGestures: React.FC<ReaderGesturesProps> = ({
+  children,
+  style,
+  onSwipeLeft,
+  onSwipeRight,
+  onDoubleTap,
+  onEdgeTap,
+}) => {
+  const [width, setWidth] = useState(0);
+
+  const swipe = Gesture.Pan()
+    .enabled(!!onSwipeLeft || !!onSwipeRight)
+    .activeOffsetX([-20, 20])
+    .failOffsetY([-15, 15])
+    .runOnJS(true)
+    .onEnd(event => {
+      if (Math.abs(event.translationX) < SWIPE_DISTANCE && Math.abs(event.velocityX) < SWIPE_VELOCITY) return;
+      if (event.translationX < 0) {
+        onSwipeLeft?.();
+      } else {
+        onSwipeRight?.();
+      }
+    });
+
+  const doubleTap = Gesture.Tap()
+    .enabled(!!onDoubleTap)
+    .numberOfTaps(2)
+    .runOnJS(true)
+    .onEnd((_, success) => {
+      if (success) onDoubleTap?.();
+    });
+
+  const edgeTap = Gesture.Tap()
+    .enabled(!!onEdgeTap)
+    .runOnJS(true)
+    .onEnd((event, success) => {
+      if (!success || width <= 0) return;
+      if (event.x < width / 3) {
+        onEdgeTap?.('left');
+      } else if (event.x > (width * 2) / 3) {
+        onEdgeTap?.('right');
+      }
+    });
+
+  return (
+    <GestureDetector gesture={Gesture.Race(swipe, Gesture.Exclusive(doubleTap, edgeTap))}>
+      <View style={style} onLayout={(event) => setWidth(event.nativeEvent.layout.width)}>
+        {children}
+      </View>
+    </GestureDetector>
+  );
+};
+
+export default ReaderGestures;
@@ -0,0 +1,256 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  Pressable,
+  ScrollView,
+  useWindowDimensions,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import { ReaderFonts, ReaderThemeLabels, ReaderThemes } from '@/constants/ReaderThemes';
+import { ReaderFontFamily, ReaderSettings, ReaderTextAlign, ReaderThemeName, ReadingMode } from '../types/reader';
+import { READER_FONT_SIZE_RANGE, READER_LINE_SPACINGS, READER_MARGINS } from '../storage/readerSettings';
+
+interface ReaderSettingsSheetProps {
+  visible: boolean;
+  settings: ReaderSettings;
+  onChange: (changes: Partial<ReaderSettings>) => void;
+  onClose: () => void;
+}
+
+const MARGIN_LABELS = ['None', 'Normal', 'Wide'];
+
+const READING_MODES: { value: ReadingMode; label: string }[] = [
+  { value: 'scroll', label: 'Scroll' },
+  { value: 'paginated', label: 'Pages' },
+];
+
+const ALIGNMENTS: { value: ReaderTextAlign; label: string }[] = [
+  { value: 'left', label: 'Left' },
+  { value: 'justify', label: 'Justified' },
+];
+
+/**
+ * Bottom sheet for the reader's layout, text size, font, spacing, margins,
+ * alignment and page theme. Changes are applied as soon as they are picked.
+ */
+const ReaderSettingsSheet: React.FC<ReaderSettingsSheetProps> = ({ visible, settings, onChange, onClose }) => {
+  const { height } = useWindowDimensions();
+  const { min, max, step } = READER_FONT_SIZE_RANGE;
+
+  const renderChoice = (label: string, isSelected: boolean, onPress: () => void, textStyle?: object) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.choice, isSelected && styles.choiceSelected]}
+      onPress={onPress}
+    >
+      <Text style={[styles.choiceText, textStyle, isSelected && styles.choiceTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose}>
+        <Pressable style={[styles.sheet, { maxHeight: height * 0.8 }]} onPress={() => {}}>
+          <View style={styles.sheetHeader}>
+            <Text style={styles.sheetTitle}>Reading Settings</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color={Colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView>
+            <Text style={styles.sectionTitle}>Layout</Text>
+            <View style={styles.choiceRow}>
+              {READING_MODES.map(({ value, label }) =>
+                renderChoice(label, settings.readingMode === value, () => onChange({ readingMode: value }))
+              )}
+            </View>
+
+            <Text style={styles.sectionTitle}>Text size</Text>
+            <View style={styles.sizeRow}>
+              <TouchableOpacity
+                style={styles.sizeButton}
+                disabled={settings.fontSize <= min}
+                onPress={() => onChange({ fontSize: Math.max(settings.fontSize - step, min) })}
+              >
+                <Text style={[styles.sizeButtonText, { fontSize: 14 }]}>A</Text>
+              </TouchableOpacity>
+              <Text style={styles.sizeValue}>{settings.fontSize}</Text>
+              <TouchableOpacity
+                style={styles.sizeButton}
+                disabled={settings.fontSize >= max}
+                onPress={() => onChange({ fontSize: Math.min(settings.fontSize + step, max) })}
+              >
+                <Text style={[styles.sizeButtonText, { fontSize: 22 }]}>A</Text>
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.sectionTitle}>Font</Text>
+            <View style={styles.choiceRow}>
+              {(Object.keys(ReaderFonts) as ReaderFontFamily[]).map(family =>
+                renderChoice(
+                  ReaderFonts[family].label,
+                  settings.fontFamily === family,
+                  () => onChange({ fontFamily: family }),
+                  { fontFamily: ReaderFonts[family].fontFamily }
+                )
+              )}
+            </View>
+
+            <Text style={styles.sectionTitle}>Line spacing</Text>
+            <View style={styles.choiceRow}>
+              {READER_LINE_SPACINGS.map(spacing =>
+                renderChoice(`${spacing}×`, settings.lineSpacing === spacing, () => onChange({ lineSpacing: spacing }))
+              )}
+            </View>
+
+            <Text style={styles.sectionTitle}>Margins</Text>
+            <View style={styles.choiceRow}>
+              {READER_MARGINS.map((margin, index) =>
+                renderChoice(MARGIN_LABELS[index], settings.margin === margin, () => onChange({ margin }))
+              )}
+            </View>
+
+            <Text style={styles.sectionTitle}>Alignment</Text>
+            <View style={styles.choiceRow}>
+              {ALIGNMENTS.map(({ value, label }) =>
+                renderChoice(label, settings.textAlign === value, () => onChange({ textAlign: value }))
+              )}
+            </View>
+
+            <Text style={styles.sectionTitle}>Theme</Text>
+            <View style={styles.themeRow}>
+              {(Object.keys(ReaderThemes) as ReaderThemeName[]).map(theme => {
+                const palette = ReaderThemes[theme];
+                const isSelected = settings.theme === theme;
+                return (
+                  <TouchableOpacity key={theme} style={styles.themeOption} onPress={() => onChange({ theme })}>
+                    <View
+                      style={[
+                        styles.themeSwatch,
+                        { backgroundColor: palette.background, borderColor: isSelected ? Colors.primary : palette.border },
+                      ]}
+                    >
+                      <Text style={[styles.themeSwatchText, { color: palette.text }]}>Aa</Text>
+                    </View>
+                    <Text style={[styles.themeLabel, isSelected && styles.choiceTextSelected]}>
+                      {ReaderThemeLabels[theme]}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </ScrollView>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: Colors.overlay,
+  },
+  sheet: {
+    backgroundColor: Colors.cardBackground,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    paddingBottom: 32,
+  },
+  sheetHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  sheetTitle: {
+    color: Colors.textPrimary,
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  sectionTitle: {
+    color: Colors.textSecondary,
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  sizeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: Colors.inputBackground,
+    borderRadius: 8,
+  },
+  sizeButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 24,
+  },
+  sizeButtonText: {
+    color: Colors.textPrimary,
+    fontWeight: 'bold',
+  },
+  sizeValue: {
+    color: Colors.textPrimary,
+    fontSize: 16,
+  },
+  choiceRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  choice: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    marginRight: 8,
+    marginBottom: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  choiceSelected: {
+    borderColor: Colors.primary,
+    backgroundColor: 'rgba(255,0,0,0.12)',
+  },
+  choiceText: {
+    color: Colors.textPrimary,
+    fontSize: 14,
+  },
+  choiceTextSelected: {
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+  themeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  themeOption: {
+    alignItems: 'center',
+  },
+  themeSwatch: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    borderWidth: 2,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  themeSwatchText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  themeLabel: {
+    color: Colors.textSecondary,
+    fontSize: 12,
+    marginTop: 6,
+  },
+});
+
+export default ReaderSettingsSheet;
@@ -0,0 +1,142 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  PanResponder,
+  LayoutChangeEvent,
+  GestureResponderEvent,
+} from 'react-native';
+import { Colors } from '@/constants/Colors';
+import { formatTime } from '../utils/time';
+
+interface SeekBarProps {
+  position: number;
+  duration: number;
+  onSeek: (positionMillis: number) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Draggable progress bar. Shows the drag position while the thumb is held and
+ * only seeks once it is released, so the sound isn't flooded with seeks.
+ */
+const SeekBar: React.FC<SeekBarProps> = ({ position, duration, onSeek, disabled }) => {
+  const [trackWidth, setTrackWidth] = useState(0);
+  const [dragPosition, setDragPosition] = useState<number | null>(null);
+
+  // PanResponder handlers are created once, so read the latest props through a ref
+  const latest = useRef({ duration, trackWidth, onSeek, disabled });
+  latest.current = { duration, trackWidth, onSeek, disabled };
+
+  // Where the touch started; moves are measured from here since locationX can jump mid-drag
+  const startXRef = useRef(0);
+
+  const positionFromX = (x: number) => {
+    const { duration, trackWidth } = latest.current;
+    if (trackWidth <= 0 || duration <= 0) return 0;
+
+    const ratio = Math.min(Math.max(x / trackWidth, 0), 1);
+    return ratio * duration;
+  };
+
+  const panResponder = useMemo(() => PanResponder.create({
+    onStartShouldSetPanResponder: () => !latest.current.disabled && latest.current.duration > 0,
+    onMoveShouldSetPanResponder: () => !latest.current.disabled && latest.current.duration > 0,
+    // Keep the gesture when a parent ScrollView tries to take over mid-drag
+    onPanResponderTerminationRequest: () => false,
+    onPanResponderGrant: (event: GestureResponderEvent) => {
+      startXRef.current = event.nativeEvent.locationX;
+      setDragPosition(positionFromX(startXRef.current));
+    },
+    onPanResponderMove: (_, gestureState) => {
+      setDragPosition(positionFromX(startXRef.current + gestureState.dx));
+    },
+    onPanResponderRelease: (_, gestureState) => {
+      const target = positionFromX(startXRef.current + gestureState.dx);
+      setDragPosition(null);
+      latest.current.onSeek(target);
+    },
+    onPanResponderTerminate: () => setDragPosition(null),
+  }), []);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setTrackWidth(event.nativeEvent.layout.width);
+  };
+
+  const displayedPosition = dragPosition ?? position;
+  const progressPercentage = duration > 0 ? (displayedPosition / duration) * 100 : 0;
+
+  return (
+    <View style={styles.container}>
+      <View
+        style={styles.touchArea}
+        onLayout={handleLayout}
+        {...panResponder.panHandlers}
+      >
+        {/* Children ignore touches so locationX is always relative to the touch area */}
+        <View style={styles.progressBarBackground} pointerEvents="none">
+          <View style={[styles.progressBarFill, { width: `${progressPercentage}%` }]} />
+        </View>
+        <View
+          pointerEvents="none"
+          style={[
+            styles.thumb,
+            dragPosition !== null && styles.thumbActive,
+            { left: `${progressPercentage}%` },
+          ]}
+        />
+      </View>
+      <View style={styles.timeContainer}>
+        <Text style={styles.timeText}>{formatTime(displayedPosition)}</Text>
+        <Text style={styles.timeText}>-{formatTime(Math.max(duration - displayedPosition, 0))}</Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  touchArea: {
+    height: 24,
+    justifyContent: 'center',
+  },
+  progressBarBackground: {
+    height: 6,
+    backgroundColor: Colors.border,
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  progressBarFill: {
+    height: '100%',
+    backgroundColor: Colors.primary,
+    borderRadius: 3,
+  },
+  thumb: {
+    position: 'absolute',
+    width: 14,
+    height: 14,
+    marginLeft: -7,
+    borderRadius: 7,
+    backgroundColor: Colors.primary,
+  },
+  thumbActive: {
+    width: 20,
+    height: 20,
+    marginLeft: -10,
+    borderRadius: 10,
+  },
+  timeContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+  timeText: {
+    color: Colors.textSecondary,
+    fontSize: 12,
+  },
+});
+
+export default SeekBar;
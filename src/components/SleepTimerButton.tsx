@@ -0,0 +1,266 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  Pressable,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import { useSleepTimer, SLEEP_TIMER_EXTENSION_MILLIS } from '../context/SleepTimerContext';
+import { formatTime } from '../utils/time';
+
+const PRESET_MINUTES = [5, 15, 30, 60];
+
+interface SleepTimerButtonProps {
+  iconSize?: number;
+}
+
+/**
+ * Moon button that opens the sleep timer options. While a timer runs it shows
+ * the time left, and tapping it offers to extend the timer.
+ */
+const SleepTimerButton: React.FC<SleepTimerButtonProps> = ({ iconSize = 22 }) => {
+  const {
+    mode,
+    remainingMillis,
+    isFading,
+    startTimer,
+    startEndOfChapterTimer,
+    extendTimer,
+    cancelTimer,
+  } = useSleepTimer();
+  const [isVisible, setIsVisible] = useState(false);
+  const [customMinutes, setCustomMinutes] = useState('');
+
+  const isActive = mode !== 'off';
+  const customValue = parseInt(customMinutes, 10);
+  const isCustomValid = !isNaN(customValue) && customValue > 0 && customValue <= 24 * 60;
+
+  const choose = (action: () => void) => {
+    action();
+    setIsVisible(false);
+    setCustomMinutes('');
+  };
+
+  return (
+    <>
+      <TouchableOpacity
+        style={[styles.button, isFading && styles.buttonFading]}
+        onPress={() => (isFading ? extendTimer() : setIsVisible(true))}
+      >
+        <Ionicons
+          name={isActive ? 'moon' : 'moon-outline'}
+          size={iconSize}
+          color={isActive ? Colors.primary : Colors.textPrimary}
+        />
+        {isActive && (
+          <Text style={styles.remainingText}>
+            {remainingMillis !== null ? formatTime(remainingMillis) : 'End'}
+          </Text>
+        )}
+      </TouchableOpacity>
+
+      <Modal
+        visible={isVisible}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setIsVisible(false)}
+      >
+        <Pressable style={styles.backdrop} onPress={() => setIsVisible(false)}>
+          {/* Swallow presses inside the sheet so they don't close it */}
+          <Pressable style={styles.sheet} onPress={() => {}}>
+            <Text style={styles.sheetTitle}>Sleep Timer</Text>
+
+            {isActive && (
+              <View style={styles.activeRow}>
+                <Text style={styles.activeText}>
+                  {mode === 'endOfChapter'
+                    ? 'Stopping at the end of this chapter'
+                    : `Stopping in ${formatTime(remainingMillis ?? 0)}`}
+                </Text>
+                <TouchableOpacity onPress={() => choose(extendTimer)}>
+                  <Text style={styles.linkText}>+{SLEEP_TIMER_EXTENSION_MILLIS / 60000} min</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+
+            <View style={styles.optionsGrid}>
+              {PRESET_MINUTES.map(minutes => (
+                <TouchableOpacity
+                  key={minutes}
+                  style={styles.option}
+                  onPress={() => choose(() => startTimer(minutes * 60 * 1000))}
+                >
+                  <Text style={styles.optionText}>{minutes} min</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <TouchableOpacity
+              style={[styles.option, styles.wideOption, mode === 'endOfChapter' && styles.optionSelected]}
+              onPress={() => choose(startEndOfChapterTimer)}
+            >
+              <Text style={styles.optionText}>End of chapter</Text>
+            </TouchableOpacity>
+
+            <View style={styles.customRow}>
+              <TextInput
+                style={styles.customInput}
+                placeholder="Custom minutes"
+                placeholderTextColor={Colors.textMuted}
+                keyboardType="number-pad"
+                value={customMinutes}
+                onChangeText={setCustomMinutes}
+              />
+              <TouchableOpacity
+                style={[styles.setButton, !isCustomValid && styles.setButtonDisabled]}
+                disabled={!isCustomValid}
+                onPress={() => choose(() => startTimer(customValue * 60 * 1000))}
+              >
+                <Text style={styles.setButtonText}>Set</Text>
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.hintText}>
+              Shake your device while the volume fades to keep listening.
+            </Text>
+
+            {isActive && (
+              <TouchableOpacity style={styles.cancelButton} onPress={() => choose(cancelTimer)}>
+                <Text style={styles.cancelText}>Turn off timer</Text>
+              </TouchableOpacity>
+            )}
+          </Pressable>
+        </Pressable>
+      </Modal>
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 4,
+    borderRadius: 14,
+  },
+  buttonFading: {
+    backgroundColor: 'rgba(255,0,0,0.15)',
+  },
+  remainingText: {
+    color: Colors.primary,
+    fontSize: 12,
+    marginLeft: 4,
+    fontWeight: '600',
+  },
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: Colors.overlay,
+  },
+  sheet: {
+    backgroundColor: Colors.cardBackground,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    paddingBottom: 32,
+  },
+  sheetTitle: {
+    color: Colors.textPrimary,
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 16,
+  },
+  activeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  activeText: {
+    color: Colors.textSecondary,
+    fontSize: 14,
+    flex: 1,
+  },
+  linkText: {
+    color: Colors.primary,
+    fontWeight: 'bold',
+  },
+  optionsGrid: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  option: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    marginHorizontal: 4,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  wideOption: {
+    flex: 0,
+    marginBottom: 8,
+  },
+  optionSelected: {
+    borderColor: Colors.primary,
+  },
+  optionText: {
+    color: Colors.textPrimary,
+    fontSize: 14,
+  },
+  customRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 4,
+  },
+  customInput: {
+    flex: 1,
+    backgroundColor: Colors.inputBackground,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 8,
+    height: 44,
+    paddingHorizontal: 12,
+    color: Colors.textPrimary,
+    fontSize: 14,
+  },
+  setButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: 8,
+    height: 44,
+    paddingHorizontal: 20,
+    justifyContent: 'center',
+    marginLeft: 8,
+  },
+  setButtonDisabled: {
+    opacity: 0.5,
+  },
+  setButtonText: {
+    color: Colors.buttonText,
+    fontWeight: 'bold',
+  },
+  hintText: {
+    color: Colors.textMuted,
+    fontSize: 12,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  cancelButton: {
+    marginTop: 16,
+    alignItems: 'center',
+  },
+  cancelText: {
+    color: Colors.primary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
+
+export default SleepTimerButton;
@@ -0,0 +1,170 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  Pressable,
+  FlatList,
+  ActivityIndicator,
+  useWindowDimensions,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Speech from 'expo-speech';
+import { Colors } from '@/constants/Colors';
+import { usePlayback } from '../context/PlaybackContext';
+
+/**
+ * Button that opens a list of the device's voices for synthesized narration.
+ * The choice is saved in the playback settings and applied straight away.
+ */
+const VoicePickerButton: React.FC = () => {
+  const { settings, updateSettings } = usePlayback();
+  const { height } = useWindowDimensions();
+  const [isVisible, setIsVisible] = useState(false);
+  const [voices, setVoices] = useState<Speech.Voice[] | null>(null);
+
+  // Voices are only listed once the sheet is first opened
+  useEffect(() => {
+    if (!isVisible || voices) return;
+
+    Speech.getAvailableVoicesAsync()
+      .then(available => {
+        setVoices([...available].sort((a, b) =>
+          a.language.localeCompare(b.language) || a.name.localeCompare(b.name)
+        ));
+      })
+      .catch(error => {
+        console.error('Error loading voices:', error);
+        setVoices([]);
+      });
+  }, [isVisible, voices]);
+
+  const selectedVoice = voices?.find(voice => voice.identifier === settings.speechVoice);
+
+  const choose = (identifier?: string) => {
+    updateSettings({ speechVoice: identifier });
+    setIsVisible(false);
+  };
+
+  const renderOption = (label: string, detail: string | null, identifier?: string) => {
+    const isSelected = settings.speechVoice === identifier;
+    return (
+      <TouchableOpacity style={styles.option} onPress={() => choose(identifier)}>
+        <View style={styles.optionTextContainer}>
+          <Text style={[styles.optionText, isSelected && styles.optionTextSelected]}>{label}</Text>
+          {detail && <Text style={styles.optionDetail}>{detail}</Text>}
+        </View>
+        {isSelected && <Ionicons name="checkmark" size={20} color={Colors.primary} />}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <>
+      <TouchableOpacity style={styles.button} onPress={() => setIsVisible(true)}>
+        <Ionicons name="person-circle-outline" size={16} color={Colors.textSecondary} />
+        <Text style={styles.buttonText} numberOfLines={1}>
+          {selectedVoice ? selectedVoice.name : 'Voice'}
+        </Text>
+      </TouchableOpacity>
+
+      <Modal
+        visible={isVisible}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setIsVisible(false)}
+      >
+        <Pressable style={styles.backdrop} onPress={() => setIsVisible(false)}>
+          <Pressable style={[styles.sheet, { maxHeight: height * 0.7 }]} onPress={() => {}}>
+            <Text style={styles.sheetTitle}>Narration Voice</Text>
+            {voices === null ? (
+              <ActivityIndicator size="small" color={Colors.primary} style={styles.loading} />
+            ) : (
+              <FlatList
+                data={voices}
+                keyExtractor={(voice) => voice.identifier}
+                ListHeaderComponent={renderOption('System default', null)}
+                renderItem={({ item }) => renderOption(item.name, item.language, item.identifier)}
+                ListEmptyComponent={
+                  <Text style={styles.emptyText}>No other voices are installed on this device.</Text>
+                }
+              />
+            )}
+          </Pressable>
+        </Pressable>
+      </Modal>
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    maxWidth: 140,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  buttonText: {
+    color: Colors.textSecondary,
+    fontSize: 12,
+    marginLeft: 4,
+  },
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: Colors.overlay,
+  },
+  sheet: {
+    backgroundColor: Colors.cardBackground,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    paddingBottom: 32,
+  },
+  sheetTitle: {
+    color: Colors.textPrimary,
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  loading: {
+    marginVertical: 24,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.divider,
+  },
+  optionTextContainer: {
+    flex: 1,
+  },
+  optionText: {
+    color: Colors.textPrimary,
+    fontSize: 14,
+  },
+  optionTextSelected: {
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+  optionDetail: {
+    color: Colors.textMuted,
+    fontSize: 12,
+    marginTop: 2,
+  },
+  emptyText: {
+    color: Colors.textMuted,
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 16,
+  },
+});
+
+export default VoicePickerButton;
@@ -0,0 +1,302 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from 'react';
+import { Platform } from 'react-native';
+import { FirebaseError } from 'firebase/app';
+import {
+  createUserWithEmailAndPassword,
+  deleteUser,
+  EmailAuthProvider,
+  GoogleAuthProvider,
+  linkWithCredential,
+  linkWithPopup,
+  OAuthCredential,
+  onAuthStateChanged,
+  reauthenticateWithCredential,
+  reauthenticateWithPopup,
+  sendEmailVerification,
+  sendPasswordResetEmail,
+  signInWithCredential,
+  signInWithEmailAndPassword,
+  signInWithPopup,
+  signOut as firebaseSignOut,
+  unlink,
+  updatePassword,
+  updateProfile,
+  User,
+} from 'firebase/auth';
+import { auth } from '../firebase/config';
+import { getAuthErrorMessage } from '../firebase/authErrors';
+import { getGoogleCredential } from '../firebase/googleAuth';
+import { deleteUserData } from '../firebase/services';
+
+interface AuthContextValue {
+  user: User | null;
+  // False until Firebase has restored (or ruled out) a saved session
+  isInitialized: boolean;
+  signUp: (email: string, password: string) => Promise<void>;
+  signIn: (email: string, password: string) => Promise<void>;
+  signOut: () => Promise<void>;
+  sendPasswordReset: (email: string) => Promise<void>;
+  sendVerificationEmail: () => Promise<void>;
+  // Fetches the user's latest details, e.g. after they verify their email elsewhere
+  reloadUser: () => Promise<void>;
+  signInWithGoogle: () => Promise<void>;
+  linkGoogle: () => Promise<void>;
+  unlinkGoogle: () => Promise<void>;
+  // Email of an existing account a Google sign-in collided with; signing in to it with
+  // a password connects the Google account
+  pendingGoogleLinkEmail: string | null;
+  updateDisplayName: (displayName: string) => Promise<void>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  // Removes the user's Firestore data and then the account. Password users confirm with
+  // their password; accounts without one sign in to Google again instead.
+  deleteAccount: (password?: string) => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+// Closing the Google window isn't an error worth reporting
+const CANCELLED_POPUP_CODES = ['auth/popup-closed-by-user', 'auth/cancelled-popup-request'];
+
+const isCancelledPopup = (error: unknown): boolean =>
+  error instanceof FirebaseError && CANCELLED_POPUP_CODES.includes(error.code);
+
+const googleProvider = new GoogleAuthProvider();
+googleProvider.setCustomParameters({ prompt: 'select_account' });
+
+export const isGoogleLinked = (user: User): boolean =>
+  user.providerData.some(provider => provider.providerId === GoogleAuthProvider.PROVIDER_ID);
+
+export const hasPasswordSignIn = (user: User): boolean =>
+  user.providerData.some(provider => provider.providerId === EmailAuthProvider.PROVIDER_ID);
+
+/**
+ * Proves the user is who they say before a sensitive change, with their
+ * password when given or by signing in to Google again
+ * @returns false if the user backed out of the Google sign-in
+ */
+const reauthenticate = async (currentUser: User, password?: string): Promise<boolean> => {
+  if (password !== undefined) {
+    await reauthenticateWithCredential(currentUser, EmailAuthProvider.credential(currentUser.email ?? '', password));
+    return true;
+  }
+
+  try {
+    if (Platform.OS === 'web') {
+      await reauthenticateWithPopup(currentUser, googleProvider);
+      return true;
+    }
+    const credential = await getGoogleCredential();
+    if (!credential) return false;
+    await reauthenticateWithCredential(currentUser, credential);
+    return true;
+  } catch (error) {
+    if (isCancelledPopup(error)) return false;
+    throw error;
+  }
+};
+
+// Runs an Auth call, rethrowing any failure with a message the user can act on
+const withFriendlyErrors = async <T,>(action: () => Promise<T>, description: string): Promise<T> => {
+  try {
+    return await action();
+  } catch (error) {
+    console.error(`Error ${description}:`, error);
+    throw new Error(getAuthErrorMessage(error));
+  }
+};
+
+/**
+ * Tracks who is signed in with Firebase Auth and offers the sign-in and
+ * account management actions. Failed actions throw an Error whose message can
+ * be shown as is; backing out of Google sign-in is not a failure.
+ */
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  // Firebase changes the User in place (on reload, profile updates and linking), so it's
+  // kept in a fresh object each time to let the context value see the change
+  const [authState, setAuthState] = useState<{ user: User | null }>({ user: auth.currentUser });
+  const [isInitialized, setIsInitialized] = useState(false);
+  const [pendingGoogleLink, setPendingGoogleLink] = useState<{ email: string; credential: OAuthCredential } | null>(null);
+
+  useEffect(() => {
+    return onAuthStateChanged(auth, nextUser => {
+      setAuthState({ user: nextUser });
+      setIsInitialized(true);
+    });
+  }, []);
+
+  // Picks up changes Firebase made to the signed-in User object
+  const refreshUser = useCallback(() => {
+    setAuthState({ user: auth.currentUser });
+  }, []);
+
+  const signUp = useCallback((email: string, password: string) => withFriendlyErrors(async () => {
+    const credential = await createUserWithEmailAndPassword(auth, email.trim(), password);
+    await sendEmailVerification(credential.user);
+  }, 'signing up'), []);
+
+  const signIn = useCallback((email: string, password: string) => withFriendlyErrors(async () => {
+    const credential = await signInWithEmailAndPassword(auth, email.trim(), password);
+
+    // Finish connecting the Google account that was turned away for sharing this email
+    if (pendingGoogleLink && pendingGoogleLink.email.toLowerCase() === credential.user.email?.toLowerCase()) {
+      setPendingGoogleLink(null);
+      try {
+        await linkWithCredential(credential.user, pendingGoogleLink.credential);
+        refreshUser();
+      } catch (error) {
+        console.error('Error linking Google account after sign in:', error);
+      }
+    }
+  }, 'signing in'), [pendingGoogleLink, refreshUser]);
+
+  const signInWithGoogle = useCallback(() => withFriendlyErrors(async () => {
+    try {
+      if (Platform.OS === 'web') {
+        await signInWithPopup(auth, googleProvider);
+        return;
+      }
+      const credential = await getGoogleCredential();
+      if (credential) {
+        await signInWithCredential(auth, credential);
+      }
+    } catch (error) {
+      if (isCancelledPopup(error)) return;
+
+      // Remember the Google credential so it can be connected once they sign in the usual way
+      if (error instanceof FirebaseError && error.code === 'auth/account-exists-with-different-credential') {
+        const credential = GoogleAuthProvider.credentialFromError(error);
+        const email = error.customData?.email;
+        if (credential && typeof email === 'string') {
+          setPendingGoogleLink({ email, credential });
+        }
+      }
+      throw error;
+    }
+  }, 'signing in with Google'), []);
+
+  const linkGoogle = useCallback(() => withFriendlyErrors(async () => {
+    const currentUser = auth.currentUser;
+    if (!currentUser) return;
+
+    try {
+      if (Platform.OS === 'web') {
+        await linkWithPopup(currentUser, googleProvider);
+      } else {
+        const credential = await getGoogleCredential();
+        if (!credential) return;
+        await linkWithCredential(currentUser, credential);
+      }
+      refreshUser();
+    } catch (error) {
+      if (isCancelledPopup(error)) return;
+      throw error;
+    }
+  }, 'linking Google account'), [refreshUser]);
+
+  const unlinkGoogle = useCallback(() => withFriendlyErrors(async () => {
+    const currentUser = auth.currentUser;
+    if (!currentUser) return;
+    // Without another way in, unlinking would lock the user out of their account
+    if (currentUser.providerData.length < 2) {
+      throw new FirebaseError('auth/requires-another-provider', 'Google is the only sign-in method on this account');
+    }
+
+    await unlink(currentUser, GoogleAuthProvider.PROVIDER_ID);
+    refreshUser();
+  }, 'unlinking Google account'), [refreshUser]);
+
+  const updateDisplayName = useCallback((displayName: string) => withFriendlyErrors(async () => {
+    if (!auth.currentUser) return;
+
+    await updateProfile(auth.currentUser, { displayName: displayName.trim() || null });
+    refreshUser();
+  }, 'updating display name'), [refreshUser]);
+
+  const changePassword = useCallback((currentPassword: string, newPassword: string) => withFriendlyErrors(async () => {
+    const currentUser = auth.currentUser;
+    if (!currentUser) return;
+
+    await reauthenticate(currentUser, currentPassword);
+    await updatePassword(currentUser, newPassword);
+  }, 'changing password'), []);
+
+  const deleteAccount = useCallback((password?: string) => withFriendlyErrors(async () => {
+    const currentUser = auth.currentUser;
+    if (!currentUser || !(await reauthenticate(currentUser, password))) return;
+
+    // Data first: once the account is gone the security rules no longer let us remove it
+    await deleteUserData(currentUser.uid);
+    await deleteUser(currentUser);
+  }, 'deleting account'), []);
+
+  const signOut = useCallback(() => withFriendlyErrors(() => firebaseSignOut(auth), 'signing out'), []);
+
+  const sendPasswordReset = useCallback((email: string) => withFriendlyErrors(
+    () => sendPasswordResetEmail(auth, email.trim()),
+    'sending password reset email'
+  ), []);
+
+  const sendVerificationEmail = useCallback(() => withFriendlyErrors(async () => {
+    if (auth.currentUser) {
+      await sendEmailVerification(auth.currentUser);
+    }
+  }, 'sending verification email'), []);
+
+  const reloadUser = useCallback(() => withFriendlyErrors(async () => {
+    if (auth.currentUser) {
+      await auth.currentUser.reload();
+      refreshUser();
+    }
+  }, 'reloading user'), [refreshUser]);
+
+  const value = useMemo<AuthContextValue>(() => ({
+    user: authState.user,
+    isInitialized,
+    signUp,
+    signIn,
+    signOut,
+    sendPasswordReset,
+    sendVerificationEmail,
+    reloadUser,
+    signInWithGoogle,
+    linkGoogle,
+    unlinkGoogle,
+    pendingGoogleLinkEmail: pendingGoogleLink?.email ?? null,
+    updateDisplayName,
+    changePassword,
+    deleteAccount,
+  }), [
+    authState,
+    isInitialized,
+    pendingGoogleLink,
+    signUp,
+    signIn,
+    signOut,
+    sendPasswordReset,
+    sendVerificationEmail,
+    reloadUser,
+    signInWithGoogle,
+    linkGoogle,
+    unlinkGoogle,
+    updateDisplayName,
+    changePassword,
+    deleteAccount,
+  ]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export const useAuth = (): AuthContextValue => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
@@ -0,0 +1,391 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import * as FileSystem from 'expo-file-system/legacy';
+import { Book, Chapter } from '../types/book';
+import { DownloadItem } from '../types/download';
+import {
+  DEFAULT_DOWNLOAD_QUOTA,
+  DownloadIndex,
+  getBookDownloadDirectory,
+  getDownloadIndex,
+  getDownloadQuota,
+  isDownloadSupported,
+  saveDownloadIndex,
+  saveDownloadQuota,
+} from '../storage/downloads';
+import { processAudioUrl, processThumbnailUrl } from '../r2/services';
+import { getChapters } from '../firebase/services';
+
+// Progress callbacks fire many times a second; re-render at most this often
+const PROGRESS_UPDATE_INTERVAL_MILLIS = 500;
+
+const QUOTA_EXCEEDED_MESSAGE = 'Download limit reached. Free up space or raise the limit.';
+
+interface DownloadsContextValue {
+  isSupported: boolean;
+  // Every queued, running, paused, failed and finished chapter download
+  downloads: DownloadItem[];
+  usedBytes: number;
+  quotaBytes: number;
+  downloadChapters: (book: Book, chapters: Chapter[]) => Promise<void>;
+  pauseDownload: (id: string) => Promise<void>;
+  resumeDownload: (id: string) => void;
+  // Stops the download if it is running and deletes whatever was saved
+  cancelDownload: (id: string) => Promise<void>;
+  removeBookDownloads: (bookId: string) => Promise<void>;
+  setQuota: (quotaBytes: number) => void;
+}
+
+interface ActiveDownload {
+  id: string;
+  task: FileSystem.DownloadResumable | null;
+  // Why the listener (or the quota) stopped the download, so the runner doesn't treat it as a failure
+  stopReason: 'paused' | 'cancelled' | 'quota' | null;
+}
+
+const DownloadsContext = createContext<DownloadsContextValue | undefined>(undefined);
+
+// Keep the narration's extension so the platform player recognises the local file
+const getAudioFilePath = (item: DownloadItem): string => {
+  const extension = item.remoteAudioUrl?.split('?')[0].match(/\.(\w{2,4})$/)?.[1] || 'mp3';
+  return `${getBookDownloadDirectory(item.bookId)}${item.chapterId}.${extension}`;
+};
+
+const getUsedBytes = (index: DownloadIndex, excludeId?: string): number => {
+  return Object.values(index).reduce(
+    (total, item) => (item.id === excludeId ? total : total + item.bytesWritten),
+    0
+  );
+};
+
+/**
+ * Saves chapter audio, text and covers on the device so books can be read and
+ * listened to offline. Downloads run one at a time from a persistent queue.
+ */
+export const DownloadsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [index, setIndex] = useState<DownloadIndex>({});
+  const [quotaBytes, setQuotaBytes] = useState(DEFAULT_DOWNLOAD_QUOTA);
+  const [isReady, setIsReady] = useState(false);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  // Mirrors for the download callbacks, which outlive renders
+  const indexRef = useRef<DownloadIndex>({});
+  const quotaRef = useRef(DEFAULT_DOWNLOAD_QUOTA);
+  const activeRef = useRef<ActiveDownload | null>(null);
+
+  const commit = useCallback((next: DownloadIndex, persist: boolean = true) => {
+    indexRef.current = next;
+    setIndex(next);
+    if (persist) {
+      saveDownloadIndex(next);
+    }
+  }, []);
+
+  const updateItem = useCallback((id: string, changes: Partial<DownloadItem>, persist: boolean = true) => {
+    const item = indexRef.current[id];
+    if (item) {
+      commit({ ...indexRef.current, [id]: { ...item, ...changes } }, persist);
+    }
+  }, [commit]);
+
+  useEffect(() => {
+    if (!isDownloadSupported) return;
+
+    Promise.all([getDownloadIndex(), getDownloadQuota()]).then(([stored, quota]) => {
+      // Downloads that were running when the app closed wait for the listener to resume them
+      const restored: DownloadIndex = {};
+      for (const item of Object.values(stored)) {
+        restored[item.id] = item.status === 'downloading' ? { ...item, status: 'paused' } : item;
+      }
+
+      quotaRef.current = quota;
+      setQuotaBytes(quota);
+      commit(restored);
+      setIsReady(true);
+    });
+  }, [commit]);
+
+  const deleteItemFiles = useCallback(async (item: DownloadItem, remaining: DownloadIndex) => {
+    try {
+      const files = [getAudioFilePath(item), item.audioUri, item.textUri];
+      for (const uri of files) {
+        if (uri) {
+          await FileSystem.deleteAsync(uri, { idempotent: true });
+        }
+      }
+
+      // The cover goes with the book's last chapter
+      if (!Object.values(remaining).some(other => other.bookId === item.bookId)) {
+        await FileSystem.deleteAsync(getBookDownloadDirectory(item.bookId), { idempotent: true });
+      }
+    } catch (error) {
+      console.error('Error deleting downloaded files:', error);
+    }
+  }, []);
+
+  const runDownload = useCallback(async (item: DownloadItem) => {
+    const active: ActiveDownload = { id: item.id, task: null, stopReason: null };
+    activeRef.current = active;
+    updateItem(item.id, { status: 'downloading', error: undefined });
+
+    try {
+      const directory = getBookDownloadDirectory(item.bookId);
+      await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+
+      let coverUri = item.coverUri;
+      if (item.remoteCoverUrl && !coverUri) {
+        coverUri = `${directory}cover.jpg`;
+        const info = await FileSystem.getInfoAsync(coverUri);
+        if (!info.exists) {
+          await FileSystem.downloadAsync(item.remoteCoverUrl, coverUri);
+        }
+      }
+
+      let audioUri = item.audioUri;
+      let bytes = item.bytesWritten;
+      if (item.remoteAudioUrl && !audioUri && !active.stopReason) {
+        if (getUsedBytes(indexRef.current, item.id) >= quotaRef.current) {
+          active.stopReason = 'quota';
+          throw new Error(QUOTA_EXCEEDED_MESSAGE);
+        }
+
+        let lastProgressUpdate = 0;
+        const task: FileSystem.DownloadResumable = FileSystem.createDownloadResumable(
+          item.remoteAudioUrl,
+          getAudioFilePath(item),
+          {},
+          ({ totalBytesWritten, totalBytesExpectedToWrite }) => {
+            if (active.stopReason) return;
+
+            // Stop as soon as the server says the file won't fit
+            const expected = Math.max(totalBytesExpectedToWrite, 0);
+            if (expected > 0 && getUsedBytes(indexRef.current, item.id) + expected > quotaRef.current) {
+              active.stopReason = 'quota';
+              task.cancelAsync();
+              return;
+            }
+
+            if (Date.now() - lastProgressUpdate > PROGRESS_UPDATE_INTERVAL_MILLIS) {
+              lastProgressUpdate = Date.now();
+              updateItem(item.id, { bytesWritten: totalBytesWritten, totalBytes: expected }, false);
+            }
+          },
+          item.resumeData
+        );
+        active.task = task;
+
+        const result = item.resumeData ? await task.resumeAsync() : await task.downloadAsync();
+        if (active.stopReason === 'quota') {
+          throw new Error(QUOTA_EXCEEDED_MESSAGE);
+        }
+        if (active.stopReason) return;
+        if (!result || result.status >= 400) {
+          throw new Error(`Audio download failed with status ${result?.status}`);
+        }
+
+        audioUri = result.uri;
+        const info = await FileSystem.getInfoAsync(result.uri);
+        bytes = info.exists ? info.size : 0;
+      }
+
+      if (active.stopReason) return;
+      updateItem(item.id, {
+        status: 'completed',
+        coverUri,
+        audioUri,
+        bytesWritten: bytes,
+        totalBytes: bytes,
+        resumeData: undefined,
+      });
+    } catch (error) {
+      // Pausing and cancelling interrupt the task; their handlers have already updated the item
+      if (active.stopReason === 'paused' || active.stopReason === 'cancelled') return;
+
+      if (active.stopReason !== 'quota') {
+        console.error('Error downloading chapter:', error);
+      }
+      await FileSystem.deleteAsync(getAudioFilePath(item), { idempotent: true }).catch(() => {});
+      updateItem(item.id, {
+        status: 'error',
+        error: active.stopReason === 'quota' ? QUOTA_EXCEEDED_MESSAGE : 'Download failed',
+        bytesWritten: 0,
+        totalBytes: 0,
+        resumeData: undefined,
+      });
+    } finally {
+      if (activeRef.current === active) {
+        activeRef.current = null;
+      }
+      setActiveId(null);
+    }
+  }, [updateItem]);
+
+  // Start the oldest queued download whenever nothing is running
+  useEffect(() => {
+    if (!isReady || activeId) return;
+
+    const next = Object.values(index)
+      .filter(item => item.status === 'queued')
+      .sort((a, b) => a.createdAt - b.createdAt || a.order - b.order)[0];
+    if (next) {
+      setActiveId(next.id);
+      runDownload(next);
+    }
+  }, [index, activeId, isReady, runDownload]);
+
+  const downloadChapters = useCallback(async (book: Book, chapters: Chapter[]) => {
+    if (!isDownloadSupported) return;
+
+    try {
+      const directory = getBookDownloadDirectory(book.id);
+      await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+
+      const next = { ...indexRef.current };
+      const coverUrl = book.thumbnailUrl ? processThumbnailUrl(book.thumbnailUrl) : undefined;
+      const createdAt = Date.now();
+      // Books that only list chapter metadata have all their text fetched in one query
+      const fetchedContent = new Map<string, string>(
+        chapters.some(chapter => !chapter.content)
+          ? (await getChapters(book.id)).map(chapter => [chapter.id, chapter.content])
+          : []
+      );
+
+      for (const chapter of chapters) {
+        const id = `${book.id}:${chapter.id}`;
+        if (next[id] && next[id].status !== 'error') continue;
+
+        // Chapter text is small, so it is saved straight away rather than queued
+        let textUri: string | undefined;
+        const content = chapter.content || fetchedContent.get(chapter.id);
+        if (content) {
+          textUri = `${directory}${chapter.id}.html`;
+          await FileSystem.writeAsStringAsync(textUri, content);
+        }
+
+        next[id] = {
+          id,
+          bookId: book.id,
+          chapterId: chapter.id,
+          bookTitle: book.title,
+          author: book.author,
+          chapterTitle: chapter.title || book.title,
+          order: chapter.order,
+          remoteAudioUrl: processAudioUrl(chapter.audioUrl),
+          // A book that was itself opened from downloads already has a local cover
+          remoteCoverUrl: coverUrl?.startsWith('http') ? coverUrl : undefined,
+          coverUri: coverUrl?.startsWith('file:') ? coverUrl : undefined,
+          textUri,
+          status: 'queued',
+          bytesWritten: 0,
+          totalBytes: 0,
+          createdAt,
+        };
+      }
+
+      commit(next);
+    } catch (error) {
+      console.error('Error queueing downloads:', error);
+    }
+  }, [commit]);
+
+  const pauseDownload = useCallback(async (id: string) => {
+    const item = indexRef.current[id];
+    if (!item) return;
+
+    const active = activeRef.current;
+    if (active?.id === id) {
+      active.stopReason = 'paused';
+      try {
+        const pauseState = active.task ? await active.task.pauseAsync() : null;
+        updateItem(id, { status: 'paused', resumeData: pauseState?.resumeData });
+      } catch (error) {
+        console.error('Error pausing download:', error);
+        updateItem(id, { status: 'paused', resumeData: undefined, bytesWritten: 0 });
+      }
+    } else if (item.status === 'queued') {
+      updateItem(id, { status: 'paused' });
+    }
+  }, [updateItem]);
+
+  const resumeDownload = useCallback((id: string) => {
+    const item = indexRef.current[id];
+    if (item && (item.status === 'paused' || item.status === 'error')) {
+      updateItem(id, { status: 'queued', error: undefined });
+    }
+  }, [updateItem]);
+
+  const cancelDownload = useCallback(async (id: string) => {
+    const active = activeRef.current;
+    if (active?.id === id) {
+      active.stopReason = 'cancelled';
+      try {
+        await active.task?.cancelAsync();
+      } catch (error) {
+        console.error('Error cancelling download:', error);
+      }
+    }
+
+    const item = indexRef.current[id];
+    if (!item) return;
+
+    const remaining = { ...indexRef.current };
+    delete remaining[id];
+    commit(remaining);
+    await deleteItemFiles(item, remaining);
+  }, [commit, deleteItemFiles]);
+
+  const removeBookDownloads = useCallback(async (bookId: string) => {
+    const ids = Object.values(indexRef.current)
+      .filter(item => item.bookId === bookId)
+      .map(item => item.id);
+    for (const id of ids) {
+      await cancelDownload(id);
+    }
+  }, [cancelDownload]);
+
+  const setQuota = useCallback((nextQuota: number) => {
+    quotaRef.current = nextQuota;
+    setQuotaBytes(nextQuota);
+    saveDownloadQuota(nextQuota);
+  }, []);
+
+  const downloads = useMemo(
+    () => Object.values(index).sort((a, b) =>
+      a.bookTitle.localeCompare(b.bookTitle) || a.bookId.localeCompare(b.bookId) || a.order - b.order
+    ),
+    [index]
+  );
+  const usedBytes = useMemo(() => getUsedBytes(index), [index]);
+
+  const value = useMemo<DownloadsContextValue>(() => ({
+    isSupported: isDownloadSupported,
+    downloads,
+    usedBytes,
+    quotaBytes,
+    downloadChapters,
+    pauseDownload,
+    resumeDownload,
+    cancelDownload,
+    removeBookDownloads,
+    setQuota,
+  }), [
+    downloads, usedBytes, quotaBytes, downloadChapters, pauseDownload, resumeDownload,
+    cancelDownload, removeBookDownloads, setQuota,
+  ]);
+
+  return <DownloadsContext.Provider value={value}>{children}</DownloadsContext.Provider>;
+};
+
+export const useDownloads = (): DownloadsContextValue => {
+  const context = useContext(DownloadsContext);
+  if (!context) {
+    throw new Error('useDownloads must be used within a DownloadsProvider');
+  }
+  return context;
+};
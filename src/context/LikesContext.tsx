@@ -0,0 +1,108 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import { Book } from '../types/book';
+import { useAuth } from './AuthContext';
+import { getUserLikedBookIds, likeBook, unlikeBook } from '../firebase/services';
+
+// What's needed of a book to like it; the liked list keeps this much of it
+type LikeableBook = Pick<Book, 'id' | 'title' | 'author' | 'thumbnailUrl'>;
+
+interface LikesContextValue {
+  isLiked: (bookId: string) => boolean;
+  // False until the signed-in user's likes have been fetched; isLiked says no to everything before then
+  isLoaded: boolean;
+  // Likes or unlikes the book straight away and undoes it if saving fails. Returns
+  // false without doing anything when nobody is signed in; taps before the likes
+  // have loaded are ignored, since whether the book is liked isn't known yet.
+  toggleLike: (book: LikeableBook) => boolean;
+}
+
+const LikesContext = createContext<LikesContextValue | undefined>(undefined);
+
+/**
+ * Keeps track of the books the signed-in user has liked. Likes are stored in
+ * Firestore under the user and counted on each book.
+ */
+export const LikesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const userId = user?.uid;
+  const [likedIds, setLikedIds] = useState<Set<string>>(new Set());
+  const [isLoaded, setIsLoaded] = useState(false);
+  // Mirror for the save callbacks, which finish after later toggles
+  const likedIdsRef = useRef(likedIds);
+  // Books whose like is still being saved; taps on them wait until it's done
+  const pendingRef = useRef(new Set<string>());
+
+  const applyLikedIds = useCallback((next: Set<string>) => {
+    likedIdsRef.current = next;
+    setLikedIds(next);
+  }, []);
+
+  useEffect(() => {
+    applyLikedIds(new Set());
+    setIsLoaded(false);
+    if (!userId) return;
+    let cancelled = false;
+
+    getUserLikedBookIds(userId).then(ids => {
+      if (!cancelled) {
+        applyLikedIds(new Set(ids));
+        setIsLoaded(true);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, applyLikedIds]);
+
+  const setLiked = useCallback((bookId: string, liked: boolean) => {
+    const next = new Set(likedIdsRef.current);
+    if (liked) {
+      next.add(bookId);
+    } else {
+      next.delete(bookId);
+    }
+    applyLikedIds(next);
+  }, [applyLikedIds]);
+
+  const isLiked = useCallback((bookId: string) => likedIds.has(bookId), [likedIds]);
+
+  const toggleLike = useCallback((book: LikeableBook) => {
+    if (!userId) return false;
+    if (!isLoaded || pendingRef.current.has(book.id)) return true;
+
+    const wasLiked = likedIdsRef.current.has(book.id);
+    setLiked(book.id, !wasLiked);
+    pendingRef.current.add(book.id);
+
+    (wasLiked ? unlikeBook(userId, book.id) : likeBook(userId, book))
+      .catch(error => {
+        console.error(`Error ${wasLiked ? 'unliking' : 'liking'} book ${book.id}:`, error);
+        setLiked(book.id, wasLiked);
+      })
+      .finally(() => pendingRef.current.delete(book.id));
+    return true;
+  }, [userId, isLoaded, setLiked]);
+
+  const value = useMemo<LikesContextValue>(
+    () => ({ isLiked, isLoaded, toggleLike }),
+    [isLiked, isLoaded, toggleLike]
+  );
+
+  return <LikesContext.Provider value={value}>{children}</LikesContext.Provider>;
+};
+
+export const useLikes = (): LikesContextValue => {
+  const context = useContext(LikesContext);
+  if (!context) {
+    throw new Error('useLikes must be used within a LikesProvider');
+  }
+  return context;
+};
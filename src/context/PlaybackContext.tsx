@@ -0,0 +1,632 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import { AppState } from 'react-native';
+import { Audio, InterruptionModeAndroid, InterruptionModeIOS, PitchCorrectionQuality } from 'expo-av';
+import { MediaSessionHandlers, PlaybackSettings, PlaybackTrack } from '../types/playback';
+import {
+  DEFAULT_PLAYBACK_SETTINGS,
+  getBookPlaybackRate,
+  getPlaybackSettings,
+  saveBookPlaybackRate,
+  savePlaybackSettings,
+} from '../storage/playbackSettings';
+import {
+  getListeningProgress,
+  isProgressComplete,
+  saveListeningProgress,
+} from '../storage/listeningHistory';
+import { createNarrator, fromNarratorStatus, Narrator, narratorToSound } from '../speech/narrator';
+import { getLocalAudioUri } from '../storage/downloads';
+import { saveAudioDuration } from '../storage/audioDurations';
+import { auth } from '../firebase/config';
+import { loadChapterContent } from '../hooks/useChapterContent';
+import { formatHtmlContent } from '../utils/html';
+import {
+  createAudioSound,
+  PlayerStatus,
+  PlayerStatusUpdate,
+  SoundFactory,
+  usePlayer,
+} from '../hooks/usePlayer';
+import { setMediaSessionHandlers, setMediaSessionState, setNowPlaying } from '../media/mediaSession';
+
+// Skipping back within this window goes to the previous track instead of restarting
+const RESTART_THRESHOLD_MILLIS = 3000;
+
+// How often the resume position is written to storage while playing
+const PROGRESS_SAVE_INTERVAL_MILLIS = 5000;
+
+interface PlaybackContextValue {
+  currentTrack: PlaybackTrack | null;
+  queue: PlaybackTrack[];
+  queueIndex: number;
+  status: PlayerStatus;
+  isPlaying: boolean;
+  isLoading: boolean;
+  position: number;
+  duration: number;
+  rate: number;
+  error: string | null;
+  // True when the current queue item has no narration and is waiting on the fallback
+  needsFallback: boolean;
+  // True when the current track is being read by the device's speech engine
+  isSynthesized: boolean;
+  // Sentence being read when synthesized, null otherwise
+  speechProgress: { sentenceIndex: number; sentenceCount: number } | null;
+  hasNext: boolean;
+  hasPrevious: boolean;
+  // When set, the queue stops instead of advancing once the current track ends
+  stopAtEndOfTrack: boolean;
+  settings: PlaybackSettings;
+  playTrack: (track: PlaybackTrack, options?: { autoPlay?: boolean }) => Promise<void>;
+  playQueue: (tracks: PlaybackTrack[], startIndex?: number, options?: { autoPlay?: boolean }) => Promise<void>;
+  addToQueue: (track: PlaybackTrack) => void;
+  moveInQueue: (fromIndex: number, toIndex: number) => void;
+  removeFromQueue: (index: number) => void;
+  skipToIndex: (index: number) => Promise<void>;
+  skipNext: () => Promise<void>;
+  skipPrevious: () => Promise<void>;
+  togglePlayPause: () => Promise<void>;
+  pause: () => Promise<void>;
+  resume: () => Promise<void>;
+  seekTo: (positionMillis: number) => Promise<void>;
+  skipBy: (deltaMillis: number) => Promise<void>;
+  setRate: (rate: number) => Promise<void>;
+  setVolume: (volume: number) => Promise<void>;
+  setStopAtEndOfTrack: (stop: boolean) => void;
+  restart: () => Promise<void>;
+  stop: () => Promise<void>;
+  dismiss: () => Promise<void>;
+  retry: () => Promise<void>;
+  updateSettings: (changes: Partial<PlaybackSettings>) => void;
+}
+
+const PlaybackContext = createContext<PlaybackContextValue | undefined>(undefined);
+
+/**
+ * Owns the single player used by the whole app, so narration keeps playing
+ * while the user navigates between screens. Tracks without audio but with
+ * text are read aloud by a speech narrator behind the same controls.
+ */
+export const PlaybackProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  // The narrator behind the loaded track, kept for voice changes
+  const narratorRef = useRef<Narrator | null>(null);
+  // Incremented on every load so that a slow lookup can't clobber a newer track
+  const loadIdRef = useRef(0);
+  // Mirrors of queue state for use inside status callbacks, which outlive renders
+  const queueRef = useRef<PlaybackTrack[]>([]);
+  const queueIndexRef = useRef(-1);
+  const settingsRef = useRef<PlaybackSettings>(DEFAULT_PLAYBACK_SETTINGS);
+  const onTrackFinishedRef = useRef<() => void>(() => {});
+  // The track that is loaded, its latest status, and when its position was last persisted
+  const loadedTrackRef = useRef<PlaybackTrack | null>(null);
+  const lastStatusRef = useRef<PlayerStatusUpdate | null>(null);
+  const lastProgressSaveRef = useRef(0);
+  // Recordings whose length has been saved this session
+  const measuredAudioRef = useRef(new Set<string>());
+  const stopAtEndOfTrackRef = useRef(false);
+  // Set when something else took the audio (a call, another app) while we wanted to play
+  const interruptedRef = useRef(false);
+  const [currentTrack, setCurrentTrack] = useState<PlaybackTrack | null>(null);
+  const [queue, setQueue] = useState<PlaybackTrack[]>([]);
+  const [queueIndex, setQueueIndex] = useState(-1);
+  const [settings, setSettings] = useState<PlaybackSettings>(DEFAULT_PLAYBACK_SETTINGS);
+  const [stopAtEndOfTrack, setStopAtEndOfTrackState] = useState(false);
+  const [speechProgress, setSpeechProgress] = useState<PlaybackContextValue['speechProgress']>(null);
+
+  useEffect(() => {
+    getPlaybackSettings().then(stored => {
+      settingsRef.current = stored;
+      setSettings(stored);
+    });
+  }, []);
+
+  // Keep narrating with the screen locked or the app in the background, and pause
+  // rather than duck when a call or another app takes over the audio
+  useEffect(() => {
+    Audio.setAudioModeAsync({
+      staysActiveInBackground: true,
+      playsInSilentModeIOS: true,
+      interruptionModeIOS: InterruptionModeIOS.DoNotMix,
+      interruptionModeAndroid: InterruptionModeAndroid.DoNotMix,
+      shouldDuckAndroid: false,
+      playThroughEarpieceAndroid: false,
+    }).catch(error => console.error('Error setting audio mode:', error));
+  }, []);
+
+  const updateQueue = useCallback((tracks: PlaybackTrack[], index: number) => {
+    queueRef.current = tracks;
+    queueIndexRef.current = index;
+    setQueue(tracks);
+    setQueueIndex(index);
+  }, []);
+
+  const persistProgress = useCallback((track: PlaybackTrack, status: PlayerStatusUpdate) => {
+    // Read-along paragraphs are too short to be worth resuming, and synthesized
+    // narration has no audio file to key the history by
+    if (!track.audioUrl || !status.durationMillis || track.paragraphId) return;
+
+    lastProgressSaveRef.current = Date.now();
+    saveListeningProgress({
+      track,
+      positionMillis: status.positionMillis,
+      durationMillis: status.durationMillis,
+      updatedAt: Date.now(),
+      userId: auth.currentUser?.uid,
+    });
+  }, []);
+
+  // Remember where the outgoing track was left before anything replaces it
+  const persistLoadedTrack = useCallback(() => {
+    const track = loadedTrackRef.current;
+    const status = lastStatusRef.current;
+    if (track && status?.isLoaded) {
+      persistProgress(track, status);
+    }
+  }, [persistProgress]);
+
+  const handleStatusUpdate = useCallback((status: PlayerStatusUpdate) => {
+    const track = loadedTrackRef.current;
+    lastStatusRef.current = status;
+
+    if (status.sentenceCount !== undefined) {
+      setSpeechProgress({ sentenceIndex: status.sentenceIndex ?? 0, sentenceCount: status.sentenceCount });
+    }
+    if (!status.isLoaded || !track) return;
+
+    // Playing a recording is a free chance to learn its length for the book and episode lists
+    if (track.audioUrl && !track.paragraphId && status.durationMillis > 0 && !measuredAudioRef.current.has(track.audioUrl)) {
+      measuredAudioRef.current.add(track.audioUrl);
+      saveAudioDuration(track.audioUrl, status.durationMillis);
+    }
+
+    // The OS stopped the sound while we still meant to play it
+    if (status.isPlaying) {
+      interruptedRef.current = false;
+    } else if (status.shouldPlay && !status.isBuffering && !status.didJustFinish) {
+      if (!interruptedRef.current) {
+        interruptedRef.current = true;
+        persistProgress(track, status);
+      }
+    }
+
+    // Save the resume position periodically while playing, and whenever playback ends
+    if (
+      status.didJustFinish ||
+      (status.isPlaying && Date.now() - lastProgressSaveRef.current > PROGRESS_SAVE_INTERVAL_MILLIS)
+    ) {
+      persistProgress(track, status);
+    }
+  }, [persistProgress]);
+
+  const handleFinish = useCallback(() => {
+    onTrackFinishedRef.current();
+  }, []);
+
+  const player = usePlayer({ onStatusUpdate: handleStatusUpdate, onFinish: handleFinish });
+  const { state: playerState } = player;
+  const {
+    load: loadSound,
+    unload: unloadSound,
+    play,
+    pause: pausePlayer,
+    seekTo,
+    setRate: setPlayerRate,
+    setVolume,
+    restart,
+    stop,
+  } = player;
+
+  /**
+   * Builds the sound for a track: the narration file when there is one,
+   * otherwise a speech narrator reading the track's text
+   */
+  const createTrackSound = useCallback((track: PlaybackTrack, autoPlay: boolean): SoundFactory => {
+    const loadId = loadIdRef.current;
+
+    return async (onStatusUpdate) => {
+      // Pick up from the saved position unless the track was already finished
+      const [saved, initialRate, localAudioUri] = await Promise.all([
+        track.audioUrl ? getListeningProgress(track.audioUrl, auth.currentUser?.uid) : Promise.resolve(null),
+        track.bookId ? getBookPlaybackRate(track.bookId) : Promise.resolve(1),
+        track.audioUrl ? getLocalAudioUri(track.audioUrl) : Promise.resolve(null),
+      ]);
+      const initialPosition = saved && !isProgressComplete(saved) ? saved.positionMillis : 0;
+      // A track that was replaced during the lookups is discarded by the player; just keep it quiet
+      const isCurrent = loadId === loadIdRef.current;
+
+      if (track.audioUrl) {
+        // Progress stays keyed by the remote URL; only the file played comes from the download
+        return createAudioSound(localAudioUri ?? track.audioUrl, {
+          shouldPlay: autoPlay && isCurrent,
+          positionMillis: initialPosition,
+          rate: initialRate,
+          shouldCorrectPitch: true,
+          pitchCorrectionQuality: PitchCorrectionQuality.High,
+        })(onStatusUpdate);
+      }
+
+      const narrator: Narrator = createNarrator(track.text ?? '', {
+        rate: initialRate,
+        voice: settingsRef.current.speechVoice,
+        onStatusUpdate: (status) => onStatusUpdate(fromNarratorStatus(status)),
+        onError: () => onStatusUpdate({
+          ...fromNarratorStatus(narrator.getStatus()),
+          error: 'Speech synthesis failed',
+        }),
+      });
+      onStatusUpdate(fromNarratorStatus(narrator.getStatus()));
+      if (isCurrent) {
+        narratorRef.current = narrator;
+        if (autoPlay) {
+          narrator.play();
+        }
+      }
+      return narratorToSound(narrator);
+    };
+  }, []);
+
+  const loadTrack = useCallback(async (track: PlaybackTrack, autoPlay: boolean) => {
+    const loadId = ++loadIdRef.current;
+
+    persistLoadedTrack();
+    setCurrentTrack(track);
+    loadedTrackRef.current = track;
+    lastStatusRef.current = null;
+    narratorRef.current = null;
+    interruptedRef.current = false;
+    setSpeechProgress(null);
+
+    // Chapters of long books are queued before their text is fetched; get it now to read it aloud
+    let playable = track;
+    if (!track.audioUrl && !track.text && track.bookId && track.chapterId && !track.paragraphId) {
+      let text = '';
+      try {
+        text = formatHtmlContent(await loadChapterContent(track.bookId, track.chapterId)).trim();
+      } catch (error) {
+        // Left without text, the chapter waits for the reader like one that has none
+        console.error('Error loading chapter text:', error);
+      }
+      if (loadId !== loadIdRef.current) return;
+      if (text) {
+        playable = { ...track, text };
+        setCurrentTrack(playable);
+        loadedTrackRef.current = playable;
+      }
+    }
+
+    // Chapters with neither narration nor text stay selected so the reader can take over
+    if (!playable.audioUrl && !playable.text) {
+      await unloadSound();
+      return;
+    }
+
+    await loadSound(createTrackSound(playable, autoPlay));
+  }, [createTrackSound, loadSound, persistLoadedTrack, unloadSound]);
+
+  /**
+   * Loads the queue item at the given index, walking in the given direction
+   * past chapters without narration when the settings say to skip them.
+   * An item the listener picked explicitly is read aloud instead if it has text.
+   * @returns false if the walk ran off the end of the queue
+   */
+  const loadQueueIndex = useCallback(async (
+    index: number,
+    autoPlay: boolean,
+    direction: 1 | -1 = 1,
+    isExplicit: boolean = false
+  ): Promise<boolean> => {
+    const tracks = queueRef.current;
+    let target = index;
+
+    if (settingsRef.current.missingAudio === 'skip') {
+      // A chapter whose text hasn't been fetched yet may still have some to read
+      const shouldSkip = (i: number) =>
+        !tracks[i].audioUrl && !(isExplicit && i === index && (tracks[i].text || (tracks[i].chapterId && !tracks[i].paragraphId)));
+      while (target >= 0 && target < tracks.length && shouldSkip(target)) {
+        target += direction;
+      }
+    }
+
+    if (target < 0 || target >= tracks.length) {
+      return false;
+    }
+
+    updateQueue(tracks, target);
+    await loadTrack(tracks[target], autoPlay);
+    return true;
+  }, [loadTrack, updateQueue]);
+
+  // Auto-advance through the queue when a track ends
+  useEffect(() => {
+    onTrackFinishedRef.current = () => {
+      if (stopAtEndOfTrackRef.current) {
+        stopAtEndOfTrackRef.current = false;
+        setStopAtEndOfTrackState(false);
+        return;
+      }
+      loadQueueIndex(queueIndexRef.current + 1, true);
+    };
+  }, [loadQueueIndex]);
+
+  // Pick up again after an interruption once the listener is back in the app,
+  // in case the OS didn't hand the audio back by itself
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      const status = lastStatusRef.current;
+      if (state !== 'active' || !interruptedRef.current) return;
+
+      interruptedRef.current = false;
+      if (status?.shouldPlay && !status.isPlaying) {
+        play();
+      }
+    });
+    return () => subscription.remove();
+  }, [play]);
+
+  const isPlaying = playerState.status === 'playing' || playerState.status === 'buffering';
+  const position = playerState.positionMillis;
+
+  const playTrack = useCallback(async (track: PlaybackTrack, options?: { autoPlay?: boolean }) => {
+    const autoPlay = options?.autoPlay ?? true;
+
+    // Selecting the track that is already loaded shouldn't restart it
+    if (currentTrack?.id === track.id && playerState.status !== 'idle' && playerState.status !== 'error') {
+      if (autoPlay && !isPlaying) {
+        await play();
+      }
+      return;
+    }
+
+    updateQueue([track], 0);
+    await loadTrack(track, autoPlay);
+  }, [currentTrack, isPlaying, loadTrack, play, playerState.status, updateQueue]);
+
+  const playQueue = useCallback(async (
+    tracks: PlaybackTrack[],
+    startIndex: number = 0,
+    options?: { autoPlay?: boolean }
+  ) => {
+    if (tracks.length === 0) return;
+
+    const index = Math.min(Math.max(startIndex, 0), tracks.length - 1);
+    queueRef.current = tracks;
+    const loaded = await loadQueueIndex(index, options?.autoPlay ?? true, 1, true);
+    if (!loaded) {
+      // Nothing playable from the start index onwards; keep the queue for the Up Next view
+      updateQueue(tracks, index);
+    }
+  }, [loadQueueIndex, updateQueue]);
+
+  const addToQueue = useCallback((track: PlaybackTrack) => {
+    updateQueue([...queueRef.current, track], queueIndexRef.current);
+  }, [updateQueue]);
+
+  const moveInQueue = useCallback((fromIndex: number, toIndex: number) => {
+    const tracks = [...queueRef.current];
+    if (fromIndex < 0 || fromIndex >= tracks.length || toIndex < 0 || toIndex >= tracks.length) {
+      return;
+    }
+
+    const [moved] = tracks.splice(fromIndex, 1);
+    tracks.splice(toIndex, 0, moved);
+
+    // Keep pointing at the item that is currently playing
+    const current = queueRef.current[queueIndexRef.current];
+    updateQueue(tracks, current ? tracks.indexOf(current) : queueIndexRef.current);
+  }, [updateQueue]);
+
+  const removeFromQueue = useCallback((index: number) => {
+    // The playing item can't be removed; dismiss the player instead
+    if (index === queueIndexRef.current || index < 0 || index >= queueRef.current.length) {
+      return;
+    }
+
+    const tracks = queueRef.current.filter((_, i) => i !== index);
+    updateQueue(tracks, index < queueIndexRef.current ? queueIndexRef.current - 1 : queueIndexRef.current);
+  }, [updateQueue]);
+
+  const skipToIndex = useCallback(async (index: number) => {
+    await loadQueueIndex(index, true, 1, true);
+  }, [loadQueueIndex]);
+
+  const skipNext = useCallback(async () => {
+    await loadQueueIndex(queueIndexRef.current + 1, true);
+  }, [loadQueueIndex]);
+
+  const skipPrevious = useCallback(async () => {
+    // Like most players, the first press restarts the current track
+    if (position > RESTART_THRESHOLD_MILLIS) {
+      await seekTo(0);
+      return;
+    }
+
+    const moved = await loadQueueIndex(queueIndexRef.current - 1, true, -1);
+    if (!moved) {
+      await seekTo(0);
+    }
+  }, [loadQueueIndex, position, seekTo]);
+
+  const pause = useCallback(async () => {
+    interruptedRef.current = false;
+    await pausePlayer();
+    persistLoadedTrack();
+  }, [pausePlayer, persistLoadedTrack]);
+
+  const togglePlayPause = useCallback(async () => {
+    if (isPlaying) {
+      await pause();
+    } else {
+      await play();
+    }
+  }, [isPlaying, pause, play]);
+
+  const skipBy = useCallback(async (deltaMillis: number) => {
+    await seekTo(position + deltaMillis);
+  }, [position, seekTo]);
+
+  // Change the speed and remember it for the book
+  const setRate = useCallback(async (nextRate: number) => {
+    const track = loadedTrackRef.current;
+    if (track?.bookId) {
+      saveBookPlaybackRate(track.bookId, nextRate);
+    }
+    await setPlayerRate(nextRate);
+  }, [setPlayerRate]);
+
+  const setStopAtEndOfTrack = useCallback((stop: boolean) => {
+    stopAtEndOfTrackRef.current = stop;
+    setStopAtEndOfTrackState(stop);
+  }, []);
+
+  // Unloads the sound and clears the queue, hiding the mini-player
+  const dismiss = useCallback(async () => {
+    loadIdRef.current++;
+    persistLoadedTrack();
+    loadedTrackRef.current = null;
+    lastStatusRef.current = null;
+    narratorRef.current = null;
+    interruptedRef.current = false;
+    setCurrentTrack(null);
+    setSpeechProgress(null);
+    updateQueue([], -1);
+    await unloadSound();
+  }, [persistLoadedTrack, unloadSound, updateQueue]);
+
+  const retry = useCallback(async () => {
+    if (currentTrack) {
+      await loadTrack(currentTrack, false);
+    }
+  }, [currentTrack, loadTrack]);
+
+  const updateSettings = useCallback((changes: Partial<PlaybackSettings>) => {
+    const next = { ...settingsRef.current, ...changes };
+    settingsRef.current = next;
+    setSettings(next);
+    savePlaybackSettings(next);
+
+    if ('speechVoice' in changes) {
+      narratorRef.current?.setVoice(next.speechVoice);
+    }
+  }, []);
+
+  // Media keys and lock-screen buttons outlive renders, so they call through a ref
+  const mediaHandlersRef = useRef<MediaSessionHandlers | null>(null);
+  useEffect(() => {
+    mediaHandlersRef.current = {
+      play,
+      pause,
+      stop,
+      previousTrack: skipPrevious,
+      nextTrack: skipNext,
+      seekBy: skipBy,
+      seekTo,
+    };
+  }, [pause, play, seekTo, skipBy, skipNext, skipPrevious, stop]);
+
+  useEffect(() => {
+    const handlers = mediaHandlersRef;
+    setMediaSessionHandlers({
+      play: () => handlers.current?.play(),
+      pause: () => handlers.current?.pause(),
+      stop: () => handlers.current?.stop(),
+      previousTrack: () => handlers.current?.previousTrack(),
+      nextTrack: () => handlers.current?.nextTrack(),
+      seekBy: (deltaMillis) => handlers.current?.seekBy(deltaMillis),
+      seekTo: (positionMillis) => handlers.current?.seekTo(positionMillis),
+    });
+    return () => setMediaSessionHandlers(null);
+  }, []);
+
+  useEffect(() => {
+    setNowPlaying(currentTrack ? {
+      title: currentTrack.title,
+      artist: currentTrack.author,
+      // Chapter tracks carry the book title as their subtitle
+      album: currentTrack.chapterId ? currentTrack.subtitle : undefined,
+      artworkUrl: currentTrack.artworkUrl,
+    } : null);
+  }, [currentTrack]);
+
+  const duration = playerState.durationMillis;
+  const rate = playerState.rate;
+
+  useEffect(() => {
+    if (currentTrack) {
+      setMediaSessionState({ isPlaying, positionMillis: position, durationMillis: duration, rate });
+    }
+  }, [currentTrack, isPlaying, position, duration, rate]);
+
+  const status = playerState.status;
+  const isLoading = status === 'loading';
+  const error = playerState.error;
+  const isSynthesized = speechProgress !== null;
+  const needsFallback = !!currentTrack && !currentTrack.audioUrl && !currentTrack.text;
+  const hasNext = queueIndex >= 0 && queueIndex < queue.length - 1;
+  const hasPrevious = queueIndex > 0;
+
+  const value = useMemo<PlaybackContextValue>(() => ({
+    currentTrack,
+    queue,
+    queueIndex,
+    status,
+    isPlaying,
+    isLoading,
+    position,
+    duration,
+    rate,
+    error,
+    needsFallback,
+    isSynthesized,
+    speechProgress,
+    hasNext,
+    hasPrevious,
+    stopAtEndOfTrack,
+    settings,
+    playTrack,
+    playQueue,
+    addToQueue,
+    moveInQueue,
+    removeFromQueue,
+    skipToIndex,
+    skipNext,
+    skipPrevious,
+    togglePlayPause,
+    pause,
+    resume: play,
+    seekTo,
+    skipBy,
+    setRate,
+    setVolume,
+    setStopAtEndOfTrack,
+    restart,
+    stop,
+    dismiss,
+    retry,
+    updateSettings,
+  }), [
+    currentTrack, queue, queueIndex, status, isPlaying, isLoading, position, duration, rate, error,
+    needsFallback, isSynthesized, speechProgress, hasNext, hasPrevious, stopAtEndOfTrack, settings,
+    playTrack, playQueue, addToQueue, moveInQueue, removeFromQueue, skipToIndex, skipNext,
+    skipPrevious, togglePlayPause, pause, play, seekTo, skipBy, setRate, setVolume,
+    setStopAtEndOfTrack, restart, stop, dismiss, retry,
+    updateSettings,
+  ]);
+
+  return <PlaybackContext.Provider value={value}>{children}</PlaybackContext.Provider>;
+};
+
+export const usePlayback = (): PlaybackContextValue => {
+  const context = useContext(PlaybackContext);
+  if (!context) {
+    throw new Error('usePlayback must be used within a PlaybackProvider');
+  }
+  return context;
+};
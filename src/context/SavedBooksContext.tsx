@@ -0,0 +1,158 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import { Book, SavedBook } from '../types/book';
+import { useAuth } from './AuthContext';
+import { getUserSavedBooks, saveUserSavedBooks } from '../firebase/services';
+import {
+  clearGuestSavedLibrary,
+  getSavedLibrary,
+  mergeSavedEntries,
+  SavedLibrary,
+  saveSavedLibrary,
+} from '../storage/savedBooks';
+
+type SaveableBook = Pick<Book, 'id' | 'title' | 'author' | 'thumbnailUrl'>;
+
+interface SavedBooksContextValue {
+  // Books in the library, most recently saved first
+  savedBooks: SavedBook[];
+  isSaved: (bookId: string) => boolean;
+  toggleSave: (book: SaveableBook) => void;
+  removeSaved: (bookId: string) => void;
+}
+
+const SavedBooksContext = createContext<SavedBooksContextValue | undefined>(undefined);
+
+/**
+ * Keeps the saved-books library on the device, so it works signed out and
+ * offline. Each account has its own copy, kept in step with the user's
+ * Firestore library (latest change winning); books saved while signed out
+ * join the next account that signs in.
+ */
+export const SavedBooksProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const userId = user?.uid;
+  const [library, setLibrary] = useState<SavedLibrary>({});
+  // Mirrors for changes made while a load or sync is in flight
+  const libraryRef = useRef<SavedLibrary>({});
+  // The account whose library is showing, or undefined while signed out
+  const ownerRef = useRef<string | undefined>(undefined);
+  // Until the owner's stored library is in, changes are merged into it rather than written over it
+  const isLoadedRef = useRef(false);
+
+  const commit = useCallback((next: SavedLibrary) => {
+    libraryRef.current = next;
+    setLibrary(next);
+    if (isLoadedRef.current) {
+      saveSavedLibrary(next, ownerRef.current);
+    }
+  }, []);
+
+  useEffect(() => {
+    ownerRef.current = userId;
+    isLoadedRef.current = false;
+    libraryRef.current = {};
+    setLibrary({});
+    let cancelled = false;
+
+    const loadLibrary = async () => {
+      const stored = await getSavedLibrary(userId);
+      // Books saved while signed out go to the next account signed in, and to no other
+      const guest = userId ? await getSavedLibrary() : {};
+      if (cancelled) return;
+
+      isLoadedRef.current = true;
+      commit(mergeSavedEntries(
+        mergeSavedEntries(stored, Object.values(guest)),
+        Object.values(libraryRef.current)
+      ));
+      if (!userId) return;
+      if (Object.keys(guest).length > 0) {
+        await clearGuestSavedLibrary();
+      }
+
+      const remote = await getUserSavedBooks(userId);
+      if (!remote || cancelled) return;
+
+      commit(mergeSavedEntries(libraryRef.current, remote));
+
+      // Send up whatever this device has that's newer than the user's copy
+      const remoteById = new Map(remote.map(entry => [entry.bookId, entry]));
+      const newer = Object.values(libraryRef.current).filter(entry => {
+        const remoteEntry = remoteById.get(entry.bookId);
+        return !remoteEntry || entry.updatedAt > remoteEntry.updatedAt;
+      });
+      if (newer.length > 0) {
+        await saveUserSavedBooks(userId, newer);
+      }
+    };
+
+    loadLibrary();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, commit]);
+
+  const updateEntry = useCallback((entry: SavedBook) => {
+    commit({ ...libraryRef.current, [entry.bookId]: entry });
+    // A failed write is picked up by the next sync, since the device copy stays newer
+    if (ownerRef.current) {
+      saveUserSavedBooks(ownerRef.current, [entry]);
+    }
+  }, [commit]);
+
+  const removeSaved = useCallback((bookId: string) => {
+    const entry = libraryRef.current[bookId];
+    if (entry && !entry.isRemoved) {
+      updateEntry({ ...entry, isRemoved: true, updatedAt: Date.now() });
+    }
+  }, [updateEntry]);
+
+  const toggleSave = useCallback((book: SaveableBook) => {
+    if (libraryRef.current[book.id] && !libraryRef.current[book.id].isRemoved) {
+      removeSaved(book.id);
+      return;
+    }
+
+    const now = Date.now();
+    updateEntry({
+      bookId: book.id,
+      title: book.title,
+      author: book.author,
+      // Covers of downloaded copies are local files, which other devices can't open
+      thumbnailUrl: book.thumbnailUrl?.startsWith('http') ? book.thumbnailUrl : undefined,
+      savedAt: now,
+      isRemoved: false,
+      updatedAt: now,
+    });
+  }, [removeSaved, updateEntry]);
+
+  const savedBooks = useMemo(
+    () => Object.values(library).filter(entry => !entry.isRemoved).sort((a, b) => b.savedAt - a.savedAt),
+    [library]
+  );
+
+  const isSaved = useCallback((bookId: string) => !!library[bookId] && !library[bookId].isRemoved, [library]);
+
+  const value = useMemo<SavedBooksContextValue>(
+    () => ({ savedBooks, isSaved, toggleSave, removeSaved }),
+    [savedBooks, isSaved, toggleSave, removeSaved]
+  );
+
+  return <SavedBooksContext.Provider value={value}>{children}</SavedBooksContext.Provider>;
+};
+
+export const useSavedBooks = (): SavedBooksContextValue => {
+  const context = useContext(SavedBooksContext);
+  if (!context) {
+    throw new Error('useSavedBooks must be used within a SavedBooksProvider');
+  }
+  return context;
+};
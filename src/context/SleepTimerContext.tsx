@@ -0,0 +1,202 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import { Accelerometer } from 'expo-sensors';
+import { usePlayback } from './PlaybackContext';
+
+// Volume ramps down over this window before playback pauses
+const FADE_DURATION_MILLIS = 30000;
+
+// How much time a shake or an "extend" tap adds
+export const SLEEP_TIMER_EXTENSION_MILLIS = 5 * 60 * 1000;
+
+// Accelerometer magnitude (in g) that counts as a deliberate shake
+const SHAKE_THRESHOLD = 1.8;
+const SHAKE_DEBOUNCE_MILLIS = 1000;
+
+export type SleepTimerMode = 'off' | 'duration' | 'endOfChapter';
+
+interface SleepTimerContextValue {
+  mode: SleepTimerMode;
+  // Time left until playback pauses, or null when it depends on an unloaded track
+  remainingMillis: number | null;
+  isFading: boolean;
+  startTimer: (durationMillis: number) => void;
+  startEndOfChapterTimer: () => void;
+  extendTimer: () => void;
+  cancelTimer: () => void;
+}
+
+const SleepTimerContext = createContext<SleepTimerContextValue | undefined>(undefined);
+
+/**
+ * Pauses playback after a set time or at the end of the current chapter,
+ * fading the volume out first. Must be mounted inside PlaybackProvider.
+ */
+export const SleepTimerProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const {
+    currentTrack,
+    isPlaying,
+    position,
+    duration,
+    rate,
+    stopAtEndOfTrack,
+    pause,
+    setVolume,
+    setStopAtEndOfTrack,
+  } = usePlayback();
+  const [mode, setMode] = useState<SleepTimerMode>('off');
+  const [endsAt, setEndsAt] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const isFadingRef = useRef(false);
+
+  let remainingMillis: number | null = null;
+  if (mode === 'duration' && endsAt !== null) {
+    remainingMillis = Math.max(endsAt - now, 0);
+  } else if (mode === 'endOfChapter' && currentTrack && duration > 0) {
+    // Wall-clock time left in the chapter at the current speed
+    remainingMillis = Math.max(duration - position, 0) / (rate || 1);
+  }
+  const isFading = remainingMillis !== null && remainingMillis <= FADE_DURATION_MILLIS;
+
+  const resetVolume = useCallback(() => {
+    if (isFadingRef.current) {
+      isFadingRef.current = false;
+      setVolume(1);
+    }
+  }, [setVolume]);
+
+  const cancelTimer = useCallback(() => {
+    setMode('off');
+    setEndsAt(null);
+    setStopAtEndOfTrack(false);
+    resetVolume();
+  }, [resetVolume, setStopAtEndOfTrack]);
+
+  const startTimer = useCallback((durationMillis: number) => {
+    setMode('duration');
+    setNow(Date.now());
+    setEndsAt(Date.now() + durationMillis);
+    setStopAtEndOfTrack(false);
+    resetVolume();
+  }, [resetVolume, setStopAtEndOfTrack]);
+
+  const startEndOfChapterTimer = useCallback(() => {
+    setMode('endOfChapter');
+    setEndsAt(null);
+    setStopAtEndOfTrack(true);
+    resetVolume();
+  }, [resetVolume, setStopAtEndOfTrack]);
+
+  const extendTimer = useCallback(() => {
+    if (mode === 'off') return;
+
+    // An end-of-chapter timer becomes a fixed one that runs a little past the chapter
+    const base = remainingMillis ?? 0;
+    startTimer(base + SLEEP_TIMER_EXTENSION_MILLIS);
+  }, [mode, remainingMillis, startTimer]);
+
+  // Tick once a second while a fixed timer is running
+  useEffect(() => {
+    if (mode !== 'duration') return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [mode]);
+
+  // Fade out, then pause when the timer runs out
+  useEffect(() => {
+    if (mode === 'off' || remainingMillis === null) return;
+
+    if (mode === 'duration' && remainingMillis <= 0) {
+      pause().then(() => {
+        setVolume(1);
+        isFadingRef.current = false;
+      });
+      setMode('off');
+      setEndsAt(null);
+      return;
+    }
+
+    if (remainingMillis <= FADE_DURATION_MILLIS && isPlaying) {
+      isFadingRef.current = true;
+      setVolume(remainingMillis / FADE_DURATION_MILLIS);
+    }
+  }, [mode, remainingMillis, isPlaying, pause, setVolume]);
+
+  // The player clears stopAtEndOfTrack once the chapter has finished
+  useEffect(() => {
+    if (mode === 'endOfChapter' && !stopAtEndOfTrack) {
+      setMode('off');
+      resetVolume();
+    }
+  }, [mode, stopAtEndOfTrack, resetVolume]);
+
+  // Nothing left to put to sleep once the player is dismissed
+  useEffect(() => {
+    if (!currentTrack && mode !== 'off') {
+      cancelTimer();
+    }
+  }, [currentTrack, mode, cancelTimer]);
+
+  // Shaking the device extends a running timer
+  const extendTimerRef = useRef(extendTimer);
+
+  useEffect(() => {
+    extendTimerRef.current = extendTimer;
+  }, [extendTimer]);
+
+  useEffect(() => {
+    if (mode === 'off') return;
+
+    let lastShake = 0;
+    let cancelled = false;
+    let subscription: { remove: () => void } | null = null;
+
+    Accelerometer.isAvailableAsync()
+      .then(available => {
+        if (!available || cancelled) return;
+
+        Accelerometer.setUpdateInterval(200);
+        subscription = Accelerometer.addListener(({ x, y, z }) => {
+          const magnitude = Math.sqrt(x * x + y * y + z * z);
+          if (magnitude > SHAKE_THRESHOLD && Date.now() - lastShake > SHAKE_DEBOUNCE_MILLIS) {
+            lastShake = Date.now();
+            extendTimerRef.current();
+          }
+        });
+      })
+      .catch(error => console.error('Error starting shake detection:', error));
+
+    return () => {
+      cancelled = true;
+      subscription?.remove();
+    };
+  }, [mode]);
+
+  const value = useMemo<SleepTimerContextValue>(() => ({
+    mode,
+    remainingMillis,
+    isFading,
+    startTimer,
+    startEndOfChapterTimer,
+    extendTimer,
+    cancelTimer,
+  }), [mode, remainingMillis, isFading, startTimer, startEndOfChapterTimer, extendTimer, cancelTimer]);
+
+  return <SleepTimerContext.Provider value={value}>{children}</SleepTimerContext.Provider>;
+};
+
+export const useSleepTimer = (): SleepTimerContextValue => {
+  const context = useContext(SleepTimerContext);
+  if (!context) {
+    throw new Error('useSleepTimer must be used within a SleepTimerProvider');
+  }
+  return context;
+};
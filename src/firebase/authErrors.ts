@@ -0,0 +1,40 @@
+import { FirebaseError } from 'firebase/app';
+
+// What to tell the user for the Firebase Auth errors they can cause or fix
+const AUTH_ERROR_MESSAGES: Record<string, string> = {
+  'auth/invalid-email': 'That email address doesn’t look right.',
+  'auth/missing-email': 'Enter your email address.',
+  'auth/missing-password': 'Enter your password.',
+  'auth/user-disabled': 'This account has been disabled. Contact support for help.',
+  'auth/user-not-found': 'No account uses that email address. Check it, or sign up instead.',
+  'auth/wrong-password': 'That password is incorrect.',
+  'auth/invalid-credential': 'The email address or password is incorrect.',
+  'auth/invalid-login-credentials': 'The email address or password is incorrect.',
+  'auth/email-already-in-use': 'An account already uses that email address. Sign in instead.',
+  'auth/weak-password': 'Choose a password of at least 6 characters.',
+  'auth/too-many-requests': 'Too many attempts. Wait a few minutes and try again.',
+  'auth/network-request-failed': 'Couldn’t reach the server. Check your connection and try again.',
+  'auth/operation-not-allowed': 'This way of signing in isn’t available right now.',
+  'auth/requires-recent-login': 'For your security, sign in again and then retry.',
+  'auth/expired-action-code': 'That link has expired. Request a new one.',
+  'auth/invalid-action-code': 'That link is invalid or has already been used.',
+  'auth/account-exists-with-different-credential':
+    'An account already uses this Google account’s email address. Sign in with your password to connect Google to it.',
+  'auth/credential-already-in-use': 'That Google account is already connected to a different TuneTalez account.',
+  'auth/provider-already-linked': 'Google is already connected to this account.',
+  'auth/no-such-provider': 'Google isn’t connected to this account.',
+  'auth/requires-another-provider': 'Set a password before disconnecting Google, so you can still sign in.',
+  'auth/popup-blocked': 'Your browser blocked the sign-in window. Allow pop-ups for this site and try again.',
+};
+
+/**
+ * Turns an error from Firebase Auth into a message fit to show the user
+ * @param error The error that was thrown
+ * @returns A short explanation of what went wrong
+ */
+export const getAuthErrorMessage = (error: unknown): string => {
+  if (error instanceof FirebaseError && AUTH_ERROR_MESSAGES[error.code]) {
+    return AUTH_ERROR_MESSAGES[error.code];
+  }
+  return 'Something went wrong. Please try again.';
+};
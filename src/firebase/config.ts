@@ -1,7 +1,22 @@
 // Import the functions you need from the SDKs you need
 import { initializeApp, getApps } from 'firebase/app';
 import { getFirestore } from 'firebase/firestore';
-import { getAuth } from 'firebase/auth';
+import {
+  Auth,
+  connectAuthEmulator,
+  getAuth,
+  getReactNativePersistence,
+  initializeAuth,
+  Persistence,
+  ReactNativeAsyncStorage,
+} from 'firebase/auth';
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Only Firebase's React Native build exports this, and the firebase/auth types are the web ones
+declare module 'firebase/auth' {
+  export function getReactNativePersistence(storage: ReactNativeAsyncStorage): Persistence;
+}
 
 // Your web app's Firebase configuration
 // For Firebase JS SDK v7.20.0 and later, measurementId is optional
@@ -26,7 +41,25 @@ if (getApps().length === 0) {
 // Initialize Firestore
 const db = getFirestore(app);
 
-// Initialize Auth
-const auth = getAuth(app);
+// Initialize Auth. The web SDK keeps the session in the browser by itself; the apps have to
+// be given AsyncStorage, or everyone is signed out whenever the app restarts.
+// getAuth hands back the instance already set up when the app reloads.
+let auth: Auth;
+if (Platform.OS === 'web') {
+  auth = getAuth(app);
+} else {
+  try {
+    auth = initializeAuth(app, { persistence: getReactNativePersistence(AsyncStorage) });
+  } catch {
+    auth = getAuth(app);
+  }
+}
+
+// For local testing, set EXPO_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST (e.g. localhost:9099) to use
+// the Auth emulator instead of real accounts. Checked first so a reload doesn't connect twice.
+const authEmulatorHost = process.env.EXPO_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST;
+if (authEmulatorHost && !auth.emulatorConfig) {
+  connectAuthEmulator(auth, `http://${authEmulatorHost}`, { disableWarnings: true });
+}
 
 export { app, db, auth };
\ No newline at end of file
@@ -0,0 +1,94 @@
+import { Platform } from 'react-native';
+import * as Crypto from 'expo-crypto';
+import * as Linking from 'expo-linking';
+import * as WebBrowser from 'expo-web-browser';
+import { FirebaseError } from 'firebase/app';
+import { GoogleAuthProvider, OAuthCredential } from 'firebase/auth';
+
+const GOOGLE_AUTH_URL = 'https://accounts.google.com/o/oauth2/v2/auth';
+const GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+
+// OAuth client IDs of the iOS and Android apps, from the Google Cloud console
+const getClientId = (): string | undefined => Platform.select({
+  ios: process.env.EXPO_PUBLIC_GOOGLE_IOS_CLIENT_ID,
+  android: process.env.EXPO_PUBLIC_GOOGLE_ANDROID_CLIENT_ID,
+});
+
+// Installed-app clients redirect to their own ID reversed, e.g. com.googleusercontent.apps.123-abc:/oauthredirect
+const getRedirectUri = (clientId: string): string => `${clientId.split('.').reverse().join('.')}:/oauthredirect`;
+
+// PKCE and OAuth state values are base64url, without padding
+const toBase64Url = (base64: string): string => base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+// Random bytes from the platform's secure generator, base64url-encoded
+const randomString = (byteCount: number): string => toBase64Url(btoa(String.fromCharCode(...Crypto.getRandomBytes(byteCount))));
+
+// The S256 code challenge Google checks the verifier against
+const getCodeChallenge = async (codeVerifier: string): Promise<string> => toBase64Url(
+  await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, codeVerifier, {
+    encoding: Crypto.CryptoEncoding.BASE64,
+  })
+);
+
+const toQueryString = (params: Record<string, string>): string =>
+  Object.entries(params).map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`).join('&');
+
+/**
+ * Signs in to Google in the system browser and returns a credential Firebase
+ * can use, for the iOS and Android apps (the web app uses Firebase's popup).
+ * Uses the authorization code flow with PKCE, as Google requires for apps.
+ * @returns The credential, or null if the user backed out
+ */
+export const getGoogleCredential = async (): Promise<OAuthCredential | null> => {
+  const clientId = getClientId();
+  if (!clientId) {
+    throw new FirebaseError('auth/operation-not-allowed', 'No Google OAuth client ID is configured for this platform');
+  }
+
+  const redirectUri = getRedirectUri(clientId);
+  const state = randomString(16);
+  // 32 bytes make the 43-character verifier RFC 7636 recommends
+  const codeVerifier = randomString(32);
+  const codeChallenge = await getCodeChallenge(codeVerifier);
+  const authUrl = `${GOOGLE_AUTH_URL}?${toQueryString({
+    client_id: clientId,
+    redirect_uri: redirectUri,
+    response_type: 'code',
+    scope: 'openid email profile',
+    state,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
+    prompt: 'select_account',
+  })}`;
+
+  const result = await WebBrowser.openAuthSessionAsync(authUrl, redirectUri);
+  if (result.type !== 'success') {
+    return null;
+  }
+
+  const params = Linking.parse(result.url).queryParams ?? {};
+  if (params.error === 'access_denied') {
+    return null;
+  }
+  if (params.state !== state || typeof params.code !== 'string') {
+    throw new Error(`Google sign-in was not completed: ${params.error ?? 'unexpected response'}`);
+  }
+
+  const response = await fetch(GOOGLE_TOKEN_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: toQueryString({
+      code: params.code,
+      client_id: clientId,
+      redirect_uri: redirectUri,
+      grant_type: 'authorization_code',
+      code_verifier: codeVerifier,
+    }),
+  });
+  const tokens = await response.json();
+  if (!response.ok || !tokens.id_token) {
+    throw new Error(`Google token exchange failed: ${tokens.error_description ?? response.status}`);
+  }
+
+  return GoogleAuthProvider.credential(tokens.id_token, tokens.access_token);
+};
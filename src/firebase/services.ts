@@ -4,19 +4,29 @@ import {
   getDocs, 
   getDoc, 
   doc, 
+  setDoc,
+  deleteDoc,
+  writeBatch,
+  getCountFromServer,
+  runTransaction,
+  increment,
   orderBy, 
   limit, 
+  // For searchBooks, whose limit parameter hides the function
+  limit as limitQuery,
+  where,
   DocumentData,
   startAfter,
   QueryDocumentSnapshot,
   Timestamp,
 } from 'firebase/firestore';
 import { db } from './config';
-import { Book, BookWithAudio, Chapter, Paragraph } from '../types/book';
+import { Book, BookWithAudio, BookWithChapters, Chapter, LikedBook, Paragraph, SavedBook } from '../types/book';
+import { ReadingProgress } from '../types/reader';
 import { processBookUrls } from '../r2/services';
 
 // Convert Firestore document to Book type
-export const convertBookDoc = (doc: DocumentData): Book => {
+export const convertBookDoc = (doc: DocumentData): BookWithChapters => {
   const data = doc.data();
   
   // Handle Firestore Timestamps
@@ -30,7 +40,9 @@ export const convertBookDoc = (doc: DocumentData): Book => {
     updatedAt = updatedAt.toDate();
   }
   
-  // Process chapters if they exist
+  // Chapters listed on the book are usually just metadata (title, order, audio), with their
+  // text in the chapters collection so long serials stay under Firestore's document size limit.
+  // Older books embed each chapter's content here instead.
   const chapters = data.chapters || [];
   
   return {
@@ -52,6 +64,8 @@ export const convertBookDoc = (doc: DocumentData): Book => {
     userId: data.userId || '',
     readCount: data.readCount || 0,
     status: data.status || 'published',
+    wordCount: data.wordCount || 0,
+    duration: data.duration || 0,
     chapters: chapters
   };
 };
@@ -183,7 +197,7 @@ export const getFeaturedBooks = async (count: number = 5): Promise<Book[]> => {
 };
 
 // Get a single book by ID
-export const getBookById = async (bookId: string): Promise<Book | null> => {
+export const getBookById = async (bookId: string): Promise<BookWithChapters | null> => {
   try {
     const bookDoc = await getDoc(doc(db, 'books', bookId));
     
@@ -222,36 +236,47 @@ export const getBooksWithAudio = async (count: number = 10): Promise<BookWithAud
   }
 };
 
-// Get chapters for a book - using client-side filtering
+const convertChapterDoc = (doc: DocumentData): Chapter => {
+  const data = doc.data();
+  return {
+    id: doc.id,
+    title: data.title || '',
+    content: data.content || '',
+    order: data.order || 0,
+    bookId: data.bookId,
+    audioUrl: data.audioUrl || '',
+    wordCount: data.wordCount || 0,
+    duration: data.duration || 0,
+  };
+};
+
+// Get all of a book's chapters with their content - sorted client-side, as an equality filter alone needs no composite index
 export const getChapters = async (bookId: string): Promise<Chapter[]> => {
   try {
     const chaptersQuery = query(
       collection(db, 'chapters'),
-      orderBy('order', 'asc')
+      where('bookId', '==', bookId)
     );
     
     const querySnapshot = await getDocs(chaptersQuery);
-    const allChapters = querySnapshot.docs.map(doc => {
-      const data = doc.data();
-      return {
-        id: doc.id,
-        title: data.title || '',
-        content: data.content || '',
-        order: data.order || 0,
-        bookId: data.bookId,
-        audioUrl: data.audioUrl || '',
-      };
-    });
-    
-    // Filter by bookId
-    const bookChapters = allChapters.filter(chapter => chapter.bookId === bookId);
-    return bookChapters;
+    return querySnapshot.docs.map(convertChapterDoc).sort((a, b) => a.order - b.order);
   } catch (error) {
     console.error(`Error getting chapters for book ${bookId}:`, error);
     return [];
   }
 };
 
+// Get a single chapter, including its content. Throws if the fetch fails, so the reader can tell it from a missing chapter and retry.
+export const getChapterById = async (chapterId: string): Promise<Chapter | null> => {
+  try {
+    const chapterDoc = await getDoc(doc(db, 'chapters', chapterId));
+    return chapterDoc.exists() ? convertChapterDoc(chapterDoc) : null;
+  } catch (error) {
+    console.error(`Error getting chapter with ID ${chapterId}:`, error);
+    throw error;
+  }
+};
+
 // Get paragraphs for a chapter - using client-side filtering
 export const getParagraphs = async (bookId: string, chapterId: string): Promise<Paragraph[]> => {
   try {
@@ -294,7 +319,7 @@ export const searchBooks = async (searchTerm: string, limit: number = 10): Promi
     const booksQuery = query(
       collection(db, 'books'),
       orderBy('title'),
-      limit(50) // Get more to filter
+      limitQuery(50) // Get more to filter
     );
     
     const querySnapshot = await getDocs(booksQuery);
@@ -314,4 +339,211 @@ export const searchBooks = async (searchTerm: string, limit: number = 10): Promi
     console.error(`Error searching books with term ${searchTerm}:`, error);
     return [];
   }
-};
\ No newline at end of file
+};
+
+// Get a user's reading progress for every book they've opened
+export const getUserReadingProgress = async (userId: string): Promise<ReadingProgress[]> => {
+  try {
+    const querySnapshot = await getDocs(collection(db, 'users', userId, 'readingProgress'));
+    return querySnapshot.docs.map(doc => doc.data() as ReadingProgress);
+  } catch (error) {
+    console.error(`Error getting reading progress for user ${userId}:`, error);
+    return [];
+  }
+};
+
+// Get a user's reading progress for one book
+export const getUserBookReadingProgress = async (
+  userId: string,
+  bookId: string
+): Promise<ReadingProgress | null> => {
+  try {
+    const progressDoc = await getDoc(doc(db, 'users', userId, 'readingProgress', bookId));
+    return progressDoc.exists() ? (progressDoc.data() as ReadingProgress) : null;
+  } catch (error) {
+    console.error(`Error getting reading progress for book ${bookId}:`, error);
+    return null;
+  }
+};
+
+// Save a user's place in a book so it follows them to other devices
+export const saveUserReadingProgress = async (userId: string, progress: ReadingProgress): Promise<void> => {
+  try {
+    // Firestore rejects undefined fields
+    const { thumbnailUrl, ...rest } = progress;
+    await setDoc(
+      doc(db, 'users', userId, 'readingProgress', progress.bookId),
+      thumbnailUrl ? { ...rest, thumbnailUrl } : rest
+    );
+  } catch (error) {
+    console.error(`Error saving reading progress for book ${progress.bookId}:`, error);
+  }
+};
+
+// Per-user subcollections, removed along with the account
+const USER_COLLECTIONS = ['readingProgress', 'likes', 'saved'];
+
+// Firestore caps a batched write at 500 operations
+const MAX_BATCH_SIZE = 500;
+
+// Count the books a user has liked, without downloading them
+export const getUserLikeCount = async (userId: string): Promise<number> => {
+  try {
+    const snapshot = await getCountFromServer(collection(db, 'users', userId, 'likes'));
+    return snapshot.data().count;
+  } catch (error) {
+    console.error(`Error counting likes for user ${userId}:`, error);
+    return 0;
+  }
+};
+
+// Get the ids of every book a user has liked
+export const getUserLikedBookIds = async (userId: string): Promise<string[]> => {
+  try {
+    const querySnapshot = await getDocs(collection(db, 'users', userId, 'likes'));
+    return querySnapshot.docs.map(likeDoc => likeDoc.id);
+  } catch (error) {
+    console.error(`Error getting likes for user ${userId}:`, error);
+    return [];
+  }
+};
+
+// Get a page of a user's liked books, most recently liked first
+export const getUserLikedBooks = async (
+  userId: string,
+  lastDoc?: QueryDocumentSnapshot<DocumentData>,
+  pageSize: number = 12
+): Promise<{ books: LikedBook[], lastDoc: QueryDocumentSnapshot<DocumentData> | null }> => {
+  try {
+    const likesQuery = lastDoc
+      ? query(collection(db, 'users', userId, 'likes'), orderBy('likedAt', 'desc'), startAfter(lastDoc), limit(pageSize))
+      : query(collection(db, 'users', userId, 'likes'), orderBy('likedAt', 'desc'), limit(pageSize));
+
+    const querySnapshot = await getDocs(likesQuery);
+    return {
+      books: querySnapshot.docs.map(likeDoc => likeDoc.data() as LikedBook),
+      lastDoc: querySnapshot.docs.length > 0 ? querySnapshot.docs[querySnapshot.docs.length - 1] : null,
+    };
+  } catch (error) {
+    console.error(`Error getting liked books for user ${userId}:`, error);
+    return { books: [], lastDoc: null };
+  }
+};
+
+/**
+ * Adds a book to a user's likes and counts it in the book's total, in one
+ * transaction so the two can't drift apart. Liking a book twice does nothing.
+ * Throws if the transaction fails, so the caller can undo what it showed.
+ * @param userId The user's uid
+ * @param book The book being liked
+ */
+export const likeBook = async (
+  userId: string,
+  book: Pick<Book, 'id' | 'title' | 'author' | 'thumbnailUrl'>
+): Promise<void> => {
+  const likeRef = doc(db, 'users', userId, 'likes', book.id);
+  const bookRef = doc(db, 'books', book.id);
+
+  await runTransaction(db, async transaction => {
+    const [likeDoc, bookDoc] = await Promise.all([transaction.get(likeRef), transaction.get(bookRef)]);
+    if (likeDoc.exists() || !bookDoc.exists()) return;
+
+    const liked: LikedBook = {
+      bookId: book.id,
+      title: book.title,
+      author: book.author,
+      likedAt: Date.now(),
+    };
+    // A downloaded copy's cover is a local file, which is no use on other devices
+    if (book.thumbnailUrl?.startsWith('http')) {
+      liked.thumbnailUrl = book.thumbnailUrl;
+    }
+
+    transaction.set(likeRef, liked);
+    transaction.update(bookRef, { likes: (bookDoc.data().likes || 0) + 1 });
+  });
+};
+
+/**
+ * Removes a book from a user's likes and takes it off the book's total, in
+ * one transaction. Throws if the transaction fails.
+ * @param userId The user's uid
+ * @param bookId The book being unliked
+ */
+export const unlikeBook = async (userId: string, bookId: string): Promise<void> => {
+  const likeRef = doc(db, 'users', userId, 'likes', bookId);
+  const bookRef = doc(db, 'books', bookId);
+
+  await runTransaction(db, async transaction => {
+    const [likeDoc, bookDoc] = await Promise.all([transaction.get(likeRef), transaction.get(bookRef)]);
+    if (!likeDoc.exists()) return;
+
+    transaction.delete(likeRef);
+    // The book may have been removed since it was liked
+    if (bookDoc.exists()) {
+      transaction.update(bookRef, { likes: Math.max((bookDoc.data().likes || 0) - 1, 0) });
+    }
+  });
+};
+
+/**
+ * Gets every entry in a user's saved library, removed books included
+ * @param userId The user's uid
+ * @returns The entries, or null if they couldn't be loaded
+ */
+export const getUserSavedBooks = async (userId: string): Promise<SavedBook[] | null> => {
+  try {
+    const querySnapshot = await getDocs(collection(db, 'users', userId, 'saved'));
+    return querySnapshot.docs.map(savedDoc => savedDoc.data() as SavedBook);
+  } catch (error) {
+    console.error(`Error getting saved books for user ${userId}:`, error);
+    return null;
+  }
+};
+
+// Write saved library entries to the user's copy, replacing what's there for those books
+export const saveUserSavedBooks = async (userId: string, entries: SavedBook[]): Promise<void> => {
+  try {
+    for (let start = 0; start < entries.length; start += MAX_BATCH_SIZE) {
+      const batch = writeBatch(db);
+      for (const { thumbnailUrl, ...rest } of entries.slice(start, start + MAX_BATCH_SIZE)) {
+        // Firestore rejects undefined fields
+        batch.set(doc(db, 'users', userId, 'saved', rest.bookId), thumbnailUrl ? { ...rest, thumbnailUrl } : rest);
+      }
+      await batch.commit();
+    }
+  } catch (error) {
+    console.error(`Error saving saved books for user ${userId}:`, error);
+  }
+};
+
+/**
+ * Deletes everything stored in Firestore for a user: their reading progress,
+ * likes, saved books and profile document. Each like is taken back off its
+ * book's total in the same batch that deletes it. Throws on failure, so the
+ * account isn't deleted with data left behind.
+ * @param userId The user's uid
+ */
+export const deleteUserData = async (userId: string): Promise<void> => {
+  for (const collectionName of USER_COLLECTIONS) {
+    const snapshot = await getDocs(collection(db, 'users', userId, collectionName));
+    const isLikes = collectionName === 'likes';
+    // A like takes two writes, its own delete and its book's total
+    const batchSize = isLikes ? MAX_BATCH_SIZE / 2 : MAX_BATCH_SIZE;
+
+    for (let start = 0; start < snapshot.docs.length; start += batchSize) {
+      const items = snapshot.docs.slice(start, start + batchSize);
+      const batch = writeBatch(db);
+      items.forEach(item => batch.delete(item.ref));
+      if (isLikes) {
+        // Books removed since they were liked have no total left to update
+        const bookDocs = await Promise.all(items.map(item => getDoc(doc(db, 'books', item.id))));
+        bookDocs
+          .filter(bookDoc => bookDoc.exists())
+          .forEach(bookDoc => batch.update(bookDoc.ref, { likes: increment(-1) }));
+      }
+      await batch.commit();
+    }
+  }
+  await deleteDoc(doc(db, 'users', userId));
+};
@@ -0,0 +1,215 @@
+import { act, renderHook } from '@testing-library/react-native';
+import { AVPlaybackStatus } from 'expo-av';
+import {
+  fromAVPlaybackStatus,
+  INITIAL_PLAYER_STATE,
+  PlayerSound,
+  PlayerStatusUpdate,
+  playerReducer,
+  SoundFactory,
+  usePlayer,
+} from '../usePlayer';
+
+// The native module isn't available under jest; these tests bring their own sounds
+jest.mock('expo-av', () => ({
+  Audio: { Sound: { createAsync: jest.fn() } },
+  PitchCorrectionQuality: { High: 'High' },
+}));
+
+const statusUpdate = (changes: Partial<PlayerStatusUpdate> = {}): PlayerStatusUpdate => ({
+  isLoaded: true,
+  isPlaying: false,
+  isBuffering: false,
+  shouldPlay: false,
+  positionMillis: 0,
+  durationMillis: 60000,
+  rate: 1,
+  didJustFinish: false,
+  ...changes,
+});
+
+const createFakeSound = (): jest.Mocked<PlayerSound> => ({
+  playAsync: jest.fn().mockResolvedValue(undefined),
+  pauseAsync: jest.fn().mockResolvedValue(undefined),
+  stopAsync: jest.fn().mockResolvedValue(undefined),
+  unloadAsync: jest.fn().mockResolvedValue(undefined),
+  setPositionAsync: jest.fn().mockResolvedValue(undefined),
+  setRateAsync: jest.fn().mockResolvedValue(undefined),
+  setVolumeAsync: jest.fn().mockResolvedValue(undefined),
+});
+
+// A factory whose sound arrives when the test says so, and which can report statuses afterwards
+const createControlledFactory = (sound: PlayerSound) => {
+  let report: (update: PlayerStatusUpdate) => void = () => {};
+  let resolve: (loaded: PlayerSound) => void = () => {};
+  const loaded = new Promise<PlayerSound>(done => {
+    resolve = done;
+  });
+  const factory: SoundFactory = (onStatusUpdate) => {
+    report = onStatusUpdate;
+    return loaded;
+  };
+  return {
+    factory,
+    finishLoading: () => resolve(sound),
+    report: (update: PlayerStatusUpdate) => report(update),
+  };
+};
+
+describe('playerReducer', () => {
+  it('buffers only while playback is wanted, then plays', () => {
+    const loading = playerReducer(INITIAL_PLAYER_STATE, { type: 'load' });
+    expect(loading.status).toBe('loading');
+
+    const buffering = playerReducer(loading, {
+      type: 'status',
+      update: statusUpdate({ isBuffering: true, shouldPlay: true }),
+    });
+    expect(buffering.status).toBe('buffering');
+
+    const playing = playerReducer(buffering, {
+      type: 'status',
+      update: statusUpdate({ isPlaying: true, shouldPlay: true, positionMillis: 1000 }),
+    });
+    expect(playing).toMatchObject({ status: 'playing', positionMillis: 1000 });
+
+    const pausedWhileBuffering = playerReducer(playing, {
+      type: 'status',
+      update: statusUpdate({ isBuffering: true, shouldPlay: false, positionMillis: 1000 }),
+    });
+    expect(pausedWhileBuffering.status).toBe('paused');
+  });
+
+  it('stays ended until moved away from the end', () => {
+    const ended = playerReducer(INITIAL_PLAYER_STATE, {
+      type: 'status',
+      update: statusUpdate({ didJustFinish: true, positionMillis: 60000 }),
+    });
+    expect(ended).toMatchObject({ status: 'ended', positionMillis: 60000 });
+
+    const stillEnded = playerReducer(ended, {
+      type: 'status',
+      update: statusUpdate({ positionMillis: 60000 }),
+    });
+    expect(stillEnded.status).toBe('ended');
+
+    const seeked = playerReducer(stillEnded, { type: 'seek', positionMillis: 0 });
+    expect(seeked).toMatchObject({ status: 'paused', positionMillis: 0 });
+  });
+
+  it('reports errors from the sound and clears them on the next good status', () => {
+    const failed = playerReducer(INITIAL_PLAYER_STATE, {
+      type: 'status',
+      update: statusUpdate({ isLoaded: false, error: 'Playback error: network' }),
+    });
+    expect(failed).toMatchObject({ status: 'error', error: 'Playback error: network' });
+
+    const recovered = playerReducer(failed, { type: 'status', update: statusUpdate() });
+    expect(recovered).toMatchObject({ status: 'paused', error: null });
+  });
+});
+
+describe('fromAVPlaybackStatus', () => {
+  it('ignores the finish of a looping sound', () => {
+    const status = {
+      isLoaded: true,
+      isPlaying: true,
+      isBuffering: false,
+      shouldPlay: true,
+      positionMillis: 60000,
+      durationMillis: 60000,
+      rate: 1,
+      didJustFinish: true,
+      isLooping: true,
+    } as AVPlaybackStatus;
+
+    expect(fromAVPlaybackStatus(status)).toMatchObject({ isLoaded: true, didJustFinish: false });
+  });
+
+  it('turns an unloaded status with an error into an error report', () => {
+    const status = { isLoaded: false, error: 'network' } as AVPlaybackStatus;
+
+    expect(fromAVPlaybackStatus(status)).toMatchObject({
+      isLoaded: false,
+      error: 'Playback error: network',
+    });
+  });
+});
+
+describe('usePlayer', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('starts over when played again after the end', async () => {
+    const sound = createFakeSound();
+    const controlled = createControlledFactory(sound);
+    const onFinish = jest.fn();
+    const { result } = renderHook(() => usePlayer({ onFinish }));
+
+    await act(async () => {
+      const loading = result.current.load(controlled.factory);
+      controlled.finishLoading();
+      await loading;
+    });
+    act(() => {
+      controlled.report(statusUpdate({ didJustFinish: true, positionMillis: 60000 }));
+    });
+    expect(result.current.state.status).toBe('ended');
+    expect(onFinish).toHaveBeenCalledTimes(1);
+
+    await act(() => result.current.play());
+    expect(sound.setPositionAsync).toHaveBeenCalledWith(0);
+    expect(sound.playAsync).toHaveBeenCalledTimes(1);
+    expect(sound.setPositionAsync.mock.invocationCallOrder[0])
+      .toBeLessThan(sound.playAsync.mock.invocationCallOrder[0]);
+  });
+
+  it('drops a load that finishes after a newer one', async () => {
+    const staleSound = createFakeSound();
+    const currentSound = createFakeSound();
+    const stale = createControlledFactory(staleSound);
+    const current = createControlledFactory(currentSound);
+    const { result } = renderHook(() => usePlayer());
+
+    let staleResult: Promise<boolean> = Promise.resolve(true);
+    await act(async () => {
+      staleResult = result.current.load(stale.factory);
+      const currentResult = result.current.load(current.factory);
+      current.finishLoading();
+      await currentResult;
+    });
+    act(() => {
+      current.report(statusUpdate({ positionMillis: 5000 }));
+    });
+
+    await act(async () => {
+      stale.finishLoading();
+      expect(await staleResult).toBe(false);
+    });
+    expect(staleSound.unloadAsync).toHaveBeenCalled();
+
+    // The replaced sound can no longer move the player
+    act(() => {
+      stale.report(statusUpdate({ isPlaying: true, positionMillis: 30000 }));
+    });
+    expect(result.current.state).toMatchObject({ status: 'paused', positionMillis: 5000 });
+
+    await act(() => result.current.play());
+    expect(currentSound.playAsync).toHaveBeenCalledTimes(1);
+    expect(staleSound.playAsync).not.toHaveBeenCalled();
+  });
+
+  it('shows an error when the sound fails to load', async () => {
+    const { result } = renderHook(() => usePlayer());
+
+    await act(async () => {
+      expect(await result.current.load(() => Promise.reject(new Error('offline')))).toBe(false);
+    });
+    expect(result.current.state).toMatchObject({ status: 'error', error: 'Failed to load audio' });
+  });
+});
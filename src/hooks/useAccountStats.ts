@@ -0,0 +1,86 @@
+import { useCallback, useState } from 'react';
+import { useFocusEffect } from 'expo-router';
+import { getUserLikeCount, getUserReadingProgress } from '../firebase/services';
+import { getListeningHistory, isProgressComplete } from '../storage/listeningHistory';
+import { useSavedBooks } from '../context/SavedBooksContext';
+
+// Chapters scrolled or paged this far through count as read
+const CHAPTER_READ_OFFSET = 0.95;
+
+export interface AccountStats {
+  booksStarted: number;
+  booksFinished: number;
+  episodesRead: number;
+  episodesListened: number;
+  listeningMillis: number;
+  liked: number;
+  saved: number;
+}
+
+const EMPTY_STATS: AccountStats = {
+  booksStarted: 0,
+  booksFinished: 0,
+  episodesRead: 0,
+  episodesListened: 0,
+  listeningMillis: 0,
+  liked: 0,
+  saved: 0,
+};
+
+/**
+ * Sums up a user's reading and listening, reloaded whenever the screen
+ * regains focus. Reading counts come from the progress synced to their
+ * account; listening is what they played on this device while signed in.
+ * @param userId The signed-in user's uid
+ */
+export const useAccountStats = (userId: string | undefined) => {
+  // Tagged with whose stats they are, so another account's never show while switching
+  const [loaded, setLoaded] = useState<{ userId: string; stats: Omit<AccountStats, 'saved'> } | null>(null);
+  const { savedBooks } = useSavedBooks();
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!userId) return;
+      let cancelled = false;
+
+      const loadStats = async () => {
+        const [readingHistory, listeningHistory, liked] = await Promise.all([
+          getUserReadingProgress(userId),
+          getListeningHistory(userId),
+          getUserLikeCount(userId),
+        ]);
+        if (cancelled) return;
+
+        setLoaded({
+          userId,
+          stats: {
+            booksStarted: readingHistory.length,
+            booksFinished: readingHistory.filter(progress => progress.percent >= 100).length,
+            episodesRead: readingHistory.reduce(
+              (total, progress) => total + Object.values(progress.chapterOffsets ?? {})
+                .filter(offset => offset >= CHAPTER_READ_OFFSET).length,
+              0
+            ),
+            episodesListened: listeningHistory.filter(isProgressComplete).length,
+            listeningMillis: listeningHistory.reduce(
+              (total, progress) => total + (isProgressComplete(progress) ? progress.durationMillis : progress.positionMillis),
+              0
+            ),
+            liked,
+          },
+        });
+      };
+
+      loadStats();
+      return () => {
+        cancelled = true;
+      };
+    }, [userId])
+  );
+
+  const isLoading = !loaded || loaded.userId !== userId;
+  const stats = isLoading ? EMPTY_STATS : loaded.stats;
+
+  // The saved library is already on the device, and kept current as books are saved
+  return { stats: { ...stats, saved: savedBooks.length }, isLoading };
+};
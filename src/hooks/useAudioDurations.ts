@@ -0,0 +1,46 @@
+import { useCallback, useState } from 'react';
+import { useFocusEffect } from 'expo-router';
+import { AudioDurations } from '../types/book';
+import { getAudioDurations, saveAudioDuration } from '../storage/audioDurations';
+import { probeAudioDuration } from '../media/audioDuration';
+
+/**
+ * Gives the recording lengths known on this device, reloaded whenever the
+ * screen regains focus. Any of the given recordings not measured yet are
+ * probed one at a time and remembered.
+ * @param probeUrls Recordings to measure if their length isn't known
+ */
+export const useAudioDurations = (probeUrls: string[] = []) => {
+  const [durations, setDurations] = useState<AudioDurations>({});
+  // A stable dependency however often the caller rebuilds the list
+  const probeKey = probeUrls.join('\n');
+
+  useFocusEffect(
+    useCallback(() => {
+      let cancelled = false;
+
+      const loadDurations = async () => {
+        const stored = await getAudioDurations();
+        if (cancelled) return;
+        setDurations(stored);
+
+        for (const url of probeKey ? probeKey.split('\n') : []) {
+          if (stored[url]) continue;
+          const durationMillis = await probeAudioDuration(url);
+          if (cancelled) return;
+          if (durationMillis) {
+            await saveAudioDuration(url, durationMillis);
+            setDurations(prev => ({ ...prev, [url]: durationMillis }));
+          }
+        }
+      };
+
+      loadDurations();
+      return () => {
+        cancelled = true;
+      };
+    }, [probeKey])
+  );
+
+  return durations;
+};
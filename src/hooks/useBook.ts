@@ -0,0 +1,76 @@
+import { useEffect, useState } from 'react';
+import { BookWithChapters } from '../types/book';
+import { getBookById, getChapters } from '../firebase/services';
+import { getDownloadedBook } from '../storage/downloads';
+
+/**
+ * Loads a book with its chapters in reading order, for the reader and the
+ * screens that work on the whole book (notes, search). A downloaded copy is
+ * shown first and replaced by the online version if that can be fetched.
+ * @param bookId The book to load
+ * @param options withContent fetches every chapter's text when the book only lists their metadata
+ * @returns The book, whether it is still loading, and why it couldn't be shown if it can't
+ */
+export const useBook = (bookId: string | undefined, options: { withContent?: boolean } = {}) => {
+  const { withContent = false } = options;
+  const [book, setBook] = useState<BookWithChapters | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!bookId) {
+      setError('Book ID is missing');
+      setLoading(false);
+      return;
+    }
+    let cancelled = false;
+
+    const fetchBook = async () => {
+      const downloadedBook = await getDownloadedBook(bookId);
+      if (downloadedBook && !cancelled) {
+        setBook(downloadedBook);
+        setLoading(false);
+      }
+
+      try {
+        const bookData = await getBookById(bookId);
+        if (bookData && !cancelled) {
+          // Same chapters the reader shows, including its stand-in chapter for single-text books
+          bookData.chapters = bookData.chapters?.length
+            ? [...bookData.chapters].sort((a, b) => a.order - b.order)
+            : bookData.content
+              ? [{ id: 'default-chapter', title: 'Chapter 1', content: bookData.content, order: 0, bookId: bookData.id }]
+              : [];
+          if (withContent && bookData.chapters.some(chapter => !chapter.content)) {
+            const contents = new Map((await getChapters(bookId)).map(chapter => [chapter.id, chapter.content]));
+            bookData.chapters = bookData.chapters.map(chapter => (
+              chapter.content ? chapter : { ...chapter, content: contents.get(chapter.id) || '' }
+            ));
+          }
+          if (!cancelled) {
+            setBook(bookData);
+          }
+        } else if (!downloadedBook && !cancelled) {
+          setError('Book not found');
+        }
+      } catch (fetchError) {
+        console.error('Error fetching book:', fetchError);
+        // Offline with a downloaded copy is fine; keep reading that
+        if (!downloadedBook && !cancelled) {
+          setError('Failed to load book details');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchBook();
+    return () => {
+      cancelled = true;
+    };
+  }, [bookId, withContent]);
+
+  return { book, loading, error };
+};
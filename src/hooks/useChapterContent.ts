@@ -0,0 +1,147 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { BookWithChapters, Chapter } from '../types/book';
+import { getChapterById } from '../firebase/services';
+import { getDownloadedChapterContent } from '../storage/downloads';
+
+// Chapter bodies kept in memory; the least recently used are dropped past this many
+const MAX_CACHED_CHAPTERS = 10;
+
+// Keyed by `${bookId}:${chapterId}`. A Map keeps insertion order, which doubles as recency.
+const chapterCache = new Map<string, string>();
+const pendingLoads = new Map<string, Promise<string>>();
+
+const rememberContent = (key: string, content: string) => {
+  chapterCache.delete(key);
+  chapterCache.set(key, content);
+  while (chapterCache.size > MAX_CACHED_CHAPTERS) {
+    const oldest = chapterCache.keys().next().value;
+    if (oldest === undefined) break;
+    chapterCache.delete(oldest);
+  }
+};
+
+const getCachedContent = (key: string): string | undefined => {
+  const content = chapterCache.get(key);
+  if (content !== undefined) {
+    rememberContent(key, content);
+  }
+  return content;
+};
+
+/**
+ * Fetches a chapter's content when the book only listed its metadata. The
+ * downloaded copy is used when there is one, then Firestore; results are
+ * cached, and concurrent requests for the same chapter share one fetch.
+ * @param bookId The book the chapter belongs to
+ * @param chapterId The chapter to load
+ * @returns The chapter HTML, or an empty string if it has none; rejects if it couldn't be loaded
+ */
+export const loadChapterContent = (bookId: string, chapterId: string): Promise<string> => {
+  const key = `${bookId}:${chapterId}`;
+  const cached = getCachedContent(key);
+  if (cached !== undefined) {
+    return Promise.resolve(cached);
+  }
+
+  const pending = pendingLoads.get(key);
+  if (pending) {
+    return pending;
+  }
+
+  const load = (async () => {
+    try {
+      const downloaded = await getDownloadedChapterContent(bookId, chapterId);
+      const content = downloaded ?? (await getChapterById(chapterId))?.content ?? '';
+      // Failures reject before this and are never cached; an empty chapter is asked for again next time
+      if (content) {
+        rememberContent(key, content);
+      }
+      return content;
+    } finally {
+      pendingLoads.delete(key);
+    }
+  })();
+  pendingLoads.set(key, load);
+  return load;
+};
+
+/**
+ * Gives a chapter of the book with its content, fetching it on demand when
+ * the book only came with chapter metadata, and prefetching the next one so
+ * turning the page is instant
+ * @param book The book being read
+ * @param chapterIndex The chapter to show
+ */
+export const useChapterContent = (book: BookWithChapters | null, chapterIndex: number) => {
+  const chapter = book?.chapters?.[chapterIndex];
+  const nextChapter = book?.chapters?.[chapterIndex + 1];
+  const bookId = book?.id;
+  const chapterId = chapter?.id;
+  const key = bookId && chapterId ? `${bookId}:${chapterId}` : null;
+  const hasContent = !!chapter?.content;
+  // Only a next chapter still without its text needs prefetching
+  const nextChapterToFetch = nextChapter && !nextChapter.content ? nextChapter.id : undefined;
+  const [loaded, setLoaded] = useState<{ key: string; content: string } | null>(null);
+  // The chapter whose text couldn't be fetched, until the reader retries
+  const [failedKey, setFailedKey] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    if (!bookId || !chapterId || !key) return;
+    let cancelled = false;
+
+    const prefetchNext = () => {
+      if (nextChapterToFetch) {
+        loadChapterContent(bookId, nextChapterToFetch).catch(error => {
+          console.error('Error prefetching chapter content:', error);
+        });
+      }
+    };
+
+    if (hasContent) {
+      prefetchNext();
+      return;
+    }
+
+    loadChapterContent(bookId, chapterId)
+      .then(content => {
+        if (!cancelled) {
+          setLoaded({ key, content });
+          prefetchNext();
+        }
+      })
+      .catch(error => {
+        console.error('Error loading chapter content:', error);
+        if (!cancelled) {
+          setFailedKey(key);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [bookId, chapterId, key, hasContent, nextChapterToFetch, attempt]);
+
+  const retry = useCallback(() => {
+    setFailedKey(null);
+    setAttempt(count => count + 1);
+  }, []);
+
+  const content = chapter?.content
+    || (loaded?.key === key ? loaded.content : undefined)
+    || (key ? chapterCache.get(key) : undefined)
+    || '';
+  const loadedChapter = useMemo<Chapter | undefined>(
+    () => (chapter && content !== chapter.content ? { ...chapter, content } : chapter),
+    [chapter, content]
+  );
+
+  const hasFailed = !!key && !content && failedKey === key;
+
+  return {
+    chapter: loadedChapter,
+    // Still waiting on the chapter's text; an empty chapter once loaded is not loading
+    isLoading: !!chapter && !content && loaded?.key !== key && !hasFailed,
+    error: hasFailed ? "Couldn't load this episode's text." : null,
+    retry,
+  };
+};
@@ -0,0 +1,86 @@
+import { useCallback, useRef, useState } from 'react';
+import { useFocusEffect } from 'expo-router';
+import { Highlight, HighlightColor } from '../types/reader';
+import { deleteHighlight, getBookHighlights, saveHighlight } from '../storage/highlights';
+
+// What the reader picked when making a highlight
+export interface NewHighlight {
+  chapterId: string;
+  start: number;
+  end: number;
+  quote: string;
+  color: HighlightColor;
+  note?: string;
+}
+
+/**
+ * Loads a book's highlights and keeps them saved as they are added, edited
+ * and removed. They are reloaded whenever the screen regains focus, so edits
+ * made on the notes screen show up in the reader.
+ * @param bookId The book, or undefined while it loads
+ */
+export const useHighlights = (bookId: string | undefined) => {
+  const [highlights, setHighlights] = useState<Highlight[]>([]);
+  const highlightsRef = useRef<Highlight[]>([]);
+
+  const applyHighlights = (next: Highlight[]) => {
+    highlightsRef.current = next;
+    setHighlights(next);
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!bookId) return;
+      let cancelled = false;
+
+      getBookHighlights(bookId).then(stored => {
+        if (!cancelled) {
+          applyHighlights(stored);
+        }
+      });
+      return () => {
+        cancelled = true;
+      };
+    }, [bookId])
+  );
+
+  const addHighlight = useCallback((highlight: NewHighlight): Highlight | null => {
+    if (!bookId) return null;
+
+    const now = Date.now();
+    const saved: Highlight = {
+      ...highlight,
+      id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+      bookId,
+      note: highlight.note?.trim() || undefined,
+      createdAt: now,
+      updatedAt: now,
+    };
+    applyHighlights([...highlightsRef.current, saved]);
+    saveHighlight(saved);
+    return saved;
+  }, [bookId]);
+
+  const updateHighlight = useCallback((id: string, changes: Partial<Pick<Highlight, 'color' | 'note'>>) => {
+    const existing = highlightsRef.current.find(highlight => highlight.id === id);
+    if (!existing) return;
+
+    const updated: Highlight = {
+      ...existing,
+      ...changes,
+      note: (changes.note ?? existing.note)?.trim() || undefined,
+      updatedAt: Date.now(),
+    };
+    applyHighlights(highlightsRef.current.map(highlight => (highlight.id === id ? updated : highlight)));
+    saveHighlight(updated);
+  }, []);
+
+  const removeHighlight = useCallback((id: string) => {
+    if (!bookId) return;
+
+    applyHighlights(highlightsRef.current.filter(highlight => highlight.id !== id));
+    deleteHighlight(bookId, id);
+  }, [bookId]);
+
+  return { highlights, addHighlight, updateHighlight, removeHighlight };
+};
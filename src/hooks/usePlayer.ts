@@ -0,0 +1,383 @@
+import { useCallback, useEffect, useReducer, useRef } from 'react';
+import { Audio, AVPlaybackStatus, AVPlaybackStatusToSet, PitchCorrectionQuality } from 'expo-av';
+
+export type PlayerStatus = 'idle' | 'loading' | 'buffering' | 'playing' | 'paused' | 'ended' | 'error';
+
+export interface PlayerState {
+  status: PlayerStatus;
+  positionMillis: number;
+  durationMillis: number;
+  rate: number;
+  error: string | null;
+}
+
+// Engine-neutral status report, so a speech narrator can drive the player like a sound does
+export interface PlayerStatusUpdate {
+  isLoaded: boolean;
+  isPlaying: boolean;
+  isBuffering: boolean;
+  // False once the listener (or the player) asked to pause; true while the OS holds playback back
+  shouldPlay: boolean;
+  positionMillis: number;
+  durationMillis: number;
+  rate: number;
+  didJustFinish: boolean;
+  error?: string;
+  // Only reported by the speech narrator
+  sentenceIndex?: number;
+  sentenceCount?: number;
+}
+
+// The parts of Audio.Sound the player drives. The speech narrator and tests provide their own.
+export interface PlayerSound {
+  playAsync: () => Promise<unknown>;
+  pauseAsync: () => Promise<unknown>;
+  stopAsync: () => Promise<unknown>;
+  unloadAsync: () => Promise<unknown>;
+  setPositionAsync: (positionMillis: number) => Promise<unknown>;
+  setRateAsync: (
+    rate: number,
+    shouldCorrectPitch: boolean,
+    pitchCorrectionQuality?: PitchCorrectionQuality
+  ) => Promise<unknown>;
+  setVolumeAsync: (volume: number) => Promise<unknown>;
+}
+
+// Creates a loaded sound that reports every status change through the callback
+export type SoundFactory = (onStatusUpdate: (update: PlayerStatusUpdate) => void) => Promise<PlayerSound>;
+
+export type PlayerAction =
+  | { type: 'load' }
+  | { type: 'status'; update: PlayerStatusUpdate }
+  | { type: 'seek'; positionMillis: number }
+  | { type: 'rate'; rate: number }
+  | { type: 'error'; error: string }
+  | { type: 'reset' };
+
+export const INITIAL_PLAYER_STATE: PlayerState = {
+  status: 'idle',
+  positionMillis: 0,
+  durationMillis: 0,
+  rate: 1,
+  error: null,
+};
+
+const statusFromUpdate = (state: PlayerState, update: PlayerStatusUpdate): PlayerStatus => {
+  if (update.didJustFinish) return 'ended';
+  if (update.isPlaying) return 'playing';
+  if (update.isBuffering && update.shouldPlay) return 'buffering';
+
+  // Reports after the end keep the player in 'ended' until it is moved or restarted
+  const isAtEnd = update.durationMillis > 0 && update.positionMillis >= update.durationMillis;
+  if (state.status === 'ended' && isAtEnd) return 'ended';
+
+  return 'paused';
+};
+
+/**
+ * Moves the player between states in response to loads, seeks and the status
+ * reports of the loaded sound
+ * @param state The current player state
+ * @param action What happened
+ * @returns The next player state
+ */
+export const playerReducer = (state: PlayerState, action: PlayerAction): PlayerState => {
+  switch (action.type) {
+    case 'load':
+      return { ...INITIAL_PLAYER_STATE, status: 'loading', rate: state.rate };
+    case 'status': {
+      const { update } = action;
+      if (update.error) {
+        return { ...state, status: 'error', error: update.error };
+      }
+      if (!update.isLoaded) {
+        return state;
+      }
+
+      const status = statusFromUpdate(state, update);
+      return {
+        ...state,
+        status,
+        positionMillis: status === 'ended' ? Math.max(update.durationMillis, update.positionMillis) : update.positionMillis,
+        durationMillis: update.durationMillis,
+        rate: update.rate,
+        error: null,
+      };
+    }
+    case 'seek':
+      return {
+        ...state,
+        status: state.status === 'ended' ? 'paused' : state.status,
+        positionMillis: action.positionMillis,
+      };
+    case 'rate':
+      return { ...state, rate: action.rate };
+    case 'error':
+      return { ...state, status: 'error', error: action.error };
+    case 'reset':
+      return { ...INITIAL_PLAYER_STATE, rate: state.rate };
+  }
+};
+
+/**
+ * Converts an expo-av status into the player's engine-neutral report
+ * @param status The status passed to onPlaybackStatusUpdate
+ * @returns The equivalent status update
+ */
+export const fromAVPlaybackStatus = (status: AVPlaybackStatus): PlayerStatusUpdate => {
+  if (!status.isLoaded) {
+    return {
+      isLoaded: false,
+      isPlaying: false,
+      isBuffering: false,
+      shouldPlay: false,
+      positionMillis: 0,
+      durationMillis: 0,
+      rate: 1,
+      didJustFinish: false,
+      error: status.error ? `Playback error: ${status.error}` : undefined,
+    };
+  }
+
+  return {
+    isLoaded: true,
+    isPlaying: status.isPlaying,
+    isBuffering: status.isBuffering,
+    shouldPlay: status.shouldPlay,
+    positionMillis: status.positionMillis,
+    durationMillis: status.durationMillis || 0,
+    rate: status.rate,
+    didJustFinish: status.didJustFinish && !status.isLooping,
+  };
+};
+
+/**
+ * Builds a factory that streams a remote file with expo-av
+ * @param uri The audio URL
+ * @param initialStatus Position, rate and autoplay for the new sound
+ * @returns A factory for usePlayer's load
+ */
+export const createAudioSound = (uri: string, initialStatus: AVPlaybackStatusToSet): SoundFactory =>
+  async (onStatusUpdate) => {
+    const { sound } = await Audio.Sound.createAsync(
+      { uri },
+      initialStatus,
+      (status) => onStatusUpdate(fromAVPlaybackStatus(status))
+    );
+    return sound;
+  };
+
+interface UsePlayerOptions {
+  // Called with every status report of the loaded sound
+  onStatusUpdate?: (update: PlayerStatusUpdate) => void;
+  // Called once each time the loaded sound plays through to the end
+  onFinish?: () => void;
+}
+
+/**
+ * Owns a single sound and tracks it through explicit player states. The state
+ * only changes in response to the sound's own status reports (plus optimistic
+ * seeks), so there is no polling.
+ */
+export const usePlayer = ({ onStatusUpdate, onFinish }: UsePlayerOptions = {}) => {
+  const [state, dispatch] = useReducer(playerReducer, INITIAL_PLAYER_STATE);
+  const soundRef = useRef<PlayerSound | null>(null);
+  // Incremented on every load and unload so that a slow or replaced sound can't report in
+  const loadIdRef = useRef(0);
+  // Mirrors for the control functions, which should stay stable across renders
+  const stateRef = useRef(state);
+  const callbacksRef = useRef({ onStatusUpdate, onFinish });
+
+  useEffect(() => {
+    stateRef.current = state;
+  }, [state]);
+
+  useEffect(() => {
+    callbacksRef.current = { onStatusUpdate, onFinish };
+  }, [onStatusUpdate, onFinish]);
+
+  const releaseSound = async (sound: PlayerSound | null) => {
+    if (!sound) return;
+    try {
+      await sound.unloadAsync();
+    } catch (error) {
+      console.error('Error unloading sound:', error);
+    }
+  };
+
+  /**
+   * Replaces the loaded sound with a new one. The player reports 'loading'
+   * until the new sound sends its first status.
+   * @returns false if loading failed or another load replaced this one
+   */
+  const load = useCallback(async (createSound: SoundFactory): Promise<boolean> => {
+    const loadId = ++loadIdRef.current;
+    const previous = soundRef.current;
+    soundRef.current = null;
+    dispatch({ type: 'load' });
+    await releaseSound(previous);
+
+    try {
+      const sound = await createSound((update) => {
+        if (loadId !== loadIdRef.current) return;
+
+        dispatch({ type: 'status', update });
+        callbacksRef.current.onStatusUpdate?.(update);
+        if (update.didJustFinish) {
+          callbacksRef.current.onFinish?.();
+        }
+      });
+
+      if (loadId !== loadIdRef.current) {
+        // Another track was requested while this one was loading
+        await releaseSound(sound);
+        return false;
+      }
+
+      soundRef.current = sound;
+      return true;
+    } catch (error) {
+      if (loadId !== loadIdRef.current) return false;
+      console.error('Error loading sound:', error);
+      dispatch({ type: 'error', error: 'Failed to load audio' });
+      return false;
+    }
+  }, []);
+
+  const unload = useCallback(async () => {
+    loadIdRef.current++;
+    const sound = soundRef.current;
+    soundRef.current = null;
+    dispatch({ type: 'reset' });
+    await releaseSound(sound);
+  }, []);
+
+  // Release the sound if the component using the player goes away
+  useEffect(() => {
+    const loadIds = loadIdRef;
+    const sounds = soundRef;
+    return () => {
+      loadIds.current++;
+      sounds.current?.unloadAsync();
+      sounds.current = null;
+    };
+  }, []);
+
+  const play = useCallback(async () => {
+    const sound = soundRef.current;
+    if (!sound) return;
+
+    try {
+      // Playing again from the end starts over
+      const { status, positionMillis, durationMillis } = stateRef.current;
+      if (status === 'ended' || (durationMillis > 0 && positionMillis >= durationMillis)) {
+        await sound.setPositionAsync(0);
+      }
+      await sound.playAsync();
+    } catch (error) {
+      console.error('Error resuming audio:', error);
+      dispatch({ type: 'error', error: 'Failed to play/pause audio' });
+    }
+  }, []);
+
+  const pause = useCallback(async () => {
+    const sound = soundRef.current;
+    if (!sound) return;
+
+    try {
+      await sound.pauseAsync();
+    } catch (error) {
+      console.error('Error pausing audio:', error);
+    }
+  }, []);
+
+  const togglePlayPause = useCallback(async () => {
+    const { status } = stateRef.current;
+    if (status === 'playing' || status === 'buffering') {
+      await pause();
+    } else {
+      await play();
+    }
+  }, [pause, play]);
+
+  const seekTo = useCallback(async (positionMillis: number) => {
+    const sound = soundRef.current;
+    if (!sound) return;
+
+    const { durationMillis } = stateRef.current;
+    const target = Math.max(0, durationMillis > 0 ? Math.min(positionMillis, durationMillis) : positionMillis);
+    dispatch({ type: 'seek', positionMillis: target });
+    try {
+      await sound.setPositionAsync(target);
+    } catch (error) {
+      console.error('Error seeking audio:', error);
+    }
+  }, []);
+
+  // Changes the speed without changing the narrator's pitch
+  const setRate = useCallback(async (rate: number) => {
+    dispatch({ type: 'rate', rate });
+
+    const sound = soundRef.current;
+    if (!sound) return;
+
+    try {
+      await sound.setRateAsync(rate, true, PitchCorrectionQuality.High);
+    } catch (error) {
+      console.error('Error setting playback rate:', error);
+    }
+  }, []);
+
+  const setVolume = useCallback(async (volume: number) => {
+    const sound = soundRef.current;
+    if (!sound) return;
+
+    try {
+      await sound.setVolumeAsync(Math.min(Math.max(volume, 0), 1));
+    } catch (error) {
+      console.error('Error setting volume:', error);
+    }
+  }, []);
+
+  const restart = useCallback(async () => {
+    const sound = soundRef.current;
+    if (!sound) return;
+
+    try {
+      dispatch({ type: 'seek', positionMillis: 0 });
+      await sound.setPositionAsync(0);
+      if (stateRef.current.status !== 'playing') {
+        await sound.playAsync();
+      }
+    } catch (error) {
+      console.error('Error restarting audio:', error);
+    }
+  }, []);
+
+  const stop = useCallback(async () => {
+    const sound = soundRef.current;
+    if (!sound) return;
+
+    try {
+      await sound.stopAsync();
+      dispatch({ type: 'seek', positionMillis: 0 });
+      await sound.setPositionAsync(0);
+    } catch (error) {
+      console.error('Error stopping audio:', error);
+    }
+  }, []);
+
+  return {
+    state,
+    load,
+    unload,
+    play,
+    pause,
+    togglePlayPause,
+    seekTo,
+    setRate,
+    setVolume,
+    restart,
+    stop,
+  };
+};
@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ReaderSettings } from '../types/reader';
+import { DEFAULT_READER_SETTINGS, getReaderSettings, saveReaderSettings } from '../storage/readerSettings';
+
+/**
+ * Loads the reader settings saved on this device and saves every change, so
+ * the chapter view can apply them as they are adjusted
+ */
+export const useReaderSettings = () => {
+  const [settings, setSettings] = useState<ReaderSettings>(DEFAULT_READER_SETTINGS);
+  const settingsRef = useRef(settings);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getReaderSettings().then(stored => {
+      if (!cancelled) {
+        settingsRef.current = stored;
+        setSettings(stored);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const updateSettings = useCallback((changes: Partial<ReaderSettings>) => {
+    const next = { ...settingsRef.current, ...changes };
+    settingsRef.current = next;
+    setSettings(next);
+    saveReaderSettings(next);
+  }, []);
+
+  return { settings, updateSettings };
+};
@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { BookWithChapters } from '../types/book';
+import { ReadingProgress } from '../types/reader';
+import { auth } from '../firebase/config';
+import { getUserBookReadingProgress, saveUserReadingProgress } from '../firebase/services';
+import { getReadingProgress, saveReadingProgress } from '../storage/readingProgress';
+
+// Scrolling reports positions many times a second; write them out at most this often
+const SAVE_INTERVAL_MILLIS = 2000;
+
+// Smaller moves than this aren't worth a re-render
+const MIN_OFFSET_CHANGE = 0.01;
+
+/**
+ * Tracks the reader's place in a book. Progress is loaded from the device (or
+ * the signed-in user's copy in Firestore, whichever is newer) and saved back
+ * to both as the reader moves through the chapters.
+ * @param book The book being read, or null while it loads
+ */
+export const useReadingProgress = (book: BookWithChapters | null) => {
+  const [progress, setProgress] = useState<ReadingProgress | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const progressRef = useRef<ReadingProgress | null>(null);
+  const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const bookId = book?.id;
+
+  useEffect(() => {
+    if (!bookId) return;
+    let cancelled = false;
+
+    const loadProgress = async () => {
+      const local = await getReadingProgress(bookId);
+      const userId = auth.currentUser?.uid;
+      const remote = userId ? await getUserBookReadingProgress(userId, bookId) : null;
+
+      const latest = remote && (!local || remote.updatedAt > local.updatedAt) ? remote : local;
+      if (latest && latest === remote) {
+        saveReadingProgress(latest);
+      }
+      if (!cancelled) {
+        progressRef.current = latest;
+        setProgress(latest);
+        setIsLoaded(true);
+      }
+    };
+
+    loadProgress();
+    return () => {
+      cancelled = true;
+    };
+  }, [bookId]);
+
+  const flush = useCallback(() => {
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current);
+      saveTimeoutRef.current = null;
+    }
+
+    const current = progressRef.current;
+    if (!current) return;
+
+    saveReadingProgress(current);
+    const userId = auth.currentUser?.uid;
+    if (userId) {
+      saveUserReadingProgress(userId, current);
+    }
+  }, []);
+
+  // Save the last position when the reader leaves the book
+  useEffect(() => flush, [flush]);
+
+  /**
+   * Records the reader's position
+   * @param chapterId The chapter being read
+   * @param offset How far through the chapter, from 0 to 1
+   */
+  const updatePosition = useCallback((chapterId: string, offset: number) => {
+    const chapters = book?.chapters ?? [];
+    const chapterIndex = chapters.findIndex(chapter => chapter.id === chapterId);
+    if (!book || chapterIndex < 0) return;
+
+    const chapterOffset = Math.min(Math.max(offset, 0), 1);
+    const previous = progressRef.current;
+    if (
+      previous?.chapterId === chapterId &&
+      Math.abs(previous.chapterOffset - chapterOffset) < MIN_OFFSET_CHANGE
+    ) {
+      return;
+    }
+
+    const next: ReadingProgress = {
+      bookId: book.id,
+      bookTitle: book.title,
+      author: book.author,
+      // A downloaded copy's cover is a local file, which is no use on other devices
+      thumbnailUrl: book.thumbnailUrl?.startsWith('http') ? book.thumbnailUrl : previous?.thumbnailUrl,
+      chapterId,
+      chapterTitle: chapters[chapterIndex].title || `Episode ${chapterIndex + 1}`,
+      chapterOffset,
+      chapterOffsets: {
+        ...previous?.chapterOffsets,
+        [chapterId]: Math.max(previous?.chapterOffsets?.[chapterId] ?? 0, chapterOffset),
+      },
+      percent: Math.round(((chapterIndex + chapterOffset) / chapters.length) * 100),
+      updatedAt: Date.now(),
+    };
+    progressRef.current = next;
+    setProgress(next);
+
+    if (!saveTimeoutRef.current) {
+      saveTimeoutRef.current = setTimeout(flush, SAVE_INTERVAL_MILLIS);
+    }
+  }, [book, flush]);
+
+  return { progress, isLoaded, updatePosition };
+};
@@ -0,0 +1,43 @@
+import { Platform } from 'react-native';
+import { Audio } from 'expo-av';
+import { getLocalAudioUri } from '../storage/downloads';
+
+// Give up on audio whose metadata doesn't arrive in time
+const PROBE_TIMEOUT_MILLIS = 15000;
+
+const probeWebAudio = (uri: string): Promise<number | null> => new Promise(resolve => {
+  const audio = new window.Audio();
+  const finish = (durationMillis: number | null) => {
+    clearTimeout(timeout);
+    audio.removeAttribute('src');
+    resolve(durationMillis);
+  };
+  const timeout = setTimeout(() => finish(null), PROBE_TIMEOUT_MILLIS);
+
+  audio.preload = 'metadata';
+  audio.onloadedmetadata = () => finish(Number.isFinite(audio.duration) ? Math.round(audio.duration * 1000) : null);
+  audio.onerror = () => finish(null);
+  audio.src = uri;
+});
+
+/**
+ * Measures a recording by loading only as much of it as needed to read its
+ * length, from the downloaded copy when there is one
+ * @param audioUrl The recording's remote URL
+ * @returns The length in milliseconds, or null if it couldn't be read
+ */
+export const probeAudioDuration = async (audioUrl: string): Promise<number | null> => {
+  try {
+    const uri = (await getLocalAudioUri(audioUrl)) ?? audioUrl;
+    if (Platform.OS === 'web') {
+      return await probeWebAudio(uri);
+    }
+
+    const { sound, status } = await Audio.Sound.createAsync({ uri }, { shouldPlay: false });
+    await sound.unloadAsync();
+    return status.isLoaded && status.durationMillis ? status.durationMillis : null;
+  } catch (error) {
+    console.error('Error measuring audio duration:', error);
+    return null;
+  }
+};
@@ -0,0 +1,144 @@
+import { Command, MediaControl, MediaControlEvent, PlaybackState } from 'expo-media-control';
+import { MediaSessionHandlers, MediaSessionState, NowPlayingMetadata } from '../types/playback';
+
+// How far the lock-screen and notification skip buttons jump
+const SKIP_INTERVAL_SECONDS = 15;
+
+const CAPABILITIES = [
+  Command.PLAY,
+  Command.PAUSE,
+  Command.STOP,
+  Command.PREVIOUS_TRACK,
+  Command.NEXT_TRACK,
+  Command.SKIP_BACKWARD,
+  Command.SKIP_FORWARD,
+  Command.SEEK,
+];
+
+// Native calls are made one at a time, so updates never overtake switching the controls on or off
+let queue: Promise<void> = Promise.resolve();
+let isEnabled = false;
+let removeListener: (() => void) | null = null;
+// The system reads the track length from the metadata, so it is sent again when the duration is known
+let nowPlaying: NowPlayingMetadata | null = null;
+let publishedDurationMillis = 0;
+
+const enqueue = (update: () => Promise<void>): void => {
+  queue = queue.then(update).catch(error => {
+    console.error('Error updating media controls:', error);
+  });
+};
+
+const runWhenEnabled = (update: () => Promise<void>): void => {
+  if (isEnabled) {
+    enqueue(update);
+  }
+};
+
+const publishMetadata = (metadata: NowPlayingMetadata, durationMillis: number): void => {
+  publishedDurationMillis = durationMillis;
+  runWhenEnabled(() => MediaControl.updateMetadata({
+    title: metadata.title,
+    artist: metadata.artist,
+    album: metadata.album,
+    artwork: metadata.artworkUrl ? { uri: metadata.artworkUrl } : undefined,
+    duration: durationMillis > 0 ? durationMillis / 1000 : undefined,
+  }));
+};
+
+/**
+ * Publishes the title, author and cover of what is playing to the lock
+ * screen, Control Center and the Android media notification
+ * @param metadata What is playing, or null to clear it
+ */
+export const setNowPlaying = (metadata: NowPlayingMetadata | null): void => {
+  nowPlaying = metadata;
+  if (!metadata) {
+    publishedDurationMillis = 0;
+    runWhenEnabled(() => MediaControl.resetControls());
+    return;
+  }
+  publishMetadata(metadata, 0);
+};
+
+/**
+ * Routes the lock-screen, notification and headset buttons to the player
+ * @param handlers The player actions, or null to remove them
+ */
+export const setMediaSessionHandlers = (handlers: MediaSessionHandlers | null): void => {
+  removeListener?.();
+  removeListener = null;
+
+  if (!handlers) {
+    runWhenEnabled(() => MediaControl.disableMediaControls());
+    isEnabled = false;
+    return;
+  }
+
+  if (!isEnabled) {
+    isEnabled = true;
+    enqueue(async () => {
+      try {
+        await MediaControl.enableMediaControls({
+          capabilities: CAPABILITIES,
+          compactCapabilities: [Command.SKIP_BACKWARD, Command.PLAY, Command.PAUSE, Command.SKIP_FORWARD],
+          ios: { skipInterval: SKIP_INTERVAL_SECONDS },
+          android: { skipInterval: SKIP_INTERVAL_SECONDS },
+        });
+      } catch (error) {
+        // Without the controls there is nothing to update, e.g. in Expo Go
+        isEnabled = false;
+        throw error;
+      }
+    });
+  }
+  removeListener = MediaControl.addListener((event: MediaControlEvent) => {
+    switch (event.command) {
+      case Command.PLAY:
+        handlers.play();
+        break;
+      case Command.PAUSE:
+        handlers.pause();
+        break;
+      case Command.STOP:
+        handlers.stop();
+        break;
+      case Command.PREVIOUS_TRACK:
+        handlers.previousTrack();
+        break;
+      case Command.NEXT_TRACK:
+        handlers.nextTrack();
+        break;
+      case Command.SKIP_BACKWARD:
+        handlers.seekBy(-(event.data?.interval ?? SKIP_INTERVAL_SECONDS) * 1000);
+        break;
+      case Command.SKIP_FORWARD:
+        handlers.seekBy((event.data?.interval ?? SKIP_INTERVAL_SECONDS) * 1000);
+        break;
+      case Command.SEEK:
+        if (typeof event.data?.position === 'number') {
+          handlers.seekTo(event.data.position * 1000);
+        }
+        break;
+    }
+  });
+};
+
+/**
+ * Keeps the system's play/pause state and progress bar in step with the player
+ * @param state The player's current state
+ */
+export const setMediaSessionState = (state: MediaSessionState): void => {
+  if (nowPlaying && state.durationMillis !== publishedDurationMillis) {
+    publishMetadata(nowPlaying, state.durationMillis);
+  }
+
+  const positionMillis = state.durationMillis > 0
+    ? Math.min(state.positionMillis, state.durationMillis)
+    : state.positionMillis;
+  runWhenEnabled(() => MediaControl.updatePlaybackState(
+    state.isPlaying ? PlaybackState.PLAYING : PlaybackState.PAUSED,
+    positionMillis / 1000,
+    state.isPlaying ? state.rate || 1 : 0
+  ));
+};
@@ -0,0 +1,92 @@
+import { MediaSessionHandlers, MediaSessionState, NowPlayingMetadata } from '../types/playback';
+
+// Used by the browser's seek buttons when it doesn't suggest an offset
+const DEFAULT_SEEK_OFFSET_MILLIS = 15000;
+
+// The browser's Media Session; the apps use the native controls in mediaSession.ts
+const getMediaSession = (): MediaSession | null => {
+  if (typeof navigator === 'undefined' || !('mediaSession' in navigator)) {
+    return null;
+  }
+  return navigator.mediaSession;
+};
+
+/**
+ * Publishes the title, author and cover of what is playing to the system's
+ * media controls
+ * @param metadata What is playing, or null to clear it
+ */
+export const setNowPlaying = (metadata: NowPlayingMetadata | null): void => {
+  const session = getMediaSession();
+  if (!session) return;
+
+  if (!metadata) {
+    session.metadata = null;
+    session.playbackState = 'none';
+    return;
+  }
+
+  session.metadata = new MediaMetadata({
+    title: metadata.title,
+    artist: metadata.artist ?? '',
+    album: metadata.album ?? '',
+    artwork: metadata.artworkUrl ? [{ src: metadata.artworkUrl }] : [],
+  });
+};
+
+/**
+ * Routes the system's media keys and lock-screen buttons to the player
+ * @param handlers The player actions, or null to remove them
+ */
+export const setMediaSessionHandlers = (handlers: MediaSessionHandlers | null): void => {
+  const session = getMediaSession();
+  if (!session) return;
+
+  const actions: [MediaSessionAction, MediaSessionActionHandler | null][] = [
+    ['play', handlers && (() => handlers.play())],
+    ['pause', handlers && (() => handlers.pause())],
+    ['stop', handlers && (() => handlers.stop())],
+    ['previoustrack', handlers && (() => handlers.previousTrack())],
+    ['nexttrack', handlers && (() => handlers.nextTrack())],
+    ['seekbackward', handlers && ((details) =>
+      handlers.seekBy(-(details.seekOffset ? details.seekOffset * 1000 : DEFAULT_SEEK_OFFSET_MILLIS)))],
+    ['seekforward', handlers && ((details) =>
+      handlers.seekBy(details.seekOffset ? details.seekOffset * 1000 : DEFAULT_SEEK_OFFSET_MILLIS))],
+    ['seekto', handlers && ((details) => {
+      if (details.seekTime !== undefined) {
+        handlers.seekTo(details.seekTime * 1000);
+      }
+    })],
+  ];
+
+  for (const [action, handler] of actions) {
+    try {
+      session.setActionHandler(action, handler);
+    } catch {
+      // Older browsers throw for actions they don't support
+    }
+  }
+};
+
+/**
+ * Keeps the system's play/pause state and progress bar in step with the player
+ * @param state The player's current state
+ */
+export const setMediaSessionState = (state: MediaSessionState): void => {
+  const session = getMediaSession();
+  if (!session) return;
+
+  session.playbackState = state.isPlaying ? 'playing' : 'paused';
+
+  if (state.durationMillis > 0 && 'setPositionState' in session) {
+    try {
+      session.setPositionState({
+        duration: state.durationMillis / 1000,
+        position: Math.min(state.positionMillis, state.durationMillis) / 1000,
+        playbackRate: state.rate || 1,
+      });
+    } catch (error) {
+      console.error('Error updating media session position:', error);
+    }
+  }
+};
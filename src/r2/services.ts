@@ -1,13 +1,4 @@
-import { getR2PublicUrl, getThumbnailUrl, getAudioUrl, getImageUrl, getPdfUrl } from './config';
-
-// Interface for R2 file metadata
-interface R2FileMetadata {
-  name: string;
-  size: number;
-  contentType: string;
-  lastModified: Date;
-  etag: string;
-}
+import { getThumbnailUrl, getAudioUrl, getImageUrl, getPdfUrl } from './config';
 
 /**
  * Processes a thumbnail URL to ensure it's a valid R2 URL
@@ -20,8 +11,8 @@ export const processThumbnailUrl = (url: string | undefined): string => {
     return 'https://via.placeholder.com/150x200/333333/FFFFFF?text=No+Cover';
   }
   
-  // If it's already a full URL (http or https), return it as is
-  if (url.startsWith('http')) {
+  // If it's already a full URL (http or https) or a downloaded file, return it as is
+  if (url.startsWith('http') || url.startsWith('file:')) {
     return url;
   }
   
@@ -39,8 +30,8 @@ export const processAudioUrl = (url: string | undefined): string | undefined =>
     return undefined;
   }
   
-  // If it's already a full URL (http or https), return it as is
-  if (url.startsWith('http')) {
+  // If it's already a full URL (http or https) or a downloaded file, return it as is
+  if (url.startsWith('http') || url.startsWith('file:')) {
     return url;
   }
   
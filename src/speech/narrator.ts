@@ -0,0 +1,278 @@
+import * as Speech from 'expo-speech';
+import { PlayerSound, PlayerStatusUpdate } from '../hooks/usePlayer';
+
+// Rough speaking speed at 1x, used to estimate positions and durations for the seek bar
+const ESTIMATED_CHARS_PER_SECOND = 15;
+
+// Stay well under every platform's limit on a single utterance
+const MAX_UTTERANCE_LENGTH = Math.min(Speech.maxSpeechInputLength || 4000, 3000);
+
+export interface NarratorStatus {
+  sentenceIndex: number;
+  sentenceCount: number;
+  // Estimated at 1x, so they behave like media time in a recorded narration
+  positionMillis: number;
+  durationMillis: number;
+  rate: number;
+  isPlaying: boolean;
+  didJustFinish: boolean;
+}
+
+export interface NarratorOptions {
+  rate?: number;
+  voice?: string;
+  positionMillis?: number;
+  onStatusUpdate: (status: NarratorStatus) => void;
+  onError?: (error: Error) => void;
+}
+
+export interface Narrator {
+  play: () => void;
+  pause: () => void;
+  stop: () => void;
+  seekTo: (positionMillis: number) => void;
+  setRate: (rate: number) => void;
+  setVoice: (voice?: string) => void;
+  setVolume: (volume: number) => void;
+  unload: () => void;
+  getStatus: () => NarratorStatus;
+}
+
+/**
+ * Splits plain text into sentences, breaking up any that are too long to be
+ * spoken in a single utterance
+ * @param text The text to split, e.g. the output of formatHtmlContent
+ * @returns The non-empty sentences, in order
+ */
+export const splitIntoSentences = (text: string): string[] => {
+  // Line breaks end a sentence too, so headings aren't run into the following paragraph
+  const sentences = text
+    .split(/\n+/)
+    .flatMap(line => line.replace(/\s+/g, ' ').match(/[^.!?…]+(?:[.!?…]+["'”’)\]]*|$)/g) || []);
+
+  return sentences
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0)
+    .flatMap(sentence => {
+      if (sentence.length <= MAX_UTTERANCE_LENGTH) {
+        return [sentence];
+      }
+
+      const chunks: string[] = [];
+      let chunk = '';
+      for (const word of sentence.split(' ')) {
+        if (chunk && chunk.length + word.length + 1 > MAX_UTTERANCE_LENGTH) {
+          chunks.push(chunk);
+          chunk = '';
+        }
+        chunk = chunk ? `${chunk} ${word}` : word;
+      }
+      if (chunk) {
+        chunks.push(chunk);
+      }
+      return chunks;
+    });
+};
+
+/**
+ * Reads text aloud with the device's speech engine one sentence at a time, so
+ * it can report sentence-level progress and pause, seek or change voice and
+ * rate between sentences. Only one narrator should be active at a time.
+ * @param text The text to read
+ * @param options Initial rate, voice and position, plus the status callback
+ * @returns Controls for the narration
+ */
+export const createNarrator = (text: string, options: NarratorOptions): Narrator => {
+  const sentences = splitIntoSentences(text);
+
+  // Start offset of each sentence, and the total, in estimated milliseconds at 1x
+  const offsets: number[] = [];
+  let totalMillis = 0;
+  for (const sentence of sentences) {
+    offsets.push(totalMillis);
+    totalMillis += (sentence.length / ESTIMATED_CHARS_PER_SECOND) * 1000;
+  }
+
+  const sentenceAt = (positionMillis: number) => {
+    let index = 0;
+    while (index < offsets.length - 1 && offsets[index + 1] <= positionMillis) {
+      index++;
+    }
+    return index;
+  };
+
+  let sentenceIndex = sentenceAt(options.positionMillis ?? 0);
+  let rate = options.rate ?? 1;
+  let voice = options.voice;
+  let volume = 1;
+  let isPlaying = false;
+  let isFinished = false;
+  let isUnloaded = false;
+  // Bumped whenever an utterance is interrupted, so its late callbacks are ignored
+  let utteranceId = 0;
+
+  const getStatus = (didJustFinish = false): NarratorStatus => ({
+    sentenceIndex,
+    sentenceCount: sentences.length,
+    positionMillis: isFinished ? totalMillis : offsets[sentenceIndex] ?? 0,
+    durationMillis: totalMillis,
+    rate,
+    isPlaying,
+    didJustFinish,
+  });
+
+  const emit = (didJustFinish = false) => {
+    if (!isUnloaded) {
+      options.onStatusUpdate(getStatus(didJustFinish));
+    }
+  };
+
+  const interrupt = () => {
+    utteranceId++;
+    Speech.stop();
+  };
+
+  const speakCurrent = () => {
+    const id = ++utteranceId;
+
+    Speech.speak(sentences[sentenceIndex], {
+      rate,
+      voice,
+      volume,
+      onDone: () => {
+        if (id !== utteranceId || isUnloaded) return;
+
+        if (sentenceIndex < sentences.length - 1) {
+          sentenceIndex++;
+          emit();
+          speakCurrent();
+        } else {
+          isPlaying = false;
+          isFinished = true;
+          emit(true);
+        }
+      },
+      onError: (error) => {
+        if (id !== utteranceId || isUnloaded) return;
+
+        console.error('Speech error:', error);
+        isPlaying = false;
+        emit();
+        options.onError?.(error);
+      },
+    });
+  };
+
+  // Re-speak the current sentence so a new voice or rate takes effect straight away
+  const restartSentence = () => {
+    if (isPlaying) {
+      interrupt();
+      speakCurrent();
+    }
+  };
+
+  const play = () => {
+    if (isPlaying || isUnloaded || sentences.length === 0) return;
+
+    if (isFinished) {
+      isFinished = false;
+      sentenceIndex = 0;
+    }
+    isPlaying = true;
+    emit();
+    speakCurrent();
+  };
+
+  // Speech.pause isn't available on Android, so pausing stops and resumes from the sentence start
+  const pause = () => {
+    if (!isPlaying) return;
+
+    isPlaying = false;
+    interrupt();
+    emit();
+  };
+
+  const stop = () => {
+    pause();
+    isFinished = false;
+    sentenceIndex = 0;
+    emit();
+  };
+
+  const seekTo = (positionMillis: number) => {
+    isFinished = false;
+    sentenceIndex = sentenceAt(positionMillis);
+    emit();
+    restartSentence();
+  };
+
+  const setRate = (nextRate: number) => {
+    rate = nextRate;
+    emit();
+    restartSentence();
+  };
+
+  const setVoice = (nextVoice?: string) => {
+    voice = nextVoice;
+    restartSentence();
+  };
+
+  // Only the web engine honours volume; elsewhere it applies from the next utterance at best
+  const setVolume = (nextVolume: number) => {
+    volume = nextVolume;
+  };
+
+  const unload = () => {
+    if (isPlaying) {
+      interrupt();
+    }
+    isPlaying = false;
+    isUnloaded = true;
+  };
+
+  return {
+    play,
+    pause,
+    stop,
+    seekTo,
+    setRate,
+    setVoice,
+    setVolume,
+    unload,
+    getStatus: () => getStatus(),
+  };
+};
+
+/**
+ * Converts a narrator status into the player's engine-neutral report
+ * @param status The narrator's status
+ * @returns The equivalent status update
+ */
+export const fromNarratorStatus = (status: NarratorStatus): PlayerStatusUpdate => ({
+  isLoaded: true,
+  isPlaying: status.isPlaying,
+  isBuffering: false,
+  shouldPlay: status.isPlaying,
+  positionMillis: status.positionMillis,
+  durationMillis: status.durationMillis,
+  rate: status.rate,
+  didJustFinish: status.didJustFinish,
+  sentenceIndex: status.sentenceIndex,
+  sentenceCount: status.sentenceCount,
+});
+
+/**
+ * Wraps a narrator so usePlayer can drive it in place of an Audio.Sound
+ * @param narrator The narrator to wrap
+ * @returns The narrator behind the sound interface
+ */
+export const narratorToSound = (narrator: Narrator): PlayerSound => ({
+  playAsync: async () => narrator.play(),
+  pauseAsync: async () => narrator.pause(),
+  stopAsync: async () => narrator.stop(),
+  unloadAsync: async () => narrator.unload(),
+  setPositionAsync: async (positionMillis) => narrator.seekTo(positionMillis),
+  // Speech engines keep their pitch at any rate
+  setRateAsync: async (rate) => narrator.setRate(rate),
+  setVolumeAsync: async (volume) => narrator.setVolume(volume),
+});
@@ -0,0 +1,29 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AudioDurations } from '../types/book';
+
+const STORAGE_KEY = '@tunetalez/audio-durations';
+
+// Get the length of every recording measured on this device
+export const getAudioDurations = async (): Promise<AudioDurations> => {
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Error loading audio durations:', error);
+    return {};
+  }
+};
+
+// Remember a recording's length, keyed by its audio URL
+export const saveAudioDuration = async (audioUrl: string, durationMillis: number): Promise<void> => {
+  try {
+    const durations = await getAudioDurations();
+    if (durations[audioUrl] === durationMillis) {
+      return;
+    }
+    durations[audioUrl] = durationMillis;
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(durations));
+  } catch (error) {
+    console.error('Error saving audio duration:', error);
+  }
+};
@@ -0,0 +1,167 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system/legacy';
+import { BookWithChapters } from '../types/book';
+import { DownloadItem } from '../types/download';
+
+const INDEX_STORAGE_KEY = '@tunetalez/downloads';
+const QUOTA_STORAGE_KEY = '@tunetalez/download-quota';
+
+const MEGABYTE = 1024 * 1024;
+
+// Storage limits offered on the Downloads tab
+export const DOWNLOAD_QUOTA_OPTIONS = [500 * MEGABYTE, 1024 * MEGABYTE, 2048 * MEGABYTE, 5120 * MEGABYTE];
+
+export const DEFAULT_DOWNLOAD_QUOTA = 2048 * MEGABYTE;
+
+// The web build has no app document directory to save files into
+export const isDownloadSupported = !!FileSystem.documentDirectory;
+
+export type DownloadIndex = Record<string, DownloadItem>;
+
+/**
+ * Directory that holds a book's downloaded files
+ * @param bookId The book's id
+ * @returns The directory URI, with a trailing slash
+ */
+export const getBookDownloadDirectory = (bookId: string): string => {
+  return `${FileSystem.documentDirectory}downloads/${bookId}/`;
+};
+
+// Load the index of downloaded and queued chapters
+export const getDownloadIndex = async (): Promise<DownloadIndex> => {
+  try {
+    const stored = await AsyncStorage.getItem(INDEX_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Error loading downloads:', error);
+    return {};
+  }
+};
+
+// Persist the index of downloaded and queued chapters
+export const saveDownloadIndex = async (index: DownloadIndex): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(INDEX_STORAGE_KEY, JSON.stringify(index));
+  } catch (error) {
+    console.error('Error saving downloads:', error);
+  }
+};
+
+// Get the most space downloads may take up, in bytes
+export const getDownloadQuota = async (): Promise<number> => {
+  try {
+    const stored = await AsyncStorage.getItem(QUOTA_STORAGE_KEY);
+    return stored ? Number(stored) : DEFAULT_DOWNLOAD_QUOTA;
+  } catch (error) {
+    console.error('Error loading download quota:', error);
+    return DEFAULT_DOWNLOAD_QUOTA;
+  }
+};
+
+// Remember the most space downloads may take up
+export const saveDownloadQuota = async (quotaBytes: number): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(QUOTA_STORAGE_KEY, String(quotaBytes));
+  } catch (error) {
+    console.error('Error saving download quota:', error);
+  }
+};
+
+const fileExists = async (uri: string): Promise<boolean> => {
+  const info = await FileSystem.getInfoAsync(uri);
+  return info.exists;
+};
+
+/**
+ * Finds the downloaded copy of a narration, so it can be played offline
+ * @param remoteAudioUrl The R2 URL the narration streams from
+ * @returns The local file URI, or null if it hasn't been downloaded
+ */
+export const getLocalAudioUri = async (remoteAudioUrl: string): Promise<string | null> => {
+  if (!isDownloadSupported) {
+    return null;
+  }
+
+  try {
+    const index = await getDownloadIndex();
+    const item = Object.values(index).find(
+      download => download.remoteAudioUrl === remoteAudioUrl && download.status === 'completed'
+    );
+    if (item?.audioUri && await fileExists(item.audioUri)) {
+      return item.audioUri;
+    }
+    return null;
+  } catch (error) {
+    console.error('Error looking up downloaded audio:', error);
+    return null;
+  }
+};
+
+/**
+ * Reads a chapter's saved text, so it can be opened offline
+ * @param bookId The book the chapter belongs to
+ * @param chapterId The chapter's id
+ * @returns The chapter HTML, or null if its text wasn't saved
+ */
+export const getDownloadedChapterContent = async (bookId: string, chapterId: string): Promise<string | null> => {
+  if (!isDownloadSupported) {
+    return null;
+  }
+
+  try {
+    const index = await getDownloadIndex();
+    // Text is written when the chapter is queued, so it is there before the audio finishes
+    const textUri = index[`${bookId}:${chapterId}`]?.textUri;
+    if (textUri && await fileExists(textUri)) {
+      return await FileSystem.readAsStringAsync(textUri);
+    }
+    return null;
+  } catch (error) {
+    console.error('Error reading downloaded chapter:', error);
+    return null;
+  }
+};
+
+/**
+ * Rebuilds a book from its downloaded chapters, for reading without a connection
+ * @param bookId The book's id
+ * @returns The book with the chapters that were saved, or null if none were
+ */
+export const getDownloadedBook = async (bookId: string): Promise<BookWithChapters | null> => {
+  if (!isDownloadSupported) {
+    return null;
+  }
+
+  try {
+    const index = await getDownloadIndex();
+    const items = Object.values(index)
+      .filter(item => item.bookId === bookId && item.status === 'completed' && item.textUri)
+      .sort((a, b) => a.order - b.order);
+    if (items.length === 0) {
+      return null;
+    }
+
+    const chapters = await Promise.all(items.map(async item => ({
+      id: item.chapterId,
+      title: item.chapterTitle,
+      content: item.textUri ? await FileSystem.readAsStringAsync(item.textUri) : '',
+      order: item.order,
+      bookId,
+      // Kept remote so playback finds the local copy and resume positions stay keyed the same
+      audioUrl: item.remoteAudioUrl,
+    })));
+
+    const first = items[0];
+    return {
+      id: bookId,
+      title: first.bookTitle,
+      author: first.author,
+      thumbnailUrl: first.coverUri,
+      createdAt: new Date(first.createdAt).toISOString(),
+      chapters,
+    };
+  } catch (error) {
+    console.error('Error loading downloaded book:', error);
+    return null;
+  }
+};
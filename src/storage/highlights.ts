@@ -0,0 +1,54 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Highlight } from '../types/reader';
+
+const STORAGE_KEY = '@tunetalez/highlights';
+
+// Highlights grouped by the book they were made in
+type HighlightsByBook = Record<string, Highlight[]>;
+
+const readHighlights = async (): Promise<HighlightsByBook> => {
+  const stored = await AsyncStorage.getItem(STORAGE_KEY);
+  return stored ? JSON.parse(stored) : {};
+};
+
+const writeHighlights = async (highlights: HighlightsByBook): Promise<void> => {
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(highlights));
+};
+
+// Get every highlight made in a book, oldest first
+export const getBookHighlights = async (bookId: string): Promise<Highlight[]> => {
+  try {
+    const highlights = await readHighlights();
+    return highlights[bookId] || [];
+  } catch (error) {
+    console.error('Error loading highlights:', error);
+    return [];
+  }
+};
+
+// Add a highlight, or replace the saved one with the same id
+export const saveHighlight = async (highlight: Highlight): Promise<void> => {
+  try {
+    const highlights = await readHighlights();
+    const bookHighlights = (highlights[highlight.bookId] || []).filter(saved => saved.id !== highlight.id);
+    highlights[highlight.bookId] = [...bookHighlights, highlight].sort((a, b) => a.createdAt - b.createdAt);
+    await writeHighlights(highlights);
+  } catch (error) {
+    console.error('Error saving highlight:', error);
+  }
+};
+
+export const deleteHighlight = async (bookId: string, highlightId: string): Promise<void> => {
+  try {
+    const highlights = await readHighlights();
+    const remaining = (highlights[bookId] || []).filter(saved => saved.id !== highlightId);
+    if (remaining.length > 0) {
+      highlights[bookId] = remaining;
+    } else {
+      delete highlights[bookId];
+    }
+    await writeHighlights(highlights);
+  } catch (error) {
+    console.error('Error deleting highlight:', error);
+  }
+};
@@ -0,0 +1,99 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ListeningProgress } from '../types/playback';
+
+const STORAGE_KEY = '@tunetalez/listening-history';
+
+// Keep the history bounded so the single AsyncStorage entry stays small
+const MAX_HISTORY_ENTRIES = 100;
+
+// Positions this close to the end count as finished
+const COMPLETION_THRESHOLD_MILLIS = 5000;
+
+// Keyed by `${userId}:${audioUrl}`, or the bare audio URL for listening while signed out
+type ListeningHistory = Record<string, ListeningProgress>;
+
+const historyKey = (audioUrl: string, userId: string | undefined) =>
+  userId ? `${userId}:${audioUrl}` : audioUrl;
+
+const keyHistory = (entries: ListeningProgress[]): ListeningHistory =>
+  entries.reduce<ListeningHistory>((acc, entry) => {
+    if (entry.track.audioUrl) {
+      acc[historyKey(entry.track.audioUrl, entry.userId)] = entry;
+    }
+    return acc;
+  }, {});
+
+// Re-keyed on read, so entries saved before the history was split by user land under their owner
+const readHistory = async (): Promise<ListeningHistory> => {
+  const stored = await AsyncStorage.getItem(STORAGE_KEY);
+  return stored ? keyHistory(Object.values(JSON.parse(stored))) : {};
+};
+
+/**
+ * Checks whether a saved position is at (or near) the end of the track
+ * @param progress The saved progress
+ * @returns true if the track was listened to the end
+ */
+export const isProgressComplete = (progress: ListeningProgress): boolean => {
+  return progress.durationMillis > 0 &&
+    progress.positionMillis >= progress.durationMillis - COMPLETION_THRESHOLD_MILLIS;
+};
+
+/**
+ * Percentage of the track that has been listened to, from 0 to 100
+ * @param progress The saved progress
+ * @returns The rounded percentage
+ */
+export const getProgressPercent = (progress: ListeningProgress): number => {
+  if (progress.durationMillis <= 0) {
+    return 0;
+  }
+  return Math.min(100, Math.round((progress.positionMillis / progress.durationMillis) * 100));
+};
+
+// Get a user's saved position for an audio URL, if there is one
+export const getListeningProgress = async (
+  audioUrl: string,
+  userId: string | undefined
+): Promise<ListeningProgress | null> => {
+  try {
+    const history = await readHistory();
+    return history[historyKey(audioUrl, userId)] || null;
+  } catch (error) {
+    console.error('Error loading listening progress:', error);
+    return null;
+  }
+};
+
+// Get a user's listening history on this device, most recently played first
+export const getListeningHistory = async (userId: string | undefined): Promise<ListeningProgress[]> => {
+  try {
+    const history = await readHistory();
+    return Object.values(history)
+      .filter(progress => progress.userId === userId)
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  } catch (error) {
+    console.error('Error loading listening history:', error);
+    return [];
+  }
+};
+
+// Save the position for a track, keyed by who listened and its audio URL
+export const saveListeningProgress = async (progress: ListeningProgress): Promise<void> => {
+  if (!progress.track.audioUrl) {
+    return;
+  }
+
+  try {
+    const history = await readHistory();
+    history[historyKey(progress.track.audioUrl, progress.userId)] = progress;
+
+    // Drop the oldest entries once the history grows past its limit
+    const entries = Object.values(history).sort((a, b) => b.updatedAt - a.updatedAt);
+    const trimmed = keyHistory(entries.slice(0, MAX_HISTORY_ENTRIES));
+
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(trimmed));
+  } catch (error) {
+    console.error('Error saving listening progress:', error);
+  }
+};
@@ -0,0 +1,60 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { PlaybackSettings } from '../types/playback';
+
+const STORAGE_KEY = '@tunetalez/playback-settings';
+
+export const DEFAULT_PLAYBACK_SETTINGS: PlaybackSettings = {
+  missingAudio: 'skip',
+};
+
+// Load the saved playback settings, falling back to defaults for missing keys
+export const getPlaybackSettings = async (): Promise<PlaybackSettings> => {
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEY);
+    if (!stored) {
+      return DEFAULT_PLAYBACK_SETTINGS;
+    }
+    return { ...DEFAULT_PLAYBACK_SETTINGS, ...JSON.parse(stored) };
+  } catch (error) {
+    console.error('Error loading playback settings:', error);
+    return DEFAULT_PLAYBACK_SETTINGS;
+  }
+};
+
+// Persist the playback settings on this device
+export const savePlaybackSettings = async (settings: PlaybackSettings): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error saving playback settings:', error);
+  }
+};
+
+const RATES_STORAGE_KEY = '@tunetalez/playback-rates';
+
+// Speeds offered in the player, from half speed up to triple speed
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2, 2.5, 3];
+
+// Get the playback rate the listener last chose for a book
+export const getBookPlaybackRate = async (bookId: string): Promise<number> => {
+  try {
+    const stored = await AsyncStorage.getItem(RATES_STORAGE_KEY);
+    const rates: Record<string, number> = stored ? JSON.parse(stored) : {};
+    return rates[bookId] || 1;
+  } catch (error) {
+    console.error('Error loading playback rate:', error);
+    return 1;
+  }
+};
+
+// Remember the playback rate for a book
+export const saveBookPlaybackRate = async (bookId: string, rate: number): Promise<void> => {
+  try {
+    const stored = await AsyncStorage.getItem(RATES_STORAGE_KEY);
+    const rates: Record<string, number> = stored ? JSON.parse(stored) : {};
+    rates[bookId] = rate;
+    await AsyncStorage.setItem(RATES_STORAGE_KEY, JSON.stringify(rates));
+  } catch (error) {
+    console.error('Error saving playback rate:', error);
+  }
+};
@@ -0,0 +1,47 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ReaderSettings } from '../types/reader';
+
+const STORAGE_KEY = '@tunetalez/reader-settings';
+
+// Choices offered in the reader settings sheet
+export const READER_FONT_SIZE_RANGE = { min: 12, max: 30, step: 2 };
+export const READER_LINE_SPACINGS = [1.2, 1.5, 1.8, 2.1];
+export const READER_MARGINS = [0, 12, 28];
+
+export const DEFAULT_READER_SETTINGS: ReaderSettings = {
+  fontSize: 16,
+  fontFamily: 'sans',
+  lineSpacing: 1.5,
+  margin: 0,
+  textAlign: 'left',
+  theme: 'dark',
+  readingMode: 'scroll',
+};
+
+// Load the saved reader settings, falling back to defaults for missing keys
+export const getReaderSettings = async (): Promise<ReaderSettings> => {
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEY);
+    if (!stored) {
+      return DEFAULT_READER_SETTINGS;
+    }
+    const settings: ReaderSettings = { ...DEFAULT_READER_SETTINGS, ...JSON.parse(stored) };
+    // The Verdana-based 'dyslexic' choice was replaced by the bundled Atkinson Hyperlegible
+    if ((settings.fontFamily as string) === 'dyslexic') {
+      settings.fontFamily = 'hyperlegible';
+    }
+    return settings;
+  } catch (error) {
+    console.error('Error loading reader settings:', error);
+    return DEFAULT_READER_SETTINGS;
+  }
+};
+
+// Persist the reader settings on this device
+export const saveReaderSettings = async (settings: ReaderSettings): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error saving reader settings:', error);
+  }
+};
@@ -0,0 +1,80 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ReadingProgress } from '../types/reader';
+
+const STORAGE_KEY = '@tunetalez/reading-progress';
+
+// Keep the history bounded so the single AsyncStorage entry stays small
+const MAX_PROGRESS_ENTRIES = 100;
+
+type ReadingHistory = Record<string, ReadingProgress>;
+
+const readHistory = async (): Promise<ReadingHistory> => {
+  const stored = await AsyncStorage.getItem(STORAGE_KEY);
+  return stored ? JSON.parse(stored) : {};
+};
+
+const writeHistory = async (history: ReadingHistory): Promise<void> => {
+  // Drop the least recently read books once the history grows past its limit
+  const trimmed = Object.values(history)
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .slice(0, MAX_PROGRESS_ENTRIES)
+    .reduce<ReadingHistory>((acc, entry) => {
+      acc[entry.bookId] = entry;
+      return acc;
+    }, {});
+
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(trimmed));
+};
+
+// Get how far the reader got through a book, if they've opened it
+export const getReadingProgress = async (bookId: string): Promise<ReadingProgress | null> => {
+  try {
+    const history = await readHistory();
+    return history[bookId] || null;
+  } catch (error) {
+    console.error('Error loading reading progress:', error);
+    return null;
+  }
+};
+
+// Get the progress for every book read on this device, most recently read first
+export const getReadingHistory = async (): Promise<ReadingProgress[]> => {
+  try {
+    const history = await readHistory();
+    return Object.values(history).sort((a, b) => b.updatedAt - a.updatedAt);
+  } catch (error) {
+    console.error('Error loading reading history:', error);
+    return [];
+  }
+};
+
+// Save the reader's place in a book
+export const saveReadingProgress = async (progress: ReadingProgress): Promise<void> => {
+  try {
+    const history = await readHistory();
+    history[progress.bookId] = progress;
+    await writeHistory(history);
+  } catch (error) {
+    console.error('Error saving reading progress:', error);
+  }
+};
+
+/**
+ * Folds progress saved elsewhere (e.g. the user's Firestore copy) into the
+ * local history, keeping whichever entry for each book is newer
+ * @param entries The progress to merge in
+ */
+export const mergeReadingProgress = async (entries: ReadingProgress[]): Promise<void> => {
+  try {
+    const history = await readHistory();
+    for (const entry of entries) {
+      const local = history[entry.bookId];
+      if (!local || entry.updatedAt > local.updatedAt) {
+        history[entry.bookId] = entry;
+      }
+    }
+    await writeHistory(history);
+  } catch (error) {
+    console.error('Error merging reading progress:', error);
+  }
+};
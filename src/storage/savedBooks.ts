@@ -0,0 +1,60 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SavedBook } from '../types/book';
+
+const STORAGE_KEY = '@tunetalez/saved-books';
+
+export type SavedLibrary = Record<string, SavedBook>;
+
+// Each account keeps its own copy on the device, apart from the signed-out library
+const getStorageKey = (userId?: string): string => (userId ? `${STORAGE_KEY}/${userId}` : STORAGE_KEY);
+
+/**
+ * Loads a saved library kept on this device, removed books included
+ * @param userId The account whose library to load, or undefined for the signed-out one
+ */
+export const getSavedLibrary = async (userId?: string): Promise<SavedLibrary> => {
+  try {
+    const stored = await AsyncStorage.getItem(getStorageKey(userId));
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Error loading saved books:', error);
+    return {};
+  }
+};
+
+// Persist a saved library on this device, for an account or (without a userId) signed out
+export const saveSavedLibrary = async (library: SavedLibrary, userId?: string): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(getStorageKey(userId), JSON.stringify(library));
+  } catch (error) {
+    console.error('Error saving saved books:', error);
+  }
+};
+
+// Empty the signed-out library, once its books have been handed to an account
+export const clearGuestSavedLibrary = async (): Promise<void> => {
+  try {
+    await AsyncStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.error('Error clearing saved books:', error);
+  }
+};
+
+/**
+ * Folds entries from elsewhere (e.g. the user's Firestore copy) into a
+ * library. For each book the most recently changed entry wins, whether it
+ * saves the book or removes it.
+ * @param library The library to merge into
+ * @param entries The entries to merge in
+ * @returns The merged library
+ */
+export const mergeSavedEntries = (library: SavedLibrary, entries: SavedBook[]): SavedLibrary => {
+  const merged = { ...library };
+  for (const entry of entries) {
+    const local = merged[entry.bookId];
+    if (!local || entry.updatedAt > local.updatedAt) {
+      merged[entry.bookId] = entry;
+    }
+  }
+  return merged;
+};
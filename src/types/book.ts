@@ -19,6 +19,10 @@ export interface Book {
   userId?: string;
   readCount?: number;
   status?: 'draft' | 'published' | 'archived';
+  // Stored with the book so its length is known without loading every chapter
+  wordCount?: number;
+  // Length of the book's own audio, in milliseconds
+  duration?: number;
 }
 
 export interface BookCategory {
@@ -29,7 +33,6 @@ export interface BookCategory {
 
 export interface BookWithAudio extends Book {
   audioUrl: string;
-  duration?: number;
   isProcessing?: boolean;
 }
 
@@ -44,8 +47,35 @@ export interface Chapter {
   order: number;
   bookId: string;
   audioUrl?: string;
+  wordCount?: number;
+  // Length of the chapter's audio, in milliseconds
+  duration?: number;
+}
+
+// A book in a user's likes, with enough of it to list without loading the book
+export interface LikedBook {
+  bookId: string;
+  title: string;
+  author: string;
+  thumbnailUrl?: string;
+  likedAt: number;
+}
+
+// A book in the saved library. Removed books are kept, marked isRemoved, so that when
+// devices sync the latest change to each book wins, removals included.
+export interface SavedBook {
+  bookId: string;
+  title: string;
+  author: string;
+  thumbnailUrl?: string;
+  savedAt: number;
+  isRemoved: boolean;
+  updatedAt: number;
 }
 
+// Recorded audio lengths in milliseconds, keyed by audio URL
+export type AudioDurations = Record<string, number>;
+
 export interface Paragraph {
   id: string;
   content: string;
@@ -0,0 +1,30 @@
+// Download Types
+
+export type DownloadStatus = 'queued' | 'downloading' | 'paused' | 'completed' | 'error';
+
+// A chapter saved for offline use, with enough of its book to show it without a connection
+export interface DownloadItem {
+  // `${bookId}:${chapterId}`, matching the chapter's playback track id
+  id: string;
+  bookId: string;
+  chapterId: string;
+  bookTitle: string;
+  author: string;
+  chapterTitle: string;
+  order: number;
+  // Remote URLs the files were fetched from; playback looks local copies up by audio URL
+  remoteAudioUrl?: string;
+  remoteCoverUrl?: string;
+  // Local file URIs, set once each file has been saved
+  audioUri?: string;
+  textUri?: string;
+  coverUri?: string;
+  status: DownloadStatus;
+  bytesWritten: number;
+  // Expected size of the audio, 0 until the server reports it
+  totalBytes: number;
+  // Saved when an audio download is paused so it can carry on where it stopped
+  resumeData?: string;
+  error?: string;
+  createdAt: number;
+}
@@ -0,0 +1,65 @@
+// Playback Types
+
+export interface PlaybackTrack {
+  id: string;
+  // Missing for chapters that have text but no narration
+  audioUrl?: string;
+  title: string;
+  subtitle?: string;
+  // Shown as the artist on lock-screen and browser media controls
+  author?: string;
+  artworkUrl?: string;
+  bookId?: string;
+  chapterId?: string;
+  // Set for read-along tracks that narrate a single paragraph
+  paragraphId?: string;
+  // Plain text to synthesize when there is no audioUrl
+  text?: string;
+}
+
+// What the queue does when it reaches a chapter that has no narration.
+// 'fallback' reads the chapter with the device's voice when it has text.
+export type MissingAudioBehavior = 'skip' | 'fallback';
+
+export interface PlaybackSettings {
+  missingAudio: MissingAudioBehavior;
+  // Identifier of the device voice used for synthesized narration; the system default when unset
+  speechVoice?: string;
+}
+
+// Last known position for a track, saved so listeners can pick up where they left off
+export interface ListeningProgress {
+  track: PlaybackTrack;
+  positionMillis: number;
+  durationMillis: number;
+  updatedAt: number;
+  // Who was signed in when it was played, so account stats only count their own listening
+  userId?: string;
+}
+
+// What lock-screen, notification and browser media controls show
+export interface NowPlayingMetadata {
+  title: string;
+  artist?: string;
+  album?: string;
+  artworkUrl?: string;
+}
+
+// Player actions the media controls can trigger
+export interface MediaSessionHandlers {
+  play: () => void;
+  pause: () => void;
+  stop: () => void;
+  previousTrack: () => void;
+  nextTrack: () => void;
+  seekBy: (deltaMillis: number) => void;
+  seekTo: (positionMillis: number) => void;
+}
+
+// Playback state mirrored to the media controls
+export interface MediaSessionState {
+  isPlaying: boolean;
+  positionMillis: number;
+  durationMillis: number;
+  rate: number;
+}
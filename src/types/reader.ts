@@ -0,0 +1,68 @@
+// Reader Types
+
+export type ReaderFontFamily = 'serif' | 'sans' | 'hyperlegible';
+
+export type ReaderThemeName = 'dark' | 'sepia' | 'light' | 'amoled';
+
+export type ReaderTextAlign = 'left' | 'justify';
+
+export type ReadingMode = 'scroll' | 'paginated';
+
+// How chapter text looks in the reader, saved per device
+export interface ReaderSettings {
+  fontSize: number;
+  fontFamily: ReaderFontFamily;
+  // Line height as a multiple of the font size
+  lineSpacing: number;
+  // Extra horizontal padding around the text, in points
+  margin: number;
+  textAlign: ReaderTextAlign;
+  theme: ReaderThemeName;
+  readingMode: ReadingMode;
+}
+
+export interface ReaderPalette {
+  background: string;
+  text: string;
+  secondaryText: string;
+  accent: string;
+  border: string;
+  // Background behind code and preformatted text
+  codeBackground: string;
+}
+
+// How far a reader has got through a book, saved per device and per signed-in user
+export interface ReadingProgress {
+  bookId: string;
+  bookTitle: string;
+  author: string;
+  thumbnailUrl?: string;
+  // Where the reader left off
+  chapterId: string;
+  chapterTitle: string;
+  // Fraction of the chapter scrolled or paged through, from 0 to 1
+  chapterOffset: number;
+  // Furthest offset reached in each chapter
+  chapterOffsets: Record<string, number>;
+  // Overall position through the book, from 0 to 100
+  percent: number;
+  updatedAt: number;
+}
+
+export type HighlightColor = 'yellow' | 'green' | 'blue' | 'pink';
+
+// A passage the reader marked in a chapter, with an optional note
+export interface Highlight {
+  id: string;
+  bookId: string;
+  chapterId: string;
+  // Character offsets into the chapter's plain text (see formatHtmlContent), end exclusive
+  start: number;
+  end: number;
+  // The highlighted passage, used to find it again if the chapter text changes
+  quote: string;
+  color: HighlightColor;
+  note?: string;
+  createdAt: number;
+  updatedAt: number;
+}
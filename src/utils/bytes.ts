@@ -0,0 +1,17 @@
+/**
+ * Formats a byte count for display, e.g. 1536 -> "1.5 KB"
+ * @param bytes The number of bytes
+ * @returns The size in the largest unit that keeps it above 1
+ */
+export const formatBytes = (bytes: number): string => {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = Math.max(bytes, 0);
+  let unit = 0;
+
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+};
@@ -0,0 +1,130 @@
+import { BookWithChapters } from '../types/book';
+import { Highlight, HighlightColor } from '../types/reader';
+
+// A stretch of chapter text, end exclusive
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+// Where a highlight falls in the chapter text as it is now
+export interface HighlightRange extends TextRange {
+  id: string;
+  color: HighlightColor;
+}
+
+// A run of text that is either unmarked or lies wholly inside one range
+export interface TextSegment<T extends TextRange = TextRange> {
+  text: string;
+  // Offset of the run within the chapter text
+  start: number;
+  range?: T;
+}
+
+/**
+ * Finds a highlight in the chapter text. The saved offsets are used while the
+ * text there still matches the quote; if the chapter has been edited since,
+ * the occurrence of the quote nearest the old position is used instead.
+ * @param text The chapter's plain text
+ * @param highlight The saved highlight
+ * @returns Its current range, or null if the passage is no longer in the chapter
+ */
+export const anchorHighlight = (text: string, highlight: Highlight): HighlightRange | null => {
+  const { id, start, end, quote, color } = highlight;
+  if (!quote) return null;
+
+  if (text.slice(start, end) === quote) {
+    return { id, start, end, color };
+  }
+
+  let nearest = -1;
+  for (let index = text.indexOf(quote); index >= 0; index = text.indexOf(quote, index + 1)) {
+    if (nearest < 0 || Math.abs(index - start) < Math.abs(nearest - start)) {
+      nearest = index;
+    }
+  }
+  return nearest < 0 ? null : { id, start: nearest, end: nearest + quote.length, color };
+};
+
+/**
+ * Anchors a chapter's highlights in its current text
+ * @param text The chapter's plain text
+ * @param highlights Highlights for the whole book
+ * @param chapterId The chapter the text belongs to
+ * @returns The ranges that could be found, in reading order
+ */
+export const resolveHighlights = (text: string, highlights: Highlight[], chapterId: string): HighlightRange[] => {
+  return highlights
+    .filter(highlight => highlight.chapterId === chapterId)
+    .map(highlight => anchorHighlight(text, highlight))
+    .filter((range): range is HighlightRange => range !== null)
+    .sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Splits text into unmarked and marked runs, e.g. for highlights or search
+ * matches. Where ranges overlap, the one that starts first keeps the shared part.
+ * @param text The text to split, e.g. a whole chapter or one page of it
+ * @param ranges Ranges in reading order
+ * @param offset Where the text begins within the chapter
+ * @returns The runs, which together make up the whole text
+ */
+export const splitTextByRanges = <T extends TextRange>(text: string, ranges: T[], offset: number = 0): TextSegment<T>[] => {
+  const segments: TextSegment<T>[] = [];
+  let position = 0;
+
+  for (const range of ranges) {
+    const start = Math.max(range.start - offset, position);
+    const end = Math.min(range.end - offset, text.length);
+    if (end <= start) continue;
+
+    if (start > position) {
+      segments.push({ text: text.slice(position, start), start: offset + position });
+    }
+    segments.push({ text: text.slice(start, end), start: offset + start, range });
+    position = end;
+  }
+
+  if (position < text.length) {
+    segments.push({ text: text.slice(position), start: offset + position });
+  }
+  return segments;
+};
+
+/**
+ * Writes a book's highlights and notes out as Markdown, grouped by chapter in
+ * reading order, with each passage as a block quote followed by its note
+ * @param book The book the highlights belong to
+ * @param highlights The highlights to export
+ * @returns The Markdown document
+ */
+export const highlightsToMarkdown = (book: BookWithChapters, highlights: Highlight[]): string => {
+  const chapters = book.chapters ?? [];
+  const chapterIndex = (chapterId: string) => {
+    const index = chapters.findIndex(chapter => chapter.id === chapterId);
+    return index < 0 ? chapters.length : index;
+  };
+  const sorted = [...highlights].sort(
+    (a, b) => chapterIndex(a.chapterId) - chapterIndex(b.chapterId) || a.start - b.start
+  );
+
+  const lines = [`# ${book.title}`, '', `*${book.author}*`, ''];
+  let currentIndex = -1;
+
+  for (const highlight of sorted) {
+    const index = chapterIndex(highlight.chapterId);
+    if (index !== currentIndex) {
+      currentIndex = index;
+      // Highlights can outlive a chapter that has since been removed
+      const title = index < chapters.length ? chapters[index].title || `Episode ${index + 1}` : 'Removed episodes';
+      lines.push(`## ${title}`, '');
+    }
+
+    lines.push(...highlight.quote.split('\n').map(line => (line.trim() ? `> ${line.trim()}` : '>')), '');
+    if (highlight.note) {
+      lines.push(highlight.note, '');
+    }
+  }
+
+  return `${lines.join('\n').trimEnd()}\n`;
+};
@@ -0,0 +1,114 @@
+// Named entities common in chapter text; any others are left as written
+const NAMED_ENTITIES: Record<string, string> = {
+  nbsp: ' ',
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  copy: '©',
+};
+
+/**
+ * Decodes numeric entities and the common named ones
+ * @param text Text that may contain HTML entities
+ * @returns The text with those entities replaced by their characters
+ */
+export const decodeHtmlEntities = (text: string): string => {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const codePoint = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+};
+
+/**
+ * Converts chapter HTML into plain text, e.g. for speech and read-along
+ * @param htmlContent The HTML stored on the chapter or book
+ * @returns Plain text with paragraphs separated by blank lines
+ */
+export const formatHtmlContent = (htmlContent: string): string => {
+  if (!htmlContent) return '';
+  
+  // Replace paragraph tags with line breaks
+  let formattedContent = htmlContent.replace(/<p>/g, '').replace(/<\/p>/g, '\n\n');
+  
+  // Handle strong tags (make text appear normal but preserve content)
+  formattedContent = formattedContent.replace(/<strong>/g, '').replace(/<\/strong>/g, '');
+  
+  // Remove any other HTML tags that might be present
+  formattedContent = formattedContent.replace(/<[^>]*>/g, '');
+  
+  // Replace special characters
+  formattedContent = decodeHtmlEntities(formattedContent);
+  
+  // Trim extra whitespace
+  return formattedContent.trim();
+};
+
+// A span of formatHtmlContent's output to wrap in a <mark>
+export interface HtmlMarkRange {
+  start: number;
+  end: number;
+  className: string;
+}
+
+const escapeHtml = (text: string): string => {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+};
+
+/**
+ * Wraps ranges of a chapter's plain text in <mark> elements in its HTML, so
+ * passages found in the text (e.g. highlights) can be shown in the markup
+ * @param htmlContent The chapter HTML
+ * @param ranges Offsets into formatHtmlContent(htmlContent), end exclusive
+ * @returns The HTML with each range marked; ranges crossing elements are marked piece by piece
+ */
+export const markHtmlRanges = (htmlContent: string, ranges: HtmlMarkRange[]): string => {
+  if (!htmlContent || ranges.length === 0) return htmlContent;
+
+  // Walk the markup the way formatHtmlContent reads it, so offsets line up with its output
+  const tokens = htmlContent.match(/<[^>]*>|[^<]+|</g) || [];
+  const plainLengths = tokens.map(token => {
+    if (token === '</p>') return 2;
+    return token.length > 1 && token[0] === '<' ? 0 : decodeHtmlEntities(token).length;
+  });
+  const untrimmed = tokens
+    .map((token, index) => (token === '</p>' ? '\n\n' : plainLengths[index] ? decodeHtmlEntities(token) : ''))
+    .join('');
+  let position = -(untrimmed.length - untrimmed.trimStart().length);
+
+  return tokens.map((token, index) => {
+    const tokenStart = position;
+    position += plainLengths[index];
+    if (token === '</p>' || !plainLengths[index]) return token;
+
+    const text = decodeHtmlEntities(token);
+    const overlapping = ranges.filter(range => range.start < position && range.end > tokenStart);
+    if (overlapping.length === 0) return token;
+
+    let marked = '';
+    let cursor = 0;
+    for (const range of [...overlapping].sort((a, b) => a.start - b.start)) {
+      const start = Math.max(range.start - tokenStart, cursor);
+      const end = Math.min(range.end - tokenStart, text.length);
+      if (end <= start) continue;
+
+      marked += escapeHtml(text.slice(cursor, start));
+      const piece = text.slice(start, end);
+      // Whitespace between block elements (e.g. table rows) can't hold a mark
+      marked += piece.trim() ? `<mark class="${range.className}">${escapeHtml(piece)}</mark>` : escapeHtml(piece);
+      cursor = end;
+    }
+    return marked + escapeHtml(text.slice(cursor));
+  }).join('');
+};
@@ -0,0 +1,89 @@
+import { Platform, Share } from 'react-native';
+import * as Linking from 'expo-linking';
+
+// Optional places to open a chapter at
+export interface ChapterLinkAnchor {
+  // Audio position, in seconds
+  t?: number;
+  // Paragraph of the chapter text, counting from 1
+  p?: number;
+}
+
+/**
+ * Builds a link that opens a book, e.g. tunetalez://book/abc (or the site URL on web)
+ * @param bookId The book to open
+ */
+export const getBookLink = (bookId: string): string => {
+  return Linking.createURL(`/book/${encodeURIComponent(bookId)}`);
+};
+
+/**
+ * Builds a link that opens a book on one chapter, optionally at a point in its audio or text
+ * @param bookId The book to open
+ * @param chapterId The chapter to open
+ * @param anchor Where in the chapter to start
+ */
+export const getChapterLink = (bookId: string, chapterId: string, anchor: ChapterLinkAnchor = {}): string => {
+  const queryParams: Record<string, string> = {};
+  if (anchor.t !== undefined && anchor.t > 0) {
+    queryParams.t = String(Math.floor(anchor.t));
+  }
+  if (anchor.p !== undefined && anchor.p > 1) {
+    queryParams.p = String(Math.floor(anchor.p));
+  }
+
+  return Linking.createURL(
+    `/book/${encodeURIComponent(bookId)}/chapter/${encodeURIComponent(chapterId)}`,
+    { queryParams }
+  );
+};
+
+/**
+ * Finds how far through a chapter's plain text a passage starts, the offset
+ * the reader opens highlights and search matches at
+ * @param text The chapter's plain text
+ * @param start Index of the passage's first character
+ * @returns How far through the text it starts, from 0 to 1
+ */
+export const getPassageOffset = (text: string, start: number): number => {
+  return text.length > 0 ? Math.min(Math.max(start, 0), text.length) / text.length : 0;
+};
+
+/**
+ * Finds where a paragraph begins in a chapter's plain text, for ?p= links
+ * @param text The chapter's plain text, with paragraphs separated by blank lines
+ * @param paragraph The paragraph number, counting from 1
+ * @returns How far through the text it starts, from 0 to 1
+ */
+export const getParagraphOffset = (text: string, paragraph: number): number => {
+  if (!text || paragraph <= 1) return 0;
+
+  let count = 1;
+  for (const separator of text.matchAll(/\n\s*\n/g)) {
+    count++;
+    if (count === paragraph) {
+      return ((separator.index ?? 0) + separator[0].length) / text.length;
+    }
+  }
+  // Past the last paragraph: open at the last one rather than failing
+  return Math.max(text.lastIndexOf('\n'), 0) / text.length;
+};
+
+/**
+ * Opens the share sheet for a link. Browsers without the Web Share API get
+ * the link copied to the clipboard instead.
+ * @param title What is being shared, e.g. the book title
+ * @param url The link to share
+ */
+export const shareLink = async (title: string, url: string): Promise<void> => {
+  try {
+    if (Platform.OS === 'web' && !navigator.share) {
+      await navigator.clipboard?.writeText(url);
+      return;
+    }
+    // iOS attaches the url on its own; Android only shares the message
+    await Share.share(Platform.OS === 'ios' ? { title, message: title, url } : { title, message: `${title}\n${url}` });
+  } catch (error) {
+    console.error('Error sharing link:', error);
+  }
+};
@@ -0,0 +1,87 @@
+// A laid-out line of text, as reported by Text's onTextLayout
+export interface PageLine {
+  text: string;
+  y: number;
+  height: number;
+}
+
+// The text on one page, and where it starts in the full text
+export interface Page {
+  text: string;
+  start: number;
+}
+
+/**
+ * Groups laid-out lines into pages that each fit the page height
+ * @param lines The lines in reading order, with their text including any trailing space or line break
+ * @param pageHeight The height available for text on one page
+ * @returns Each page's text and its offset in the text the lines were laid out from
+ */
+export const splitLinesIntoPages = (lines: PageLine[], pageHeight: number): Page[] => {
+  const pages: Page[] = [];
+  let current = '';
+  let start = 0;
+  let position = 0;
+  let pageTop = 0;
+
+  for (const line of lines) {
+    if (current && line.y + line.height - pageTop > pageHeight) {
+      pages.push({ text: current, start });
+      current = '';
+      pageTop = line.y;
+    }
+
+    if (current) {
+      current += line.text;
+    } else {
+      // Blank lines left over from a paragraph break shouldn't open a page
+      current = line.text.replace(/^\n+/, '');
+      start = position + line.text.length - current.length;
+    }
+    position += line.text.length;
+  }
+
+  if (current.trim()) {
+    pages.push({ text: current, start });
+  }
+  return pages;
+};
+
+/**
+ * Approximates how text wraps when the platform can't report its layout
+ * (react-native-web has no onTextLayout), assuming an average glyph width of
+ * half the font size
+ * @param text The text to wrap
+ * @param width The width of a line
+ * @param fontSize The font size
+ * @param lineHeight The height of each line
+ * @param letterSpacing Extra space after each character
+ * @returns Estimated lines, in the same shape onTextLayout reports
+ */
+export const estimateLines = (
+  text: string,
+  width: number,
+  fontSize: number,
+  lineHeight: number,
+  letterSpacing: number = 0
+): PageLine[] => {
+  const charsPerLine = Math.max(Math.floor(width / (fontSize * 0.5 + letterSpacing)), 10);
+  const lines: PageLine[] = [];
+  const addLine = (lineText: string) => {
+    lines.push({ text: lineText, y: lines.length * lineHeight, height: lineHeight });
+  };
+
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(' ')) {
+      if (line && line.length + word.length > charsPerLine) {
+        addLine(line);
+        line = '';
+      }
+      line += `${word} `;
+    }
+    addLine(`${line.trimEnd()}\n`);
+  }
+
+  return lines;
+};
@@ -0,0 +1,139 @@
+import { AudioDurations, Book, Chapter } from '../types/book';
+import { processAudioUrl } from '../r2/services';
+import { formatHtmlContent } from './html';
+
+// A typical silent reading speed for fiction
+const READING_WORDS_PER_MINUTE = 230;
+
+// About the pace of the synthesized narration at 1x, for text without a recording
+const NARRATION_WORDS_PER_MINUTE = 150;
+
+// How long a book or chapter takes to read and to listen to
+export interface ContentLength {
+  wordCount: number;
+  readMinutes: number;
+  listenMinutes: number;
+}
+
+export type LengthFilter = 'all' | 'short' | 'medium' | 'long';
+
+export const LENGTH_FILTERS: { value: LengthFilter; label: string }[] = [
+  { value: 'all', label: 'Any length' },
+  { value: 'short', label: 'Under 15 min' },
+  { value: 'medium', label: '15–60 min' },
+  { value: 'long', label: 'Over an hour' },
+];
+
+/**
+ * Counts the words in a piece of content
+ * @param html The content, as HTML or plain text
+ * @returns The number of words
+ */
+export const countWords = (html: string | undefined): number => {
+  return formatHtmlContent(html ?? '').match(/\S+/g)?.length ?? 0;
+};
+
+// Recorded length of some audio, from the stored metadata or as measured on this device
+const getAudioMillis = (audioUrl: string | undefined, duration: number | undefined, durations: AudioDurations): number => {
+  if (duration) return duration;
+  const url = processAudioUrl(audioUrl);
+  return url ? durations[url] || 0 : 0;
+};
+
+const toLength = (wordCount: number, audioMillis: number): ContentLength | null => {
+  if (wordCount === 0 && audioMillis === 0) return null;
+  return {
+    wordCount,
+    readMinutes: wordCount / READING_WORDS_PER_MINUTE,
+    listenMinutes: audioMillis > 0 ? audioMillis / 60000 : wordCount / NARRATION_WORDS_PER_MINUTE,
+  };
+};
+
+/**
+ * Works out how long a chapter takes to read and to listen to. Listening time
+ * is the recording's length when known, otherwise the narration's estimate.
+ * @param chapter The chapter, with or without its content
+ * @param durations Audio lengths measured on this device
+ * @returns The length, or null if neither the text nor the audio length is known
+ */
+export const getChapterLength = (chapter: Chapter, durations: AudioDurations = {}): ContentLength | null => {
+  const wordCount = chapter.wordCount || countWords(chapter.content);
+  return toLength(wordCount, getAudioMillis(chapter.audioUrl, chapter.duration, durations));
+};
+
+/**
+ * Works out how long a whole book takes to read and to listen to, from its
+ * stored totals or by adding up its chapters
+ * @param book The book, with its chapters when it has them
+ * @param durations Audio lengths measured on this device
+ * @returns The length, or null if it can't be worked out
+ */
+export const getBookLength = (
+  book: Book & { chapters?: Chapter[] },
+  durations: AudioDurations = {}
+): ContentLength | null => {
+  const chapterLengths = (book.chapters ?? []).map(chapter => getChapterLength(chapter, durations));
+  // A partial total would make the book look shorter than it is
+  const chapterTotals = chapterLengths.length > 0 && chapterLengths.every(Boolean)
+    ? chapterLengths.reduce(
+      (total, length) => ({
+        wordCount: total.wordCount + (length?.wordCount ?? 0),
+        listenMillis: total.listenMillis + (length?.listenMinutes ?? 0) * 60000,
+      }),
+      { wordCount: 0, listenMillis: 0 }
+    )
+    : null;
+
+  const wordCount = book.wordCount || chapterTotals?.wordCount || countWords(book.content);
+  const audioMillis = getAudioMillis(book.audioUrl, book.duration, durations) || chapterTotals?.listenMillis || 0;
+  return toLength(wordCount, audioMillis);
+};
+
+/**
+ * Formats a number of minutes for display, e.g. "45 min" or "2 h 5 min"
+ * @param minutes The minutes to format, rounded up to at least one
+ * @returns The formatted time
+ */
+export const formatMinutes = (minutes: number): string => {
+  const rounded = Math.max(1, Math.round(minutes));
+  if (rounded < 60) return `${rounded} min`;
+
+  const hours = Math.floor(rounded / 60);
+  const remainder = rounded % 60;
+  return remainder ? `${hours} h ${remainder} min` : `${hours} h`;
+};
+
+/**
+ * Describes a length for display, e.g. "12 min read · 18 min listen"
+ * @param length The length to describe
+ * @returns The description, or an empty string if the length is unknown
+ */
+export const formatContentLength = (length: ContentLength | null): string => {
+  if (!length) return '';
+
+  const listen = `${formatMinutes(length.listenMinutes)} listen`;
+  return length.wordCount > 0 ? `${formatMinutes(length.readMinutes)} read · ${listen}` : listen;
+};
+
+/**
+ * Checks whether a book's length falls in the chosen range. Books of unknown
+ * length only show when every length is allowed.
+ * @param length The book's length
+ * @param filter The chosen range
+ * @returns true if the book should be shown
+ */
+export const matchesLengthFilter = (length: ContentLength | null, filter: LengthFilter): boolean => {
+  if (filter === 'all') return true;
+  if (!length) return false;
+
+  // Books without text are timed by their audio instead
+  const minutes = length.wordCount > 0 ? length.readMinutes : length.listenMinutes;
+  switch (filter) {
+    case 'short':
+      return minutes < 15;
+    case 'medium':
+      return minutes >= 15 && minutes <= 60;
+    case 'long':
+      return minutes > 60;
+  }
+};
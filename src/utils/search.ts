@@ -0,0 +1,102 @@
+import { TextRange } from './highlights';
+import { getPassageOffset } from './links';
+
+// A chapter's plain text, prepared once so it can be searched repeatedly
+export interface SearchableChapter {
+  id: string;
+  title: string;
+  text: string;
+}
+
+// One occurrence of the search term, with the text around it
+export interface SearchHit {
+  chapterId: string;
+  chapterTitle: string;
+  start: number;
+  end: number;
+  // Where the match falls in the chapter, from 0 to 1
+  offset: number;
+  before: string;
+  match: string;
+  after: string;
+}
+
+// Characters of context shown either side of a match
+const CONTEXT_LENGTH = 60;
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Builds a case-insensitive pattern for a search term. Runs of whitespace in
+ * the term match any whitespace, so phrases still match across line breaks.
+ * @param query The term as typed
+ * @returns The pattern, or null if the term is blank
+ */
+const buildSearchPattern = (query: string): RegExp | null => {
+  const words = query.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return null;
+  return new RegExp(words.map(escapeRegExp).join('\\s+'), 'gi');
+};
+
+/**
+ * Finds every occurrence of a term in a piece of text
+ * @param text The text to search
+ * @param query The term as typed
+ * @returns The matching ranges in reading order
+ */
+export const findMatches = (text: string, query: string): TextRange[] => {
+  const pattern = buildSearchPattern(query);
+  if (!pattern) return [];
+
+  const matches: TextRange[] = [];
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    matches.push({ start, end: start + match[0].length });
+  }
+  return matches;
+};
+
+/**
+ * Searches all of a book's chapters for a term
+ * @param chapters The chapters' plain text, in reading order
+ * @param query The term as typed
+ * @param maxHits The most hits to return with context; the rest are only counted
+ * @returns The first hits in reading order and the total number of matches
+ */
+export const searchChapters = (
+  chapters: SearchableChapter[],
+  query: string,
+  maxHits: number = 200
+): { hits: SearchHit[]; total: number } => {
+  const pattern = buildSearchPattern(query);
+  if (!pattern) return { hits: [], total: 0 };
+
+  const hits: SearchHit[] = [];
+  let total = 0;
+
+  for (const chapter of chapters) {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(chapter.text)) !== null) {
+      total++;
+      if (hits.length >= maxHits) continue;
+
+      const start = match.index;
+      const end = start + match[0].length;
+      const contextStart = Math.max(start - CONTEXT_LENGTH, 0);
+      const contextEnd = Math.min(end + CONTEXT_LENGTH, chapter.text.length);
+      hits.push({
+        chapterId: chapter.id,
+        chapterTitle: chapter.title,
+        start,
+        end,
+        offset: getPassageOffset(chapter.text, start),
+        before: `${contextStart > 0 ? '…' : ''}${chapter.text.slice(contextStart, start).replace(/\s+/g, ' ').trimStart()}`,
+        match: match[0],
+        after: `${chapter.text.slice(end, contextEnd).replace(/\s+/g, ' ').trimEnd()}${contextEnd < chapter.text.length ? '…' : ''}`,
+      });
+    }
+  }
+
+  return { hits, total };
+};
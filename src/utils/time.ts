@@ -0,0 +1,17 @@
+/**
+ * Formats a millisecond duration as m:ss (or h:mm:ss for long narrations)
+ * @param milliseconds The duration to format
+ * @returns The formatted time string
+ */
+export const formatTime = (milliseconds: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const paddedSeconds = `${seconds < 10 ? '0' : ''}${seconds}`;
+
+  if (hours > 0) {
+    return `${hours}:${minutes < 10 ? '0' : ''}${minutes}:${paddedSeconds}`;
+  }
+  return `${minutes}:${paddedSeconds}`;
+};
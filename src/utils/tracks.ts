@@ -0,0 +1,111 @@
+import { Book, Chapter, Paragraph } from '../types/book';
+import { PlaybackTrack } from '../types/playback';
+import { processAudioUrl, processThumbnailUrl } from '../r2/services';
+import { formatHtmlContent } from './html';
+
+// Plain text for synthesized narration, or undefined when there is nothing to read
+const toSpeechText = (content: string | undefined): string | undefined => {
+  const text = content ? formatHtmlContent(content).trim() : '';
+  return text || undefined;
+};
+
+/**
+ * Builds a playback track for a book's top-level narration, or for reading
+ * its content aloud when it has no narration
+ * @param book The book to play
+ * @returns The track, or null if the book has neither audio nor text
+ */
+export const bookToTrack = (book: Book): PlaybackTrack | null => {
+  const audioUrl = processAudioUrl(book.audioUrl);
+  const text = audioUrl ? undefined : toSpeechText(book.content);
+  if (!audioUrl && !text) {
+    return null;
+  }
+
+  return {
+    id: book.id,
+    audioUrl,
+    title: book.title,
+    subtitle: book.author,
+    author: book.author,
+    artworkUrl: processThumbnailUrl(book.thumbnailUrl),
+    bookId: book.id,
+    text,
+  };
+};
+
+/**
+ * Builds a playback track for a single chapter of a book
+ * @param book The book the chapter belongs to
+ * @param chapter The chapter to play
+ * @returns The track, or null if the chapter has neither audio nor text
+ */
+export const chapterToTrack = (book: Book, chapter: Chapter): PlaybackTrack | null => {
+  const audioUrl = processAudioUrl(chapter.audioUrl);
+  const text = audioUrl ? undefined : toSpeechText(chapter.content);
+  if (!audioUrl && !text) {
+    return null;
+  }
+
+  return {
+    id: `${book.id}:${chapter.id}`,
+    audioUrl,
+    title: chapter.title || book.title,
+    subtitle: book.title,
+    author: book.author,
+    artworkUrl: processThumbnailUrl(book.thumbnailUrl),
+    bookId: book.id,
+    chapterId: chapter.id,
+    text,
+  };
+};
+
+/**
+ * Builds the playback queue for a book from its chapters in reading order.
+ * Chapters without narration are kept (with no audioUrl, but with their text)
+ * so the player can skip them or read them aloud, depending on the user's settings.
+ * @param book The book the chapters belong to
+ * @param chapters The chapters to queue
+ * @returns The queue, ordered by Chapter.order
+ */
+export const chaptersToQueue = (book: Book, chapters: Chapter[]): PlaybackTrack[] => {
+  return [...chapters]
+    .sort((a, b) => a.order - b.order)
+    .map(chapter => {
+      const audioUrl = processAudioUrl(chapter.audioUrl);
+      return {
+        id: `${book.id}:${chapter.id}`,
+        audioUrl,
+        title: chapter.title || book.title,
+        subtitle: book.title,
+        author: book.author,
+        artworkUrl: processThumbnailUrl(book.thumbnailUrl),
+        bookId: book.id,
+        chapterId: chapter.id,
+        text: audioUrl ? undefined : toSpeechText(chapter.content),
+      };
+    });
+};
+
+/**
+ * Builds a read-along queue that narrates a chapter paragraph by paragraph
+ * @param book The book the chapter belongs to
+ * @param chapter The chapter being read
+ * @param paragraphs The chapter's paragraphs
+ * @returns The queue, ordered by Paragraph.order
+ */
+export const paragraphsToQueue = (book: Book, chapter: Chapter, paragraphs: Paragraph[]): PlaybackTrack[] => {
+  return [...paragraphs]
+    .sort((a, b) => a.order - b.order)
+    .map((paragraph, index) => ({
+      id: `${book.id}:${chapter.id}:${paragraph.id}`,
+      audioUrl: processAudioUrl(paragraph.audioUrl),
+      title: chapter.title || book.title,
+      subtitle: `Paragraph ${index + 1} of ${paragraphs.length}`,
+      author: book.author,
+      artworkUrl: processThumbnailUrl(book.thumbnailUrl),
+      bookId: book.id,
+      chapterId: chapter.id,
+      paragraphId: paragraph.id,
+    }));
+};